@@ -0,0 +1,124 @@
+/**
+ * Convert a trademark bulk export (CSV) into the compact index used for trademark screening.
+ * Recognizes common USPTO/EUIPO column names for the word mark, Nice classes, owner and number.
+ * Usage: node build-trademark-index.js <export.csv> [office] [output]
+ * Writes data/trademarks.json by default (or TRADEMARK_INDEX_PATH).
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const INPUT = process.argv[2];
+const OFFICE = process.argv[3] || undefined;
+const OUTPUT =
+  process.argv[4] || process.env.TRADEMARK_INDEX_PATH || path.join(__dirname, "data", "trademarks.json");
+
+const COLUMN_ALIASES = {
+  mark: ["mark", "word_mark", "wordmark", "mark_id_char", "mark_text", "trademark", "verbal_element"],
+  classes: ["classes", "nice_classes", "nice_class", "class", "international_class", "class_codes"],
+  owner: ["owner", "owner_name", "applicant", "applicant_name", "party_name", "holder"],
+  registration: ["registration", "registration_number", "reg_no", "serial_no", "serial_number", "application_number"],
+};
+
+function parseCsvLine(line) {
+  const cells = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const character = line[index];
+
+    if (quoted) {
+      if (character === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (character === '"') {
+        quoted = false;
+      } else {
+        cell += character;
+      }
+    } else if (character === '"') {
+      quoted = true;
+    } else if (character === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += character;
+    }
+  }
+
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+function resolveColumns(header) {
+  const normalized = header.map((name) => name.toLowerCase().replace(/[^a-z0-9]+/g, "_"));
+  const columns = {};
+
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index >= 0) {
+      columns[field] = index;
+    }
+  }
+
+  if (columns.mark === undefined) {
+    throw new Error(`No word mark column found; expected one of: ${COLUMN_ALIASES.mark.join(", ")}.`);
+  }
+
+  return columns;
+}
+
+function parseClasses(value) {
+  return Array.from(
+    new Set(
+      (value || "")
+        .split(/[^0-9]+/)
+        .map(Number)
+        .filter((item) => Number.isInteger(item) && item >= 1 && item <= 45),
+    ),
+  ).sort((a, b) => a - b);
+}
+
+function main() {
+  if (!INPUT) {
+    throw new Error("Usage: node build-trademark-index.js <export.csv> [office] [output]");
+  }
+
+  const lines = fs.readFileSync(INPUT, "utf8").split(/\r?\n/).filter(Boolean);
+  const columns = resolveColumns(parseCsvLine(lines[0] || ""));
+  const marks = [];
+
+  for (const line of lines.slice(1)) {
+    const cells = parseCsvLine(line);
+    const mark = cells[columns.mark];
+    if (!mark) {
+      continue;
+    }
+
+    marks.push({
+      mark,
+      classes: parseClasses(cells[columns.classes]),
+      owner: cells[columns.owner] || undefined,
+      registration: cells[columns.registration] || undefined,
+      office: OFFICE,
+    });
+  }
+
+  const payload = {
+    source: path.basename(INPUT),
+    updatedAt: new Date().toISOString().slice(0, 10),
+    marks,
+  };
+
+  fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+  fs.writeFileSync(OUTPUT, `${JSON.stringify(payload)}\n`);
+  console.log(`Wrote ${marks.length} marks to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
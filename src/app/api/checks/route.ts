@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+
+import { runDomainChecks } from "@/lib/search/checks";
+import { mapErrorToJobError } from "@/lib/search/errors";
+import { domainCheckRequestSchema } from "@/lib/search/schema";
+
+export const runtime = "nodejs";
+
+function statusForErrorCode(code: string): number {
+  if (code === "SCORING_PROFILE_NOT_FOUND") {
+    return 400;
+  }
+
+  if (code.endsWith("_RATE_LIMIT")) {
+    return 429;
+  }
+
+  return code === "INTERNAL_ERROR" ? 500 : 502;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const input = domainCheckRequestSchema.parse(body);
+
+    const results = await runDomainChecks(input, request.signal);
+
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          code: "INVALID_REQUEST",
+          message: "Request payload validation failed.",
+          issues: error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const jobError = mapErrorToJobError(error);
+
+    return NextResponse.json(jobError, { status: statusForErrorCode(jobError.code) });
+  }
+}
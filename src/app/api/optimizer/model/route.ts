@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+
+import {
+  importOptimizerModelState,
+  listOptimizerSnapshots,
+  loadOptimizerModelStateWithReport,
+  OptimizerModelMigrationError,
+  resetOptimizerModelState,
+} from "@/lib/search/model-store";
+import { summarizeOptimizerModel } from "@/lib/search/model-summary";
+import { optimizerModelImportSchema, optimizerModelQuerySchema } from "@/lib/search/schema";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const parsed = optimizerModelQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        code: "INVALID_REQUEST",
+        message: "Optimizer model query validation failed.",
+        issues: parsed.error.issues,
+      },
+      { status: 400 },
+    );
+  }
+
+  const { state, report } = await loadOptimizerModelStateWithReport();
+  if (parsed.data.view === "raw") {
+    return NextResponse.json(state, { status: 200 });
+  }
+
+  return NextResponse.json(
+    {
+      model: summarizeOptimizerModel(state),
+      loadReport: report,
+      snapshots: await listOptimizerSnapshots(),
+    },
+    { status: 200 },
+  );
+}
+
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const input = optimizerModelImportSchema.parse(body);
+
+    const model = await importOptimizerModelState(input);
+
+    return NextResponse.json({ model: summarizeOptimizerModel(model) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          code: "INVALID_REQUEST",
+          message: "Optimizer model validation failed.",
+          issues: error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof OptimizerModelMigrationError) {
+      return NextResponse.json(
+        {
+          code: "UNSUPPORTED_MODEL_VERSION",
+          message: error.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unexpected server error.";
+
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const model = await resetOptimizerModelState();
+
+    return NextResponse.json({ model: summarizeOptimizerModel(model), reset: true }, { status: 200 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected server error.";
+
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import {
+  OptimizerSnapshotNotFoundError,
+  OptimizerSnapshotUnreadableError,
+  rollbackOptimizerModelState,
+} from "@/lib/search/model-store";
+import { summarizeOptimizerModel } from "@/lib/search/model-summary";
+
+export const runtime = "nodejs";
+
+interface Params {
+  params: Promise<{ snapshotId: string }>;
+}
+
+export async function POST(_request: Request, { params }: Params) {
+  const { snapshotId } = await params;
+
+  try {
+    const model = await rollbackOptimizerModelState(snapshotId);
+
+    return NextResponse.json({ rolledBackTo: snapshotId, model: summarizeOptimizerModel(model) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof OptimizerSnapshotNotFoundError) {
+      return NextResponse.json(
+        {
+          code: "NOT_FOUND",
+          message: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    if (error instanceof OptimizerSnapshotUnreadableError) {
+      return NextResponse.json(
+        {
+          code: "SNAPSHOT_UNREADABLE",
+          message: error.message,
+        },
+        { status: 422 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unexpected server error.";
+
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message,
+      },
+      { status: 500 },
+    );
+  }
+}
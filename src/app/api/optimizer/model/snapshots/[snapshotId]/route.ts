@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+import {
+  loadOptimizerSnapshot,
+  OptimizerSnapshotNotFoundError,
+  OptimizerSnapshotUnreadableError,
+} from "@/lib/search/model-store";
+import { summarizeOptimizerModel } from "@/lib/search/model-summary";
+import { optimizerModelQuerySchema } from "@/lib/search/schema";
+
+export const runtime = "nodejs";
+
+interface Params {
+  params: Promise<{ snapshotId: string }>;
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const { snapshotId } = await params;
+  const parsed = optimizerModelQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        code: "INVALID_REQUEST",
+        message: "Optimizer model query validation failed.",
+        issues: parsed.error.issues,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const model = await loadOptimizerSnapshot(snapshotId);
+
+    if (parsed.data.view === "raw") {
+      return NextResponse.json(model, { status: 200 });
+    }
+
+    return NextResponse.json({ id: snapshotId, model: summarizeOptimizerModel(model) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof OptimizerSnapshotNotFoundError) {
+      return NextResponse.json(
+        {
+          code: "NOT_FOUND",
+          message: error.message,
+        },
+        { status: 404 },
+      );
+    }
+
+    if (error instanceof OptimizerSnapshotUnreadableError) {
+      return NextResponse.json(
+        {
+          code: "SNAPSHOT_UNREADABLE",
+          message: error.message,
+        },
+        { status: 422 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unexpected server error.";
+
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { deleteScoringProfile, getScoringProfile, ScoringProfileConflictError } from "@/lib/search/profile-store";
+
+export const runtime = "nodejs";
+
+interface Params {
+  params: Promise<{ profileId: string }>;
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  const { profileId } = await params;
+  const profile = await getScoringProfile(profileId);
+
+  if (!profile) {
+    return NextResponse.json(
+      {
+        code: "NOT_FOUND",
+        message: "Scoring profile was not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json(profile, { status: 200 });
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const { profileId } = await params;
+
+  try {
+    if (!(await deleteScoringProfile(profileId))) {
+      return NextResponse.json(
+        {
+          code: "NOT_FOUND",
+          message: "Scoring profile was not found.",
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ id: profileId, deleted: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ScoringProfileConflictError) {
+      return NextResponse.json(
+        {
+          code: "BUILT_IN_PROFILE",
+          message: error.message,
+        },
+        { status: 409 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unexpected server error.";
+
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message,
+      },
+      { status: 500 },
+    );
+  }
+}
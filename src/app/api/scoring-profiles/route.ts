@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+
+import {
+  listScoringProfiles,
+  registerScoringProfile,
+  ScoringProfileConflictError,
+  ScoringProfileNotFoundError,
+} from "@/lib/search/profile-store";
+import { scoringProfileInputSchema } from "@/lib/search/schema";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  return NextResponse.json({ items: await listScoringProfiles() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const input = scoringProfileInputSchema.parse(body);
+
+    const profile = await registerScoringProfile(input);
+
+    return NextResponse.json(profile, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          code: "INVALID_REQUEST",
+          message: "Scoring profile validation failed.",
+          issues: error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof ScoringProfileNotFoundError) {
+      return NextResponse.json(
+        {
+          code: "SCORING_PROFILE_NOT_FOUND",
+          message: error.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof ScoringProfileConflictError) {
+      return NextResponse.json(
+        {
+          code: "SCORING_PROFILE_EXISTS",
+          message: error.message,
+        },
+        { status: 409 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unexpected server error.";
+
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message,
+      },
+      { status: 500 },
+    );
+  }
+}
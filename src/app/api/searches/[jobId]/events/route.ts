@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+
+import {
+  formatSseEvent,
+  getJobEventsSince,
+  getLatestJobEventId,
+  isTerminalJobEvent,
+  parseLastEventId,
+  subscribeJobEvents,
+} from "@/lib/jobs/events";
+import { getJob } from "@/lib/jobs/store";
+import { isJobSettled, toSearchJobView } from "@/lib/jobs/view";
+import type { JobEvent } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const CLIENT_RETRY_MS = 3_000;
+
+interface Params {
+  params: Promise<{ jobId: string }>;
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        code: "NOT_FOUND",
+        message: "Search job was not found or has expired.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const lastEventId = parseLastEventId(
+    request.headers.get("last-event-id") ?? new URL(request.url).searchParams.get("lastEventId"),
+  );
+  const encoder = new TextEncoder();
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const close = () => {
+        if (closed) {
+          return;
+        }
+
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      send(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+      const replay = lastEventId === null ? null : getJobEventsSince(jobId, lastEventId);
+      const initial: JobEvent[] = replay ?? [
+        { id: getLatestJobEventId(jobId), type: "snapshot", data: toSearchJobView(job) },
+      ];
+      initial.forEach((event) => send(formatSseEvent(event)));
+
+      if (initial.some(isTerminalJobEvent) || isJobSettled(job)) {
+        close();
+        return;
+      }
+
+      const unsubscribe = subscribeJobEvents(jobId, (event) => {
+        send(formatSseEvent(event));
+        if (isTerminalJobEvent(event)) {
+          close();
+        }
+      });
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", close, { once: true });
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+
+import { generateCsv, generateJsonLines } from "@/lib/export/text";
+import { XLSX_CONTENT_TYPE, buildXlsxWorkbook } from "@/lib/export/xlsx";
+import { getJob } from "@/lib/jobs/store";
+import { exportQuerySchema } from "@/lib/search/schema";
+import { filterByTrademarkRisk, sortRankedDomains } from "@/lib/search/sort";
+
+export const runtime = "nodejs";
+
+interface Params {
+  params: Promise<{ jobId: string }>;
+}
+
+function streamLines(lines: Iterator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = lines.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encoder.encode(next.value));
+    },
+  });
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        code: "NOT_FOUND",
+        message: "Search job was not found or has expired.",
+      },
+      { status: 404 },
+    );
+  }
+
+  let query;
+  try {
+    query = exportQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          code: "INVALID_REQUEST",
+          message: "Export query validation failed.",
+          issues: error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    throw error;
+  }
+
+  if (!job.results) {
+    return NextResponse.json(
+      {
+        code: "NO_RESULTS",
+        message: `Search job is ${job.status} and has no results to export yet.`,
+      },
+      { status: 409 },
+    );
+  }
+
+  const rows = sortRankedDomains(filterByTrademarkRisk(job.results.allRanked, query.trademarkRisk), query.sort);
+  const filename = `domains-${job.id.slice(0, 8)}.${query.format}`;
+  const headers = {
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Cache-Control": "no-store",
+  };
+
+  if (query.format === "xlsx") {
+    const workbook = buildXlsxWorkbook(rows, query.columns);
+    return new Response(new Uint8Array(workbook), {
+      headers: { ...headers, "Content-Type": XLSX_CONTENT_TYPE },
+    });
+  }
+
+  if (query.format === "jsonl") {
+    return new Response(streamLines(generateJsonLines(rows, query.columns)), {
+      headers: { ...headers, "Content-Type": "application/x-ndjson; charset=utf-8" },
+    });
+  }
+
+  return new Response(streamLines(generateCsv(rows, query.columns)), {
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+}
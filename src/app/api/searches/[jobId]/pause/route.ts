@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+
+import { getJob } from "@/lib/jobs/store";
+import { pauseSearchJob } from "@/lib/search/runner";
+
+export const runtime = "nodejs";
+
+interface Params {
+  params: Promise<{ jobId: string }>;
+}
+
+export async function POST(_request: Request, { params }: Params) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        code: "NOT_FOUND",
+        message: "Search job was not found or has expired.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const paused = pauseSearchJob(jobId);
+
+  if (!paused) {
+    return NextResponse.json(
+      {
+        code: "NOT_PAUSABLE",
+        message: `Search job is ${job.status} and cannot be paused.`,
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      jobId: paused.id,
+      status: paused.status,
+    },
+    { status: 202 },
+  );
+}
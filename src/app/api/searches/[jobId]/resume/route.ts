@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { getJob } from "@/lib/jobs/store";
+import { resumeSearchJob } from "@/lib/search/runner";
+
+export const runtime = "nodejs";
+
+interface Params {
+  params: Promise<{ jobId: string }>;
+}
+
+export async function POST(_request: Request, { params }: Params) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        code: "NOT_FOUND",
+        message: "Search job was not found or has expired.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const resumeFromLoop = (job.checkpoint?.completedLoop ?? 0) + 1;
+  const resumed = resumeSearchJob(jobId);
+
+  if (!resumed) {
+    return NextResponse.json(
+      {
+        code: "NOT_RESUMABLE",
+        message: `Search job is ${job.status} and cannot be resumed.`,
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      jobId: resumed.id,
+      status: resumed.status,
+      resumeFromLoop,
+    },
+    { status: 202 },
+  );
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 
 import { getJob } from "@/lib/jobs/store";
+import { toSearchJobView } from "@/lib/jobs/view";
+import { cancelSearchJob } from "@/lib/search/runner";
 
 export const runtime = "nodejs";
 
@@ -22,21 +24,40 @@ export async function GET(_request: Request, { params }: Params) {
     );
   }
 
+  return NextResponse.json(toSearchJobView(job), { status: 200 });
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        code: "NOT_FOUND",
+        message: "Search job was not found or has expired.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const cancelled = cancelSearchJob(jobId);
+
+  if (!cancelled) {
+    return NextResponse.json(
+      {
+        code: "NOT_CANCELLABLE",
+        message: `Search job is ${job.status} and cannot be cancelled.`,
+      },
+      { status: 409 },
+    );
+  }
+
   return NextResponse.json(
     {
-      id: job.id,
-      status: job.status,
-      phase: job.phase,
-      progress: job.progress,
-      currentLoop: job.currentLoop,
-      totalLoops: job.totalLoops,
-      results: job.results,
-      error: job.error,
-      createdAt: job.createdAt,
-      updatedAt: job.updatedAt,
-      completedAt: job.completedAt,
+      jobId: cancelled.id,
+      status: cancelled.status,
     },
     { status: 200 },
   );
 }
-
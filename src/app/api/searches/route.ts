@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
 import { ZodError } from "zod";
 
-import { createJob, markJobFailed } from "@/lib/jobs/store";
-import { runSearchJob } from "@/lib/search/runner";
-import { searchRequestSchema } from "@/lib/search/schema";
+import { JobCursorError, listJobSummaries } from "@/lib/jobs/history";
+import { createJob, listJobs } from "@/lib/jobs/store";
+import { getScoringProfile } from "@/lib/search/profile-store";
+import { launchSearchJob } from "@/lib/search/runner";
+import { searchListQuerySchema, searchRequestSchema } from "@/lib/search/schema";
 
 export const runtime = "nodejs";
 
@@ -12,15 +14,19 @@ export async function POST(request: Request) {
     const body = await request.json();
     const input = searchRequestSchema.parse(body);
 
+    if (input.scoringProfile && !(await getScoringProfile(input.scoringProfile))) {
+      return NextResponse.json(
+        {
+          code: "SCORING_PROFILE_NOT_FOUND",
+          message: `Scoring profile "${input.scoringProfile}" does not exist.`,
+        },
+        { status: 400 },
+      );
+    }
+
     const job = createJob(input);
 
-    void runSearchJob(job.id).catch((error: unknown) => {
-      const message = error instanceof Error ? error.message : "Unexpected background failure.";
-      markJobFailed(job.id, {
-        code: "BACKGROUND_EXECUTION_ERROR",
-        message,
-      });
-    });
+    launchSearchJob(job.id);
 
     return NextResponse.json(
       {
@@ -52,3 +58,43 @@ export async function POST(request: Request) {
     );
   }
 }
+
+export async function GET(request: Request) {
+  try {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const query = searchListQuerySchema.parse(params);
+
+    return NextResponse.json(listJobSummaries(listJobs(), query), { status: 200 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          code: "INVALID_REQUEST",
+          message: "Search listing query validation failed.",
+          issues: error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof JobCursorError) {
+      return NextResponse.json(
+        {
+          code: "INVALID_CURSOR",
+          message: error.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unexpected server error.";
+
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message,
+      },
+      { status: 500 },
+    );
+  }
+}
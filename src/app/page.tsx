@@ -1,16 +1,34 @@
 "use client";
 
-import { FormEvent, useEffect, useMemo, useState } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 
-import { sortRankedDomains, type DomainSortMode } from "@/lib/search/sort";
+import { EXPORT_FORMAT_VALUES } from "@/lib/export/columns";
+import { classifyRankedResults } from "@/lib/search/classify";
+import { DOMAIN_SORT_MODES, filterByTrademarkRisk, sortRankedDomains, type DomainSortMode } from "@/lib/search/sort";
 import {
+  BANDIT_STRATEGY_VALUES,
+  CONNOTATION_SCREENING_MODES,
+  JOB_STATUS_VALUES,
+  NAME_SOURCE_VALUES,
   RANDOMNESS_VALUES,
+  SCREENING_LANGUAGE_VALUES,
   STYLE_VALUES,
+  TRADEMARK_RISK_VALUES,
+  type JobEventDataMap,
+  type JobEventType,
+  type LabelTldGroup,
+  type LoopSummary,
   type RankedDomainResult,
+  type ScoringProfile,
+  type SearchJobPage,
+  type SearchJobSummary,
   type SearchResults,
+  type TldOption,
+  type TrademarkRiskLevel,
+  type TuningStep,
 } from "@/lib/types";
 
-type SearchStatus = "queued" | "running" | "done" | "failed";
+type SearchStatus = "queued" | "running" | "paused" | "done" | "failed" | "cancelled" | "interrupted";
 type SearchPhase = "namelix" | "godaddy" | "looping" | "finalize" | null;
 
 interface SearchJobResponse {
@@ -20,6 +38,7 @@ interface SearchJobResponse {
   progress: number;
   currentLoop?: number;
   totalLoops?: number;
+  resumableFromLoop?: number;
   error?: {
     code: string;
     message: string;
@@ -30,36 +49,100 @@ interface SearchJobResponse {
 interface SearchFormState {
   keywords: string;
   description: string;
+  industry: string;
   style: (typeof STYLE_VALUES)[number];
   randomness: (typeof RANDOMNESS_VALUES)[number];
   blacklist: string;
   maxLength: number;
-  tld: string;
+  tlds: string;
+  domainHacks: boolean;
+  idn: boolean;
+  scoringProfile: string;
+  niceClasses: string;
+  marketLanguages: (typeof SCREENING_LANGUAGE_VALUES)[number][];
+  connotationScreening: (typeof CONNOTATION_SCREENING_MODES)[number];
   maxNames: number;
   yearlyBudget: number;
   loopCount: number;
+  banditStrategy: (typeof BANDIT_STRATEGY_VALUES)[number];
+  nameSources: (typeof NAME_SOURCE_VALUES)[number][];
 }
 
 const initialFormState: SearchFormState = {
   keywords: "",
   description: "",
+  industry: "",
   style: "default",
   randomness: "medium",
   blacklist: "",
   maxLength: 25,
-  tld: "com",
+  tlds: "com",
+  domainHacks: false,
+  idn: false,
+  scoringProfile: "balanced",
+  niceClasses: "",
+  marketLanguages: ["en"],
+  connotationScreening: "penalize",
   maxNames: 100,
   yearlyBudget: 50,
   loopCount: 10,
+  banditStrategy: "epsilon-greedy",
+  nameSources: ["namelix"],
 };
 
-const DOMAIN_SORT_OPTIONS: DomainSortMode[] = [
-  "marketability",
-  "financialValue",
-  "alphabetical",
-  "syllableCount",
-  "labelLength",
-];
+function formatDuration(ms?: number): string {
+  if (typeof ms !== "number") {
+    return "-";
+  }
+
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function isJobSettled(status?: SearchStatus): boolean {
+  return status === "done" || status === "failed" || status === "cancelled" || status === "interrupted";
+}
+
+function updateResults(
+  job: SearchJobResponse,
+  update: (results: SearchResults) => Pick<SearchResults, "allRanked" | "loopSummaries" | "tuningHistory">,
+): SearchJobResponse {
+  const current = job.results ?? classifyRankedResults([], [], []);
+  const next = update(current);
+
+  return {
+    ...job,
+    results: {
+      ...classifyRankedResults(next.allRanked, next.loopSummaries, next.tuningHistory),
+      verification: current.verification,
+      labelGroups: current.labelGroups,
+    },
+  };
+}
+
+function applyDomainDelta(job: SearchJobResponse, domains: RankedDomainResult[]): SearchJobResponse {
+  return updateResults(job, (results) => {
+    const byDomain = new Map(results.allRanked.map((row) => [row.domain, row]));
+    domains.forEach((row) => byDomain.set(row.domain, row));
+    return { ...results, allRanked: Array.from(byDomain.values()) };
+  });
+}
+
+function upsertLoopSummary(job: SearchJobResponse, summary: LoopSummary): SearchJobResponse {
+  return updateResults(job, (results) => ({
+    ...results,
+    loopSummaries: [...results.loopSummaries.filter((item) => item.loop !== summary.loop), summary].sort(
+      (a, b) => a.loop - b.loop,
+    ),
+  }));
+}
+
+function appendTuningStep(job: SearchJobResponse, step: TuningStep): SearchJobResponse {
+  return updateResults(job, (results) => ({
+    ...results,
+    tuningHistory: [...results.tuningHistory.filter((item) => item.loop !== step.loop), step],
+  }));
+}
 
 function formatMoney(value?: number, currency?: string): string {
   if (typeof value !== "number") {
@@ -86,6 +169,18 @@ function phaseLabel(status: SearchStatus, phase: SearchPhase): string {
     return "Failed";
   }
 
+  if (status === "interrupted") {
+    return "Interrupted";
+  }
+
+  if (status === "paused") {
+    return "Paused";
+  }
+
+  if (status === "cancelled") {
+    return "Cancelled";
+  }
+
   if (phase === "looping") {
     return "Iterative tuning";
   }
@@ -119,6 +214,7 @@ function BudgetTable({ rows }: { rows: RankedDomainResult[] }) {
             <th>Price</th>
             <th>Available</th>
             <th>Definitive</th>
+            <th>Check</th>
             <th>Premium</th>
             <th>Marketability</th>
             <th>Financial</th>
@@ -129,10 +225,11 @@ function BudgetTable({ rows }: { rows: RankedDomainResult[] }) {
         <tbody>
           {rows.map((row) => (
             <tr key={`${row.domain}:${row.sourceName}`}>
-              <td>{row.domain}</td>
+              <td>{formatDomain(row)}</td>
               <td>{formatMoney(row.price, row.currency)}</td>
               <td>{row.available ? "Yes" : "No"}</td>
-              <td>{row.definitive ? "Yes" : "No"}</td>
+              <td>{row.conflict ? "Conflict" : row.definitive ? "Yes" : "No"}</td>
+              <td>{row.checkType ?? "-"}</td>
               <td>{row.isNamelixPremium ? "Yes" : "No"}</td>
               <td><ScoreBadge score={row.marketabilityScore} /></td>
               <td><ScoreBadge score={row.financialValueScore} /></td>
@@ -146,6 +243,46 @@ function BudgetTable({ rows }: { rows: RankedDomainResult[] }) {
   );
 }
 
+function formatDomain(row: RankedDomainResult): string {
+  return row.unicodeDomain ? `${row.unicodeDomain} (${row.domain})` : row.domain;
+}
+
+function formatTldOption(option: TldOption): string {
+  if (!option.available) {
+    return "taken";
+  }
+
+  const price = formatMoney(option.price, option.currency);
+  return option.overBudget ? `${price} (over budget)` : price;
+}
+
+function LabelGroupTable({ groups }: { groups: LabelTldGroup[] }) {
+  return (
+    <div className="table-wrap">
+      <table>
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Extensions</th>
+            <th>Best TLD</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group) => (
+            <tr key={group.label}>
+              <td>{group.label}</td>
+              <td>
+                {group.options.map((option) => `.${option.tld} ${formatTldOption(option)}`).join(" | ")}
+              </td>
+              <td>{group.bestDomain ?? "-"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function RankedTable({ rows }: { rows: RankedDomainResult[] }) {
   return (
     <div className="table-wrap">
@@ -160,24 +297,30 @@ function RankedTable({ rows }: { rows: RankedDomainResult[] }) {
             <th>Overall</th>
             <th>Syllables</th>
             <th>Label Len</th>
+            <th>Segments</th>
             <th>Discovered</th>
             <th>First Loop</th>
             <th>Last Loop</th>
             <th>Value Drivers</th>
             <th>Value Detractors</th>
+            <th>Trademark</th>
+            <th>Resembles</th>
           </tr>
         </thead>
         <tbody>
           {rows.map((row) => (
             <tr key={`${row.domain}:${row.firstSeenLoop}:${row.lastSeenLoop}`}>
-              <td>{row.domain}</td>
-              <td>Available</td>
+              <td>{formatDomain(row)}</td>
+              <td title={row.providerVerdicts?.map((verdict) => `${verdict.provider}: ${verdict.available ? "available" : "taken"}`).join(", ")}>
+                {row.conflict ? "Available (providers disagree)" : "Available"}
+              </td>
               <td>{formatMoney(row.price, row.currency)}</td>
               <td><ScoreBadge score={row.marketabilityScore} /></td>
               <td><ScoreBadge score={row.financialValueScore} /></td>
               <td><ScoreBadge score={row.overallScore} /></td>
               <td>{row.syllableCount}</td>
               <td>{row.labelLength}</td>
+              <td>{row.labelSegments?.join("|") || "-"}</td>
               <td>{row.timesDiscovered}</td>
               <td>{row.firstSeenLoop}</td>
               <td>{row.lastSeenLoop}</td>
@@ -187,6 +330,12 @@ function RankedTable({ rows }: { rows: RankedDomainResult[] }) {
               <td>
                 {row.valueDetractors.map((item) => `${item.component} (${item.impact.toFixed(1)})`).join(", ") || "-"}
               </td>
+              <td title={row.trademarkMatches?.map((match) => `${match.mark} (${match.matchType})`).join(", ")}>
+                {row.trademarkRisk ?? "-"}
+              </td>
+              <td title={row.brandMatches?.map((match) => `${match.brand} ${match.similarity}% (${match.reason})`).join(", ")}>
+                {row.brandMatches?.[0] ? `${row.brandMatches[0].brand} (${row.brandCollisionScore})` : "-"}
+              </td>
             </tr>
           ))}
         </tbody>
@@ -202,60 +351,142 @@ export default function Page() {
   const [job, setJob] = useState<SearchJobResponse | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [sortMode, setSortMode] = useState<DomainSortMode>("marketability");
+  const [maxTrademarkRisk, setMaxTrademarkRisk] = useState<TrademarkRiskLevel>("high");
+  const [streamKey, setStreamKey] = useState(0);
+  const [history, setHistory] = useState<SearchJobSummary[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | undefined>(undefined);
+  const [historyKeyword, setHistoryKeyword] = useState("");
+  const [historyStatus, setHistoryStatus] = useState("");
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>([]);
 
   useEffect(() => {
     if (!jobId) {
       return;
     }
 
-    let active = true;
-
-    const fetchJob = async () => {
-      const response = await fetch(`/api/searches/${jobId}`, {
-        method: "GET",
-        cache: "no-store",
+    const source = new EventSource(`/api/searches/${jobId}/events`);
+    const on = <K extends JobEventType>(type: K, handler: (data: JobEventDataMap[K]) => void) => {
+      source.addEventListener(type, (event) => {
+        handler(JSON.parse((event as MessageEvent<string>).data) as JobEventDataMap[K]);
       });
+    };
+    const patch = (update: (previous: SearchJobResponse) => SearchJobResponse) => {
+      setJob((previous) => (previous ? update(previous) : previous));
+    };
 
-      if (!response.ok) {
-        return;
+    on("snapshot", (data) => {
+      setJob(data);
+      if (isJobSettled(data.status)) {
+        source.close();
       }
-
-      const payload = (await response.json()) as SearchJobResponse;
-
-      if (!active) {
-        return;
+    });
+    on("phase", (data) => {
+      patch((previous) => ({ ...previous, ...data, error: data.error, resumableFromLoop: data.resumableFromLoop }));
+      if (data.status === "cancelled" || data.status === "interrupted") {
+        source.close();
       }
+    });
+    on("domains", (data) => patch((previous) => applyDomainDelta(previous, data.domains)));
+    on("batch", (data) => patch((previous) => upsertLoopSummary(previous, data.summary)));
+    on("loop", (data) => patch((previous) => upsertLoopSummary(previous, data.summary)));
+    on("tuning", (data) => patch((previous) => appendTuningStep(previous, data.step)));
+    on("complete", (data) => {
+      patch((previous) => ({ ...previous, results: data.results }));
+      source.close();
+    });
+    on("failed", (data) => {
+      patch((previous) => ({ ...previous, status: "failed", error: data.error }));
+      source.close();
+    });
 
-      setJob(payload);
+    return () => {
+      source.close();
     };
+  }, [jobId, streamKey]);
 
-    void fetchJob();
-
-    const interval = setInterval(() => {
-      if (!active) {
-        return;
+  const loadHistory = useCallback(
+    async (cursor?: string) => {
+      const params = new URLSearchParams({ limit: "20" });
+      if (historyKeyword.trim()) {
+        params.set("keyword", historyKeyword.trim());
+      }
+      if (historyStatus) {
+        params.set("status", historyStatus);
+      }
+      if (cursor) {
+        params.set("cursor", cursor);
       }
 
-      if (job?.status === "done" || job?.status === "failed") {
+      const response = await fetch(`/api/searches?${params.toString()}`, { cache: "no-store" });
+      if (!response.ok) {
         return;
       }
 
-      void fetchJob();
-    }, 2000);
+      const page = (await response.json()) as SearchJobPage;
+      setHistory((previous) => (cursor ? [...previous, ...page.items] : page.items));
+      setHistoryCursor(page.nextCursor);
+    },
+    [historyKeyword, historyStatus],
+  );
 
-    return () => {
-      active = false;
-      clearInterval(interval);
-    };
-  }, [jobId, job?.status]);
+  useEffect(() => {
+    void loadHistory();
+  }, [loadHistory, jobId, job?.status]);
+
+  useEffect(() => {
+    void fetch("/api/scoring-profiles", { cache: "no-store" })
+      .then((response) => (response.ok ? (response.json() as Promise<{ items: ScoringProfile[] }>) : { items: [] }))
+      .then((payload) => setScoringProfiles(payload.items))
+      .catch(() => setScoringProfiles([]));
+  }, []);
 
-  const isPollingComplete = useMemo(() => {
-    return job?.status === "done" || job?.status === "failed";
+  const onOpenHistory = (id: string) => {
+    setSubmitError(null);
+    setJob(null);
+    setSortMode("marketability");
+    setJobId(id);
+    setStreamKey((key) => key + 1);
+  };
+
+  const isSettled = useMemo(() => {
+    return isJobSettled(job?.status);
   }, [job]);
 
+  const allowedTrademarkRisks = useMemo(() => {
+    return TRADEMARK_RISK_VALUES.slice(0, TRADEMARK_RISK_VALUES.indexOf(maxTrademarkRisk) + 1);
+  }, [maxTrademarkRisk]);
+
   const allRankedRows = useMemo(() => {
-    return sortRankedDomains(job?.results?.allRanked ?? [], sortMode);
-  }, [job?.results?.allRanked, sortMode]);
+    return sortRankedDomains(filterByTrademarkRisk(job?.results?.allRanked ?? [], allowedTrademarkRisks), sortMode);
+  }, [job?.results?.allRanked, allowedTrademarkRisks, sortMode]);
+
+  const sendJobAction = async (path: string, method: "POST" | "DELETE", failureMessage: string) => {
+    if (!jobId) {
+      return false;
+    }
+
+    setSubmitError(null);
+
+    const response = await fetch(`/api/searches/${jobId}${path}`, { method });
+    const payload = (await response.json()) as { status?: SearchStatus; message?: string };
+
+    if (!response.ok || !payload.status) {
+      setSubmitError(payload.message ?? failureMessage);
+      return false;
+    }
+
+    const status = payload.status;
+    setJob((previous) => (previous ? { ...previous, status, error: undefined } : previous));
+    return true;
+  };
+
+  const onResume = async () => {
+    if (await sendJobAction("/resume", "POST", "Unable to resume the search job.")) {
+      setStreamKey((key) => key + 1);
+    }
+  };
+  const onPause = () => sendJobAction("/pause", "POST", "Unable to pause the search job.");
+  const onCancel = () => sendJobAction("", "DELETE", "Unable to cancel the search job.");
 
   const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -271,7 +502,18 @@ export default function Page() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(form),
+        body: JSON.stringify({
+          ...form,
+          industry: form.industry.trim() || undefined,
+          tlds: form.tlds
+            .split(",")
+            .map((tld) => tld.trim())
+            .filter(Boolean),
+          niceClasses: form.niceClasses
+            .split(",")
+            .map((value) => Number(value.trim()))
+            .filter((value) => Number.isInteger(value) && value > 0),
+        }),
       });
 
       const payload = (await response.json()) as { jobId?: string; message?: string };
@@ -314,6 +556,15 @@ export default function Page() {
             />
           </label>
 
+          <label>
+            Industry
+            <input
+              value={form.industry}
+              onChange={(event) => setForm((previous) => ({ ...previous, industry: event.target.value }))}
+              placeholder="Optional, e.g. pets (keeps learning separate per industry)"
+            />
+          </label>
+
           <label>
             Style
             <select
@@ -352,6 +603,22 @@ export default function Page() {
             </select>
           </label>
 
+          <label>
+            Scoring Profile
+            <select
+              value={form.scoringProfile}
+              onChange={(event) => setForm((previous) => ({ ...previous, scoringProfile: event.target.value }))}
+            >
+              {(scoringProfiles.length > 0 ? scoringProfiles : [{ id: "balanced", name: "Balanced" }]).map(
+                (profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ),
+              )}
+            </select>
+          </label>
+
           <label>
             Blacklist
             <input
@@ -373,11 +640,20 @@ export default function Page() {
           </label>
 
           <label>
-            TLD
+            TLDs
             <input
-              value={form.tld}
-              onChange={(event) => setForm((previous) => ({ ...previous, tld: event.target.value }))}
-              placeholder="com"
+              value={form.tlds}
+              onChange={(event) => setForm((previous) => ({ ...previous, tlds: event.target.value }))}
+              placeholder="com, io, ai"
+            />
+          </label>
+
+          <label>
+            Nice Classes (trademark screening)
+            <input
+              value={form.niceClasses}
+              onChange={(event) => setForm((previous) => ({ ...previous, niceClasses: event.target.value }))}
+              placeholder="9, 42 (empty = all classes)"
             />
           </label>
 
@@ -423,6 +699,104 @@ export default function Page() {
             />
           </label>
 
+          <label>
+            Tuning Strategy
+            <select
+              value={form.banditStrategy}
+              onChange={(event) =>
+                setForm((previous) => ({
+                  ...previous,
+                  banditStrategy: event.target.value as SearchFormState["banditStrategy"],
+                }))
+              }
+            >
+              {BANDIT_STRATEGY_VALUES.map((strategy) => (
+                <option key={strategy} value={strategy}>
+                  {strategy}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset>
+            <legend>Name Sources</legend>
+            {NAME_SOURCE_VALUES.map((source) => (
+              <label key={source} className="inline">
+                <input
+                  type="checkbox"
+                  checked={form.nameSources.includes(source)}
+                  onChange={(event) =>
+                    setForm((previous) => {
+                      const next = event.target.checked
+                        ? [...previous.nameSources, source]
+                        : previous.nameSources.filter((value) => value !== source);
+                      return { ...previous, nameSources: next.length > 0 ? next : previous.nameSources };
+                    })
+                  }
+                />
+                {source}
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset>
+            <legend>Market Languages (connotation screening)</legend>
+            {SCREENING_LANGUAGE_VALUES.map((language) => (
+              <label key={language} className="inline">
+                <input
+                  type="checkbox"
+                  checked={form.marketLanguages.includes(language)}
+                  onChange={(event) =>
+                    setForm((previous) => {
+                      const next = event.target.checked
+                        ? [...previous.marketLanguages, language]
+                        : previous.marketLanguages.filter((value) => value !== language);
+                      return { ...previous, marketLanguages: next.length > 0 ? next : previous.marketLanguages };
+                    })
+                  }
+                />
+                {language}
+              </label>
+            ))}
+          </fieldset>
+
+          <label>
+            Offensive / Negative Words
+            <select
+              value={form.connotationScreening}
+              onChange={(event) =>
+                setForm((previous) => ({
+                  ...previous,
+                  connotationScreening: event.target.value as SearchFormState["connotationScreening"],
+                }))
+              }
+            >
+              {CONNOTATION_SCREENING_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            <input
+              type="checkbox"
+              checked={form.idn}
+              onChange={(event) => setForm((previous) => ({ ...previous, idn: event.target.checked }))}
+            />
+            Keep accents and non-Latin letters (IDN)
+          </label>
+
+          <label>
+            <input
+              type="checkbox"
+              checked={form.domainHacks}
+              onChange={(event) => setForm((previous) => ({ ...previous, domainHacks: event.target.checked }))}
+            />
+            Also try domain hacks (e.g. brand.ly for brandly)
+          </label>
+
           <button type="submit" disabled={loading}>
             {loading ? "Starting..." : "Start Search"}
           </button>
@@ -431,6 +805,78 @@ export default function Page() {
         {submitError && <p className="error">{submitError}</p>}
       </section>
 
+      <section className="card">
+        <h2>Search History</h2>
+        <div className="grid">
+          <label>
+            Keyword
+            <input
+              value={historyKeyword}
+              onChange={(event) => setHistoryKeyword(event.target.value)}
+              placeholder="Filter by keywords or description"
+            />
+          </label>
+          <label>
+            Status
+            <select value={historyStatus} onChange={(event) => setHistoryStatus(event.target.value)}>
+              <option value="">any</option>
+              {JOB_STATUS_VALUES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {history.length === 0 ? (
+          <p>No searches yet.</p>
+        ) : (
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>Started</th>
+                  <th>Keywords</th>
+                  <th>Status</th>
+                  <th>Loops</th>
+                  <th>Top Domain</th>
+                  <th>Top Score</th>
+                  <th>Duration</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((item) => (
+                  <tr key={item.id}>
+                    <td>{new Date(item.createdAt).toLocaleString()}</td>
+                    <td>{item.input.keywords}</td>
+                    <td>{item.status}</td>
+                    <td>
+                      {item.completedLoops}/{item.totalLoops}
+                    </td>
+                    <td>{item.topDomain ?? "-"}</td>
+                    <td>{typeof item.topScore === "number" ? item.topScore.toFixed(1) : "-"}</td>
+                    <td>{formatDuration(item.durationMs)}</td>
+                    <td>
+                      <button type="button" onClick={() => onOpenHistory(item.id)} disabled={item.id === jobId}>
+                        Open
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {historyCursor && (
+          <button type="button" onClick={() => void loadHistory(historyCursor)}>
+            Load more
+          </button>
+        )}
+      </section>
+
       {job && (
         <section className="card">
           <h2>Status</h2>
@@ -448,6 +894,24 @@ export default function Page() {
 
           {job.error && <p className="error">{job.error.code}: {job.error.message}</p>}
 
+          {(job.status === "queued" || job.status === "running") && (
+            <button type="button" onClick={() => void onPause()}>
+              Pause
+            </button>
+          )}
+
+          {typeof job.resumableFromLoop === "number" && (
+            <button type="button" onClick={() => void onResume()}>
+              {job.status === "paused" ? "Resume" : `Resume from loop ${job.resumableFromLoop}`}
+            </button>
+          )}
+
+          {(job.status === "queued" || job.status === "running" || job.status === "paused" || job.status === "interrupted") && (
+            <button type="button" onClick={() => void onCancel()}>
+              Cancel
+            </button>
+          )}
+
           {job.results && (
             <>
               <h3>All Discovered Domains ({job.results.allRanked.length})</h3>
@@ -457,18 +921,66 @@ export default function Page() {
                   value={sortMode}
                   onChange={(event) => setSortMode(event.target.value as DomainSortMode)}
                 >
-                  {DOMAIN_SORT_OPTIONS.map((mode) => (
+                  {DOMAIN_SORT_MODES.map((mode) => (
                     <option key={mode} value={mode}>
                       {mode}
                     </option>
                   ))}
                 </select>
               </label>
+              <label>
+                Max Trademark Risk
+                <select
+                  value={maxTrademarkRisk}
+                  onChange={(event) => setMaxTrademarkRisk(event.target.value as TrademarkRiskLevel)}
+                >
+                  {TRADEMARK_RISK_VALUES.map((level) => (
+                    <option key={level} value={level}>
+                      {level}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <p>
+                Export ({sortMode}):{" "}
+                {EXPORT_FORMAT_VALUES.map((format, index) => (
+                  <span key={format}>
+                    {index > 0 ? " | " : ""}
+                    <a
+                      href={`/api/searches/${job.id}/export?format=${format}&sort=${sortMode}&trademarkRisk=${allowedTrademarkRisks.join(",")}`}
+                    >
+                      {format.toUpperCase()}
+                    </a>
+                  </span>
+                ))}
+              </p>
               <RankedTable rows={allRankedRows} />
 
+              {job.results.labelGroups && job.results.labelGroups.length > 0 && (
+                <>
+                  <h3>Extensions by Name ({job.results.labelGroups.length})</h3>
+                  <LabelGroupTable groups={job.results.labelGroups} />
+                </>
+              )}
+
               <h3>Within Budget ({job.results.withinBudget.length})</h3>
+              {job.results.verification && (
+                <p>
+                  FULL check of top {job.results.verification.requested}: {job.results.verification.confirmed} confirmed,
+                  {" "}
+                  {job.results.verification.demoted} demoted
+                  {job.results.verification.error ? ` (verification failed: ${job.results.verification.error})` : ""}
+                </p>
+              )}
               <BudgetTable rows={job.results.withinBudget} />
 
+              {job.results.overBudget.length + job.results.unavailable.length > 0 && (
+                <>
+                  <h3>Demoted After Confirmation ({job.results.overBudget.length + job.results.unavailable.length})</h3>
+                  <BudgetTable rows={[...job.results.overBudget, ...job.results.unavailable]} />
+                </>
+              )}
+
               <h3>Loop Summaries ({job.results.loopSummaries.length})</h3>
               <div className="table-wrap">
                 <table>
@@ -510,7 +1022,14 @@ export default function Page() {
                         <td>{summary.withinBudgetCount}</td>
                         <td>{summary.averageOverallScore.toFixed(1)}</td>
                         <td>{summary.topDomain ?? "-"}</td>
-                        <td>{summary.skipReason ?? "-"}</td>
+                        <td>
+                          {[
+                            summary.skipReason,
+                            summary.failedSources?.length ? `Sources failed: ${summary.failedSources.join(", ")}` : undefined,
+                          ]
+                            .filter(Boolean)
+                            .join(" ") || "-"}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -519,7 +1038,7 @@ export default function Page() {
             </>
           )}
 
-          {isPollingComplete && !job.results && !job.error && <p>No data returned.</p>}
+          {isSettled && !job.results && !job.error && <p>No data returned.</p>}
         </section>
       )}
     </main>
@@ -0,0 +1,8 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.JOB_AUTO_RESUME !== "true") {
+    return;
+  }
+
+  const { resumeInterruptedJobs } = await import("@/lib/search/runner");
+  resumeInterruptedJobs();
+}
@@ -0,0 +1,95 @@
+import type { AvailabilityQuorum, DomainAvailability, ProviderVerdict } from "@/lib/types";
+
+function describeVerdict(verdict: ProviderVerdict): string {
+  if (verdict.error) {
+    return `${verdict.provider}=error`;
+  }
+
+  const status = verdict.available ? "available" : "taken";
+  return `${verdict.provider}=${status}${verdict.definitive ? "" : "?"}`;
+}
+
+/**
+ * Price, currency and period all come from the same verdict, since a price is only meaningful for its period.
+ * Only an available decision is priced, and only by a verdict that agrees with it.
+ */
+function pickPricing(
+  verdicts: ProviderVerdict[],
+  available: boolean,
+): Pick<DomainAvailability, "priceMicros" | "currency" | "period"> {
+  const priced = available
+    ? verdicts.find((verdict) => verdict.available && typeof verdict.priceMicros === "number")
+    : undefined;
+  return {
+    priceMicros: priced?.priceMicros,
+    currency: priced?.currency,
+    period: priced?.period,
+  };
+}
+
+function resolveFirstDefinitive(verdicts: ProviderVerdict[]): { available: boolean; definitive: boolean } {
+  const decisive = verdicts.find((verdict) => verdict.definitive) ?? verdicts[0];
+  return {
+    available: Boolean(decisive?.available),
+    definitive: Boolean(decisive?.definitive),
+  };
+}
+
+function resolveAllAgree(verdicts: ProviderVerdict[], conflict: boolean): { available: boolean; definitive: boolean } {
+  return {
+    available: verdicts.every((verdict) => verdict.available),
+    definitive: !conflict && verdicts.every((verdict) => verdict.definitive),
+  };
+}
+
+function resolveMajority(verdicts: ProviderVerdict[]): { available: boolean; definitive: boolean } {
+  const availableVotes = verdicts.filter((verdict) => verdict.available);
+  const takenVotes = verdicts.filter((verdict) => !verdict.available);
+  const available = availableVotes.length > takenVotes.length;
+  const winners = available ? availableVotes : takenVotes;
+
+  return {
+    available,
+    definitive: winners.length * 2 > verdicts.length && winners.every((verdict) => verdict.definitive),
+  };
+}
+
+export function resolveAvailabilityConsensus(
+  domain: string,
+  verdicts: ProviderVerdict[],
+  quorum: AvailabilityQuorum,
+): DomainAvailability {
+  const voting = verdicts.filter((verdict) => !verdict.error);
+
+  if (voting.length === 0) {
+    return {
+      domain,
+      available: false,
+      definitive: false,
+      reason: verdicts.map((verdict) => `${verdict.provider}: ${verdict.error}`).join(" | ") || "No provider verdicts.",
+      verdicts,
+      conflict: false,
+    };
+  }
+
+  const conflict = new Set(voting.map((verdict) => verdict.available)).size > 1;
+  const decision =
+    quorum === "all-agree"
+      ? resolveAllAgree(voting, conflict)
+      : quorum === "majority"
+        ? resolveMajority(voting)
+        : resolveFirstDefinitive(voting);
+  const reasons = voting.map((verdict) => verdict.reason).filter(Boolean);
+
+  return {
+    domain,
+    available: decision.available,
+    definitive: decision.definitive,
+    ...pickPricing(voting, decision.available),
+    reason: conflict
+      ? `Providers disagree (${verdicts.map(describeVerdict).join(", ")}); resolved by ${quorum}.`
+      : reasons[0],
+    verdicts,
+    conflict,
+  };
+}
@@ -0,0 +1,9 @@
+import type { AvailabilityProvider } from "@/lib/availability/provider";
+import { checkAvailabilityBulk } from "@/lib/godaddy/client";
+
+export const goDaddyAvailabilityProvider: AvailabilityProvider = {
+  id: "godaddy",
+  label: "GoDaddy Domains API",
+  supportsPricing: true,
+  checkAvailability: (domains, options) => checkAvailabilityBulk(domains, options?.checkType ?? "FAST", options?.signal),
+};
@@ -0,0 +1,201 @@
+import { resolveAvailabilityConsensus } from "@/lib/availability/consensus";
+import { goDaddyAvailabilityProvider } from "@/lib/availability/godaddy";
+import { rdapAvailabilityProvider } from "@/lib/availability/rdap";
+import {
+  AVAILABILITY_PROVIDER_VALUES,
+  AVAILABILITY_QUORUM_VALUES,
+  type AvailabilityCheckType,
+  type AvailabilityProviderId,
+  type AvailabilityQuorum,
+  type DomainAvailability,
+  type ProviderVerdict,
+  type SearchRequest,
+} from "@/lib/types";
+
+type AvailabilitySelection = Pick<SearchRequest, "availabilityProviders" | "availabilityQuorum">;
+
+export interface AvailabilityCheckOptions {
+  checkType?: AvailabilityCheckType;
+  signal?: AbortSignal;
+}
+
+export interface AvailabilityProvider {
+  id: AvailabilityProviderId;
+  label: string;
+  supportsPricing: boolean;
+  checkAvailability(domains: string[], options?: AvailabilityCheckOptions): Promise<Map<string, DomainAvailability>>;
+}
+
+export class AvailabilityProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AvailabilityProviderError";
+  }
+}
+
+const DEFAULT_AVAILABILITY_PROVIDERS: AvailabilityProviderId[] = ["godaddy"];
+const DEFAULT_AVAILABILITY_QUORUM: AvailabilityQuorum = "first-definitive";
+
+const registry = new Map<AvailabilityProviderId, AvailabilityProvider>();
+
+export function registerAvailabilityProvider(provider: AvailabilityProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function getAvailabilityProvider(id: AvailabilityProviderId): AvailabilityProvider | undefined {
+  return registry.get(id);
+}
+
+function isAvailabilityProviderId(value: string): value is AvailabilityProviderId {
+  return (AVAILABILITY_PROVIDER_VALUES as readonly string[]).includes(value);
+}
+
+export function parseAvailabilityProvidersEnv(value: string | undefined): AvailabilityProviderId[] {
+  if (!value) {
+    return [];
+  }
+
+  const ids: AvailabilityProviderId[] = [];
+
+  for (const entry of value.split(",")) {
+    const id = entry.trim().toLowerCase();
+    if (!id) {
+      continue;
+    }
+
+    if (!isAvailabilityProviderId(id)) {
+      throw new AvailabilityProviderError(`Unknown availability provider "${id}" in AVAILABILITY_PROVIDERS.`);
+    }
+
+    if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+
+  return ids;
+}
+
+export function resolveAvailabilityQuorum(input?: AvailabilitySelection): AvailabilityQuorum {
+  if (input?.availabilityQuorum) {
+    return input.availabilityQuorum;
+  }
+
+  const fromEnv = process.env.AVAILABILITY_QUORUM?.trim().toLowerCase();
+  if (!fromEnv) {
+    return DEFAULT_AVAILABILITY_QUORUM;
+  }
+
+  if (!(AVAILABILITY_QUORUM_VALUES as readonly string[]).includes(fromEnv)) {
+    throw new AvailabilityProviderError(`Unknown availability quorum "${fromEnv}" in AVAILABILITY_QUORUM.`);
+  }
+
+  return fromEnv as AvailabilityQuorum;
+}
+
+export function resolveAvailabilityProviders(input?: AvailabilitySelection): AvailabilityProvider[] {
+  const requested =
+    input?.availabilityProviders && input.availabilityProviders.length > 0
+      ? input.availabilityProviders
+      : parseAvailabilityProvidersEnv(process.env.AVAILABILITY_PROVIDERS);
+  const ids = requested.length > 0 ? requested : DEFAULT_AVAILABILITY_PROVIDERS;
+
+  return ids.map((id) => {
+    const provider = registry.get(id);
+    if (!provider) {
+      throw new AvailabilityProviderError(`Availability provider "${id}" is not registered.`);
+    }
+
+    return provider;
+  });
+}
+
+function toVerdict(provider: AvailabilityProvider, availability: DomainAvailability | undefined): ProviderVerdict {
+  if (!availability) {
+    return {
+      provider: provider.id,
+      available: false,
+      definitive: false,
+      reason: "No availability response returned for this domain.",
+    };
+  }
+
+  return {
+    provider: provider.id,
+    available: availability.available,
+    definitive: availability.definitive,
+    priceMicros: availability.priceMicros,
+    currency: availability.currency,
+    period: availability.period,
+    reason: availability.reason,
+  };
+}
+
+export async function checkDomainAvailability(
+  domains: string[],
+  input?: AvailabilitySelection,
+  options: AvailabilityCheckOptions = {},
+): Promise<Map<string, DomainAvailability>> {
+  const checkType = options.checkType ?? "FAST";
+  const { signal } = options;
+  const providers = resolveAvailabilityProviders(input);
+  const [primary] = providers;
+  if (!primary) {
+    throw new AvailabilityProviderError("No availability provider is configured.");
+  }
+
+  if (providers.length === 1) {
+    const results = await primary.checkAvailability(domains, { checkType, signal });
+    for (const [domain, availability] of results) {
+      results.set(domain, {
+        ...availability,
+        checkType,
+        verdicts: [toVerdict(primary, availability)],
+        conflict: false,
+      });
+    }
+
+    return results;
+  }
+
+  const quorum = resolveAvailabilityQuorum(input);
+  const settled = await Promise.allSettled(
+    providers.map((provider) => provider.checkAvailability(domains, { checkType, signal })),
+  );
+  signal?.throwIfAborted();
+
+  const firstFailure = settled.find((outcome) => outcome.status === "rejected");
+
+  if (firstFailure && settled.every((outcome) => outcome.status === "rejected")) {
+    throw firstFailure.reason;
+  }
+
+  const normalized = Array.from(new Set(domains.map((domain) => domain.trim().toLowerCase()).filter(Boolean)));
+  const resultMap = new Map<string, DomainAvailability>();
+
+  for (const domain of normalized) {
+    const verdicts = settled.map((outcome, index): ProviderVerdict => {
+      const provider = providers[index] as AvailabilityProvider;
+
+      if (outcome.status === "rejected") {
+        return {
+          provider: provider.id,
+          available: false,
+          definitive: false,
+          error: outcome.reason instanceof Error ? outcome.reason.message : "Provider check failed.",
+        };
+      }
+
+      return toVerdict(provider, outcome.value.get(domain));
+    });
+
+    resultMap.set(domain, {
+      ...resolveAvailabilityConsensus(domain, verdicts, quorum),
+      checkType,
+    });
+  }
+
+  return resultMap;
+}
+
+registerAvailabilityProvider(goDaddyAvailabilityProvider);
+registerAvailabilityProvider(rdapAvailabilityProvider);
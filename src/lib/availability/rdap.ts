@@ -0,0 +1,219 @@
+import { readFile } from "node:fs/promises";
+
+import type { AvailabilityProvider } from "@/lib/availability/provider";
+import { parseRetryAfterMs, runRdapQueued, sleep } from "@/lib/rate-limit";
+import type { DomainAvailability } from "@/lib/types";
+
+export class RdapBootstrapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RdapBootstrapError";
+  }
+}
+
+export class RdapRateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RdapRateLimitError";
+  }
+}
+
+export class RdapApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RdapApiError";
+  }
+}
+
+export interface RdapConfig {
+  bootstrapFile?: string;
+  bootstrapUrl: string;
+}
+
+const DEFAULT_BOOTSTRAP_URL = "https://data.iana.org/rdap/dns.json";
+const MAX_RETRIES = 3;
+
+export function resolveRdapConfig(): RdapConfig {
+  return {
+    bootstrapFile: process.env.RDAP_BOOTSTRAP_FILE || undefined,
+    bootstrapUrl: process.env.RDAP_BOOTSTRAP_URL || DEFAULT_BOOTSTRAP_URL,
+  };
+}
+
+export function parseRdapBootstrap(source: unknown): Map<string, string> {
+  const services =
+    source && typeof source === "object" ? (source as { services?: unknown }).services : undefined;
+
+  if (!Array.isArray(services)) {
+    throw new RdapBootstrapError("RDAP bootstrap file is missing a services array.");
+  }
+
+  const serversByTld = new Map<string, string>();
+
+  for (const service of services) {
+    if (!Array.isArray(service) || !Array.isArray(service[0]) || !Array.isArray(service[1])) {
+      continue;
+    }
+
+    const urls = (service[1] as unknown[]).filter((url): url is string => typeof url === "string");
+    const baseUrl = urls.find((url) => url.startsWith("https://")) ?? urls[0];
+    if (!baseUrl) {
+      continue;
+    }
+
+    for (const tld of service[0] as unknown[]) {
+      if (typeof tld === "string" && tld.trim()) {
+        serversByTld.set(tld.trim().toLowerCase(), baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+      }
+    }
+  }
+
+  if (serversByTld.size === 0) {
+    throw new RdapBootstrapError("RDAP bootstrap file does not list any registry servers.");
+  }
+
+  return serversByTld;
+}
+
+async function loadBootstrapSource(config: RdapConfig): Promise<unknown> {
+  if (config.bootstrapFile) {
+    try {
+      return JSON.parse(await readFile(config.bootstrapFile, "utf8")) as unknown;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      throw new RdapBootstrapError(`Unable to read RDAP bootstrap file ${config.bootstrapFile}: ${message}`);
+    }
+  }
+
+  const response = await fetch(config.bootstrapUrl, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  }).catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new RdapBootstrapError(`Unable to download RDAP bootstrap from ${config.bootstrapUrl}: ${message}`);
+  });
+
+  if (!response.ok) {
+    throw new RdapBootstrapError(`RDAP bootstrap download failed (${response.status}).`);
+  }
+
+  return (await response.json()) as unknown;
+}
+
+export function findRdapServer(serversByTld: Map<string, string>, domain: string): string | undefined {
+  const labels = domain.split(".");
+
+  for (let index = 1; index < labels.length; index += 1) {
+    const server = serversByTld.get(labels.slice(index).join("."));
+    if (server) {
+      return server;
+    }
+  }
+
+  return undefined;
+}
+
+async function lookupDomain(baseUrl: string, domain: string, signal?: AbortSignal): Promise<DomainAvailability> {
+  const endpoint = `${baseUrl}domain/${encodeURIComponent(domain)}`;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt += 1) {
+    const response = await fetch(endpoint, {
+      headers: { Accept: "application/rdap+json, application/json" },
+      cache: "no-store",
+      signal,
+    }).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : "unknown error";
+      throw new RdapApiError(`RDAP lookup for ${domain} failed: ${message}`);
+    });
+
+    if (response.status === 404) {
+      return {
+        domain,
+        available: true,
+        definitive: true,
+        reason: "No registration found in RDAP; pricing unavailable from this provider.",
+      };
+    }
+
+    if (response.ok) {
+      return {
+        domain,
+        available: false,
+        definitive: true,
+        reason: "Registered according to RDAP.",
+      };
+    }
+
+    if (response.status === 429) {
+      if (attempt >= MAX_RETRIES) {
+        throw new RdapRateLimitError(`RDAP rate limit reached for ${baseUrl} and retry attempts were exhausted.`);
+      }
+
+      const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
+      await sleep(retryAfterMs ?? (2 ** attempt) * 1000 + Math.floor(Math.random() * 500), signal);
+      continue;
+    }
+
+    if (response.status === 400 || response.status === 422) {
+      return {
+        domain,
+        available: false,
+        definitive: false,
+        reason: `RDAP server rejected the domain query (${response.status}).`,
+      };
+    }
+
+    throw new RdapApiError(`RDAP lookup for ${domain} failed (${response.status}).`);
+  }
+
+  throw new RdapRateLimitError("RDAP rate limit retries were exhausted.");
+}
+
+export function createRdapAvailabilityProvider(config: RdapConfig = resolveRdapConfig()): AvailabilityProvider {
+  let bootstrapPromise: Promise<Map<string, string>> | null = null;
+
+  const getBootstrap = () => {
+    if (!bootstrapPromise) {
+      bootstrapPromise = loadBootstrapSource(config)
+        .then(parseRdapBootstrap)
+        .catch((error: unknown) => {
+          bootstrapPromise = null;
+          throw error;
+        });
+    }
+
+    return bootstrapPromise;
+  };
+
+  return {
+    id: "rdap",
+    label: "RDAP registry lookup",
+    supportsPricing: false,
+    async checkAvailability(domains, options) {
+      const normalized = Array.from(new Set(domains.map((domain) => domain.trim().toLowerCase()).filter(Boolean)));
+      const serversByTld = await getBootstrap();
+      const resultMap = new Map<string, DomainAvailability>();
+
+      await Promise.all(
+        normalized.map(async (domain) => {
+          const server = findRdapServer(serversByTld, domain);
+          if (!server) {
+            resultMap.set(domain, {
+              domain,
+              available: false,
+              definitive: false,
+              reason: "No RDAP server is listed for this TLD in the bootstrap file.",
+            });
+            return;
+          }
+
+          resultMap.set(domain, await runRdapQueued(() => lookupDomain(server, domain, options?.signal), options?.signal));
+        }),
+      );
+
+      return resultMap;
+    },
+  };
+}
+
+export const rdapAvailabilityProvider = createRdapAvailabilityProvider();
@@ -0,0 +1,40 @@
+import tldList from "@/lib/domain/tld-list.json";
+
+const MIN_HACK_PREFIX_LENGTH = 2;
+const MAX_HACKS_PER_LABEL = 2;
+
+export interface DomainHack {
+  domain: string;
+  prefix: string;
+  tld: string;
+}
+
+const knownTlds = new Set<string>(tldList.tlds);
+const longestTld = tldList.tlds.reduce((longest, tld) => Math.max(longest, tld.length), 0);
+
+export function isKnownTld(tld: string): boolean {
+  return knownTlds.has(tld);
+}
+
+/** Splits a label whose ending spells a real TLD, e.g. `brandly` into `brand.ly`; longest suffixes first. */
+export function findDomainHacks(label: string): DomainHack[] {
+  const hacks: DomainHack[] = [];
+  const maxSuffix = Math.min(longestTld, label.length - MIN_HACK_PREFIX_LENGTH);
+
+  for (let length = maxSuffix; length >= 2 && hacks.length < MAX_HACKS_PER_LABEL; length -= 1) {
+    const prefix = label.slice(0, -length);
+    const tld = label.slice(-length);
+
+    if (prefix.endsWith("-") || !knownTlds.has(tld)) {
+      continue;
+    }
+
+    hacks.push({
+      domain: `${prefix}.${tld}`,
+      prefix,
+      tld,
+    });
+  }
+
+  return hacks;
+}
@@ -0,0 +1,78 @@
+// Cyrillic and Greek letters that render like Latin ones; a label made only of these can spoof a Latin name.
+const LATIN_LOOKALIKES = new Map(
+  Object.entries({
+    а: "a", е: "e", і: "i", ј: "j", о: "o", р: "p", с: "c", у: "y", х: "x", ѕ: "s", ԁ: "d", ԛ: "q",
+    ԝ: "w", ӏ: "l", α: "a", ι: "i", κ: "k", ν: "v", ο: "o", ρ: "p", τ: "t", υ: "u", χ: "x",
+  }),
+);
+
+const SCRIPT_PATTERNS: Array<[string, RegExp]> = [
+  ["Latin", /\p{Script=Latin}/u],
+  ["Cyrillic", /\p{Script=Cyrillic}/u],
+  ["Greek", /\p{Script=Greek}/u],
+  ["Armenian", /\p{Script=Armenian}/u],
+  ["Hebrew", /\p{Script=Hebrew}/u],
+  ["Arabic", /\p{Script=Arabic}/u],
+  ["Han", /\p{Script=Han}/u],
+  ["Hiragana", /\p{Script=Hiragana}/u],
+  ["Katakana", /\p{Script=Katakana}/u],
+  ["Hangul", /\p{Script=Hangul}/u],
+  ["Thai", /\p{Script=Thai}/u],
+  ["Devanagari", /\p{Script=Devanagari}/u],
+];
+
+// Scripts that are routinely mixed within one label and are not a spoofing signal on their own.
+const COMPATIBLE_SCRIPT_SETS = [new Set(["Han", "Hiragana", "Katakana"]), new Set(["Han", "Hangul"])];
+
+export interface HomographAssessment {
+  risky: boolean;
+  scripts: string[];
+  reason?: string;
+}
+
+export function detectLabelScripts(label: string): string[] {
+  const scripts = new Set<string>();
+
+  for (const character of label) {
+    const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(character));
+    if (match) {
+      scripts.add(match[0]);
+    } else if (/\p{L}/u.test(character)) {
+      scripts.add("Other");
+    }
+  }
+
+  return Array.from(scripts);
+}
+
+/** Replaces Cyrillic and Greek look-alikes with the Latin letters they imitate, so "pаypal" becomes "paypal". */
+export function toLatinSkeleton(label: string): string {
+  return Array.from(label, (character) => LATIN_LOOKALIKES.get(character) ?? character).join("");
+}
+
+export function assessHomographRisk(label: string): HomographAssessment {
+  const scripts = detectLabelScripts(label);
+
+  if (scripts.length > 1 && !COMPATIBLE_SCRIPT_SETS.some((set) => scripts.every((script) => set.has(script)))) {
+    return {
+      risky: true,
+      scripts,
+      reason: `Label mixes ${scripts.join(" and ")} characters, a common homograph spoofing pattern.`,
+    };
+  }
+
+  const letters = Array.from(label).filter((character) => /\p{L}/u.test(character));
+  if (
+    scripts.length === 1 &&
+    (scripts[0] === "Cyrillic" || scripts[0] === "Greek") &&
+    letters.every((character) => LATIN_LOOKALIKES.has(character))
+  ) {
+    return {
+      risky: true,
+      scripts,
+      reason: `Label is written entirely in ${scripts[0]} letters that look like Latin ones.`,
+    };
+  }
+
+  return { risky: false, scripts };
+}
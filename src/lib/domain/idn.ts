@@ -0,0 +1,57 @@
+import { domainToASCII, domainToUnicode } from "node:url";
+
+const MAX_LABEL_OCTETS = 63;
+const NON_LABEL_CHARS_REGEX = /[^\p{L}\p{M}\p{N}]+/gu;
+const EDGE_DASH_REGEX = /^-+|-+$/g;
+
+export interface IdnLabel {
+  ascii: string;
+  unicode: string;
+}
+
+/** Returns the Unicode form of a domain that contains xn-- labels, otherwise undefined. */
+export function toUnicodeDomain(domain: string): string | undefined {
+  const unicode = domainToUnicode(domain);
+  return unicode && unicode !== domain ? unicode : undefined;
+}
+
+/**
+ * Validates a Unicode label with UTS-46 processing (non-transitional, as IDNA2008 registries expect)
+ * and returns both forms, or null when the label is not registrable.
+ */
+export function toIdnLabel(label: string): IdnLabel | null {
+  if (!label || label.includes(".")) {
+    return null;
+  }
+
+  const ascii = domainToASCII(label);
+  if (!ascii || ascii.length > MAX_LABEL_OCTETS || !/^[a-z0-9-]+$/.test(ascii)) {
+    return null;
+  }
+
+  const unicode = domainToUnicode(ascii);
+  if (!unicode || domainToASCII(unicode) !== ascii) {
+    return null;
+  }
+
+  // UTS-46 CheckHyphens applies to the Unicode form; punycode would hide a leading hyphen.
+  if (unicode.startsWith("-") || unicode.endsWith("-") || unicode.slice(2, 4) === "--") {
+    return null;
+  }
+
+  return { ascii, unicode };
+}
+
+export function normalizeBusinessNameToIdnLabel(input: string): IdnLabel | null {
+  const normalized = input
+    .trim()
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(NON_LABEL_CHARS_REGEX, "-")
+    .replace(/-+/g, "-")
+    .replace(EDGE_DASH_REGEX, "");
+
+  return toIdnLabel(normalized);
+}
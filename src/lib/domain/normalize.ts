@@ -1,11 +1,20 @@
+import { domainToASCII, domainToUnicode } from "node:url";
+
 const COMBINING_MARKS_REGEX = /[\u0300-\u036f]/g;
 const NON_ALNUM_REGEX = /[^a-z0-9]+/g;
 const EDGE_DASH_REGEX = /^-+|-+$/g;
 
 export function normalizeTld(input: string): string | null {
-  const tld = input.trim().toLowerCase().replace(/^\./, "");
+  const raw = input.trim().toLowerCase().replace(/^\./, "");
+
+  if (!raw) {
+    return null;
+  }
+
+  // Unicode TLDs are stored in their xn-- form; xn-- input must decode to a valid IDN.
+  const tld = /^[\x00-\x7f]*$/.test(raw) ? raw : domainToASCII(raw);
 
-  if (!tld) {
+  if (tld.startsWith("xn--") && !domainToUnicode(tld)) {
     return null;
   }
 
@@ -0,0 +1,89 @@
+import type { RankedDomainResult, ValueDriver } from "@/lib/types";
+
+export const EXPORT_FORMAT_VALUES = ["csv", "jsonl", "xlsx"] as const;
+
+export const EXPORT_COLUMN_VALUES = [
+  "domain",
+  "unicodeDomain",
+  "sourceName",
+  "nameSource",
+  "price",
+  "currency",
+  "overallScore",
+  "marketabilityScore",
+  "financialValueScore",
+  "syllableCount",
+  "labelLength",
+  "labelSegments",
+  "timesDiscovered",
+  "firstSeenLoop",
+  "lastSeenLoop",
+  "definitive",
+  "conflict",
+  "checkType",
+  "isNamelixPremium",
+  "valueDrivers",
+  "valueDetractors",
+  "trademarkRisk",
+  "brandCollisionScore",
+  "nearestBrand",
+  "reason",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMAT_VALUES)[number];
+export type ExportColumn = (typeof EXPORT_COLUMN_VALUES)[number];
+export type ExportCell = string | number | boolean | null;
+
+interface ExportColumnDefinition {
+  header: string;
+  value: (row: RankedDomainResult) => ExportCell;
+}
+
+function flattenDrivers(drivers: ValueDriver[]): string {
+  return drivers
+    .map((driver) => {
+      const impact = `${driver.impact >= 0 ? "+" : ""}${driver.impact.toFixed(1)}`;
+      return driver.detail ? `${driver.component} (${impact}): ${driver.detail}` : `${driver.component} (${impact})`;
+    })
+    .join("; ");
+}
+
+const COLUMN_DEFINITIONS: Record<ExportColumn, ExportColumnDefinition> = {
+  domain: { header: "Domain", value: (row) => row.domain },
+  unicodeDomain: { header: "Unicode Domain", value: (row) => row.unicodeDomain ?? null },
+  sourceName: { header: "Source Name", value: (row) => row.sourceName },
+  nameSource: { header: "Name Source", value: (row) => row.nameSource ?? null },
+  price: { header: "Price", value: (row) => row.price ?? null },
+  currency: { header: "Currency", value: (row) => row.currency ?? null },
+  overallScore: { header: "Overall Score", value: (row) => row.overallScore },
+  marketabilityScore: { header: "Marketability Score", value: (row) => row.marketabilityScore },
+  financialValueScore: { header: "Financial Value Score", value: (row) => row.financialValueScore },
+  syllableCount: { header: "Syllables", value: (row) => row.syllableCount },
+  labelLength: { header: "Label Length", value: (row) => row.labelLength },
+  labelSegments: { header: "Segments", value: (row) => row.labelSegments?.join("|") ?? null },
+  timesDiscovered: { header: "Times Discovered", value: (row) => row.timesDiscovered },
+  firstSeenLoop: { header: "First Seen Loop", value: (row) => row.firstSeenLoop },
+  lastSeenLoop: { header: "Last Seen Loop", value: (row) => row.lastSeenLoop },
+  definitive: { header: "Definitive", value: (row) => row.definitive },
+  conflict: { header: "Provider Conflict", value: (row) => Boolean(row.conflict) },
+  checkType: { header: "Check Type", value: (row) => row.checkType ?? null },
+  isNamelixPremium: { header: "Namelix Premium", value: (row) => row.isNamelixPremium },
+  valueDrivers: { header: "Value Drivers", value: (row) => flattenDrivers(row.valueDrivers) },
+  valueDetractors: { header: "Value Detractors", value: (row) => flattenDrivers(row.valueDetractors) },
+  trademarkRisk: { header: "Trademark Risk", value: (row) => row.trademarkRisk ?? null },
+  brandCollisionScore: { header: "Brand Collision Score", value: (row) => row.brandCollisionScore ?? null },
+  nearestBrand: { header: "Nearest Brand", value: (row) => row.brandMatches?.[0]?.brand ?? null },
+  reason: { header: "Reason", value: (row) => row.reason ?? null },
+};
+
+export function getExportHeaders(columns: readonly ExportColumn[]): string[] {
+  return columns.map((column) => COLUMN_DEFINITIONS[column].header);
+}
+
+export function toExportCells(row: RankedDomainResult, columns: readonly ExportColumn[]): ExportCell[] {
+  return columns.map((column) => COLUMN_DEFINITIONS[column].value(row));
+}
+
+export function toExportRecord(row: RankedDomainResult, columns: readonly ExportColumn[]): Record<string, ExportCell> {
+  return Object.fromEntries(columns.map((column) => [column, COLUMN_DEFINITIONS[column].value(row)]));
+}
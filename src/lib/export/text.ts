@@ -0,0 +1,37 @@
+import {
+  getExportHeaders,
+  toExportCells,
+  toExportRecord,
+  type ExportCell,
+  type ExportColumn,
+} from "@/lib/export/columns";
+import type { RankedDomainResult } from "@/lib/types";
+
+function escapeCsvCell(cell: ExportCell): string {
+  if (cell === null) {
+    return "";
+  }
+
+  // Spreadsheets run text cells that start like a formula; the quote prefix keeps them as plain text.
+  const text = typeof cell === "string" && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(cells: ExportCell[]): string {
+  return `${cells.map(escapeCsvCell).join(",")}\r\n`;
+}
+
+export function* generateCsv(rows: RankedDomainResult[], columns: readonly ExportColumn[]): Generator<string> {
+  // The BOM makes Excel open the file as UTF-8 instead of the system code page.
+  yield `\uFEFF${toCsvLine(getExportHeaders(columns))}`;
+
+  for (const row of rows) {
+    yield toCsvLine(toExportCells(row, columns));
+  }
+}
+
+export function* generateJsonLines(rows: RankedDomainResult[], columns: readonly ExportColumn[]): Generator<string> {
+  for (const row of rows) {
+    yield `${JSON.stringify(toExportRecord(row, columns))}\n`;
+  }
+}
@@ -0,0 +1,91 @@
+import { getExportHeaders, toExportCells, type ExportCell, type ExportColumn } from "@/lib/export/columns";
+import { createZipArchive } from "@/lib/export/zip";
+import type { RankedDomainResult } from "@/lib/types";
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`;
+
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function columnName(index: number): string {
+  let name = "";
+  let remaining = index + 1;
+
+  while (remaining > 0) {
+    const digit = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + digit) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return name;
+}
+
+function toCellXml(cell: ExportCell, reference: string): string {
+  if (cell === null) {
+    return "";
+  }
+
+  if (typeof cell === "number") {
+    return Number.isFinite(cell) ? `<c r="${reference}"><v>${cell}</v></c>` : "";
+  }
+
+  if (typeof cell === "boolean") {
+    return `<c r="${reference}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+  }
+
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+function toRowXml(cells: ExportCell[], rowNumber: number): string {
+  const xml = cells.map((cell, index) => toCellXml(cell, `${columnName(index)}${rowNumber}`)).join("");
+  return `<row r="${rowNumber}">${xml}</row>`;
+}
+
+export function buildXlsxWorkbook(
+  rows: RankedDomainResult[],
+  columns: readonly ExportColumn[],
+  sheetName = "Domains",
+): Buffer {
+  const sheetRows = [
+    toRowXml(getExportHeaders(columns), 1),
+    ...rows.map((row, index) => toRowXml(toExportCells(row, columns), index + 2)),
+  ];
+
+  const sheetXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${sheetRows.join("")}</sheetData></worksheet>`;
+
+  const workbookXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  return createZipArchive([
+    { name: "[Content_Types].xml", data: Buffer.from(CONTENT_TYPES_XML, "utf8") },
+    { name: "_rels/.rels", data: Buffer.from(ROOT_RELS_XML, "utf8") },
+    { name: "xl/workbook.xml", data: Buffer.from(workbookXml, "utf8") },
+    { name: "xl/_rels/workbook.xml.rels", data: Buffer.from(WORKBOOK_RELS_XML, "utf8") },
+    { name: "xl/worksheets/sheet1.xml", data: Buffer.from(sheetXml, "utf8") },
+  ]);
+}
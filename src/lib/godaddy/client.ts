@@ -1,4 +1,5 @@
-import { runGoDaddyQueued, sleep } from "@/lib/rate-limit";
+import { parseRetryAfterMs, runGoDaddyQueued, sleep } from "@/lib/rate-limit";
+import type { AvailabilityCheckType, DomainAvailability } from "@/lib/types";
 
 export class GoDaddyAuthError extends Error {
   constructor(message: string) {
@@ -42,15 +43,7 @@ interface GoDaddyBulkResponse {
   errors?: GoDaddyDomainError[];
 }
 
-export interface GoDaddyAvailability {
-  domain: string;
-  available: boolean;
-  definitive: boolean;
-  priceMicros?: number;
-  currency?: string;
-  period?: number;
-  reason?: string;
-}
+export type GoDaddyAvailability = DomainAvailability;
 
 const CHUNK_SIZE = 100;
 const MAX_RETRIES = 4;
@@ -70,25 +63,11 @@ function resolveBaseUrl(): string {
   return mode === "PROD" ? "https://api.godaddy.com" : "https://api.ote-godaddy.com";
 }
 
-function parseRetryAfterMs(value: string | null): number | null {
-  if (!value) {
-    return null;
-  }
-
-  const parsedSeconds = Number(value);
-  if (Number.isFinite(parsedSeconds) && parsedSeconds >= 0) {
-    return parsedSeconds * 1000;
-  }
-
-  const dateValue = Date.parse(value);
-  if (Number.isFinite(dateValue)) {
-    return Math.max(0, dateValue - Date.now());
-  }
-
-  return null;
-}
-
-async function requestAvailabilityChunk(domains: string[]): Promise<GoDaddyBulkResponse> {
+async function requestAvailabilityChunk(
+  domains: string[],
+  checkType: AvailabilityCheckType,
+  signal?: AbortSignal,
+): Promise<GoDaddyBulkResponse> {
   const apiKey = process.env.GODADDY_API_KEY;
   const apiSecret = process.env.GODADDY_API_SECRET;
 
@@ -96,7 +75,7 @@ async function requestAvailabilityChunk(domains: string[]): Promise<GoDaddyBulkR
     throw new GoDaddyAuthError("Missing GoDaddy API credentials. Set GODADDY_API_KEY and GODADDY_API_SECRET.");
   }
 
-  const endpoint = `${resolveBaseUrl()}/v1/domains/available?checkType=FAST`;
+  const endpoint = `${resolveBaseUrl()}/v1/domains/available?checkType=${checkType}`;
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt += 1) {
     const response = await fetch(endpoint, {
@@ -108,6 +87,7 @@ async function requestAvailabilityChunk(domains: string[]): Promise<GoDaddyBulkR
       },
       body: JSON.stringify(domains),
       cache: "no-store",
+      signal,
     });
 
     if (response.status === 429) {
@@ -118,7 +98,7 @@ async function requestAvailabilityChunk(domains: string[]): Promise<GoDaddyBulkR
       const retryAfterHeader = response.headers.get("retry-after");
       const retryAfterMs = parseRetryAfterMs(retryAfterHeader);
       const fallbackBackoffMs = (2 ** attempt) * 1000 + Math.floor(Math.random() * 500);
-      await sleep(retryAfterMs ?? fallbackBackoffMs);
+      await sleep(retryAfterMs ?? fallbackBackoffMs, signal);
       continue;
     }
 
@@ -139,7 +119,11 @@ async function requestAvailabilityChunk(domains: string[]): Promise<GoDaddyBulkR
   throw new GoDaddyRateLimitError("GoDaddy rate limit retries were exhausted.");
 }
 
-export async function checkAvailabilityBulk(domains: string[]): Promise<Map<string, GoDaddyAvailability>> {
+export async function checkAvailabilityBulk(
+  domains: string[],
+  checkType: AvailabilityCheckType = "FAST",
+  signal?: AbortSignal,
+): Promise<Map<string, GoDaddyAvailability>> {
   const normalized = Array.from(new Set(domains.map((domain) => domain.trim().toLowerCase()).filter(Boolean)));
   const chunks = chunkDomains(normalized, CHUNK_SIZE);
   const resultMap = new Map<string, GoDaddyAvailability>();
@@ -147,7 +131,7 @@ export async function checkAvailabilityBulk(domains: string[]): Promise<Map<stri
   await Promise.all(
     chunks.map((chunk) =>
       runGoDaddyQueued(async () => {
-        const payload = await requestAvailabilityChunk(chunk);
+        const payload = await requestAvailabilityChunk(chunk, checkType, signal);
 
         for (const domainInfo of payload.domains ?? []) {
           // #region agent log
@@ -177,6 +161,7 @@ export async function checkAvailabilityBulk(domains: string[]): Promise<Map<stri
             priceMicros: typeof domainInfo.price === "number" ? domainInfo.price : undefined,
             currency: domainInfo.currency,
             period: domainInfo.period,
+            checkType,
           });
         }
 
@@ -186,9 +171,10 @@ export async function checkAvailabilityBulk(domains: string[]): Promise<Map<stri
             available: false,
             definitive: false,
             reason: errorInfo.message ?? errorInfo.code,
+            checkType,
           });
         }
-      }),
+      }, signal),
     ),
   );
 
@@ -199,6 +185,7 @@ export async function checkAvailabilityBulk(domains: string[]): Promise<Map<stri
         available: false,
         definitive: false,
         reason: "No availability response returned for this domain.",
+        checkType,
       });
     }
   }
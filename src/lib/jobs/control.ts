@@ -0,0 +1,109 @@
+export class JobCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobCancelledError";
+  }
+}
+
+interface PauseGate {
+  promise: Promise<void>;
+  release: () => void;
+}
+
+interface JobControl {
+  controller: AbortController;
+  pauseGate?: PauseGate;
+}
+
+const controlsSymbol = Symbol.for("domainname-wizard.job-controls");
+
+type GlobalWithControls = typeof globalThis & {
+  [controlsSymbol]?: Map<string, JobControl>;
+};
+
+const globalControls = globalThis as GlobalWithControls;
+
+function getControls(): Map<string, JobControl> {
+  if (!globalControls[controlsSymbol]) {
+    globalControls[controlsSymbol] = new Map<string, JobControl>();
+  }
+
+  return globalControls[controlsSymbol];
+}
+
+function createPauseGate(): PauseGate {
+  let release: () => void = () => undefined;
+  const promise = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  return { promise, release };
+}
+
+export function registerJobControl(jobId: string): AbortSignal {
+  const control: JobControl = { controller: new AbortController() };
+  getControls().set(jobId, control);
+  return control.controller.signal;
+}
+
+export function releaseJobControl(jobId: string, signal: AbortSignal): void {
+  const controls = getControls();
+  const control = controls.get(jobId);
+
+  if (control && control.controller.signal === signal) {
+    control.pauseGate?.release();
+    controls.delete(jobId);
+  }
+}
+
+export function hasJobControl(jobId: string): boolean {
+  return getControls().has(jobId);
+}
+
+export function cancelJobControl(jobId: string): boolean {
+  const control = getControls().get(jobId);
+  if (!control) {
+    return false;
+  }
+
+  control.controller.abort(new JobCancelledError("Search job was cancelled."));
+  control.pauseGate?.release();
+  control.pauseGate = undefined;
+  return true;
+}
+
+export function pauseJobControl(jobId: string): boolean {
+  const control = getControls().get(jobId);
+  if (!control || control.controller.signal.aborted) {
+    return false;
+  }
+
+  control.pauseGate ??= createPauseGate();
+  return true;
+}
+
+export function resumeJobControl(jobId: string): boolean {
+  const control = getControls().get(jobId);
+  if (!control?.pauseGate) {
+    return false;
+  }
+
+  control.pauseGate.release();
+  control.pauseGate = undefined;
+  return true;
+}
+
+export async function waitWhileJobPaused(jobId: string): Promise<void> {
+  const control = getControls().get(jobId);
+  if (!control) {
+    return;
+  }
+
+  control.controller.signal.throwIfAborted();
+
+  while (control.pauseGate) {
+    await control.pauseGate.promise;
+  }
+
+  control.controller.signal.throwIfAborted();
+}
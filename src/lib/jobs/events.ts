@@ -0,0 +1,143 @@
+import type { JobEvent, JobEventDataMap, JobEventType } from "@/lib/types";
+
+type JobEventListener = (event: JobEvent) => void;
+
+interface JobEventLog {
+  nextId: number;
+  events: JobEvent[];
+  listeners: Set<JobEventListener>;
+  expiryTimer?: ReturnType<typeof setTimeout>;
+}
+
+const MAX_EVENTS_PER_JOB = 500;
+const SETTLED_LOG_RETENTION_MS = 10 * 60 * 1000;
+
+const logsSymbol = Symbol.for("domainname-wizard.job-events");
+
+type GlobalWithEventLogs = typeof globalThis & {
+  [logsSymbol]?: Map<string, JobEventLog>;
+};
+
+const globalLogs = globalThis as GlobalWithEventLogs;
+
+function getLogs(): Map<string, JobEventLog> {
+  if (!globalLogs[logsSymbol]) {
+    globalLogs[logsSymbol] = new Map<string, JobEventLog>();
+  }
+
+  return globalLogs[logsSymbol];
+}
+
+function getOrCreateLog(jobId: string): JobEventLog {
+  const logs = getLogs();
+  let log = logs.get(jobId);
+
+  if (!log) {
+    log = { nextId: 1, events: [], listeners: new Set() };
+    logs.set(jobId, log);
+  }
+
+  return log;
+}
+
+export function isTerminalJobEvent(event: JobEvent): boolean {
+  return (
+    event.type === "complete" ||
+    event.type === "failed" ||
+    (event.type === "phase" && event.data.status === "cancelled")
+  );
+}
+
+function scheduleLogExpiry(jobId: string, log: JobEventLog): void {
+  if (log.expiryTimer) {
+    clearTimeout(log.expiryTimer);
+  }
+
+  log.expiryTimer = setTimeout(() => {
+    if (getLogs().get(jobId) === log && log.listeners.size === 0) {
+      getLogs().delete(jobId);
+    }
+  }, SETTLED_LOG_RETENTION_MS);
+  log.expiryTimer.unref?.();
+}
+
+export function publishJobEvent<K extends JobEventType>(jobId: string, type: K, data: JobEventDataMap[K]): JobEvent {
+  const log = getOrCreateLog(jobId);
+  const event = { id: log.nextId, type, data } as JobEvent;
+
+  log.nextId += 1;
+  log.events.push(event);
+  if (log.events.length > MAX_EVENTS_PER_JOB) {
+    log.events.splice(0, log.events.length - MAX_EVENTS_PER_JOB);
+  }
+
+  if (isTerminalJobEvent(event)) {
+    scheduleLogExpiry(jobId, log);
+  } else if (log.expiryTimer) {
+    clearTimeout(log.expiryTimer);
+    log.expiryTimer = undefined;
+  }
+
+  for (const listener of Array.from(log.listeners)) {
+    listener(event);
+  }
+
+  return event;
+}
+
+export function subscribeJobEvents(jobId: string, listener: JobEventListener): () => void {
+  const log = getOrCreateLog(jobId);
+  log.listeners.add(listener);
+
+  return () => {
+    log.listeners.delete(listener);
+  };
+}
+
+/** Drops a job's event log together with the job; a stream still open on it simply receives nothing more. */
+export function clearJobEvents(jobId: string): void {
+  const log = getLogs().get(jobId);
+  if (!log) {
+    return;
+  }
+
+  if (log.expiryTimer) {
+    clearTimeout(log.expiryTimer);
+  }
+  getLogs().delete(jobId);
+}
+
+export function getLatestJobEventId(jobId: string): number {
+  return (getLogs().get(jobId)?.nextId ?? 1) - 1;
+}
+
+// Returns null when the requested position can no longer be replayed (trimmed log or server restart),
+// in which case the caller should fall back to a full snapshot.
+export function getJobEventsSince(jobId: string, lastEventId: number): JobEvent[] | null {
+  const log = getLogs().get(jobId);
+  const latestId = (log?.nextId ?? 1) - 1;
+
+  if (!log || lastEventId > latestId) {
+    return null;
+  }
+
+  const oldest = log.events[0];
+  if (oldest && lastEventId < oldest.id - 1) {
+    return null;
+  }
+
+  return log.events.filter((event) => event.id > lastEventId);
+}
+
+export function parseLastEventId(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export function formatSseEvent(event: JobEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
@@ -0,0 +1,179 @@
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { appendFile, mkdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { JobStorageBackend } from "@/lib/jobs/storage";
+import type { SearchJob, SearchResults } from "@/lib/types";
+
+type JournalEntry = { op: "set"; job: SearchJob } | { op: "delete"; id: string };
+
+const SNAPSHOT_FILE = "jobs.snapshot.json";
+const TEMP_SNAPSHOT_FILE = "jobs.snapshot.tmp.json";
+const JOURNAL_FILE = "jobs.journal.jsonl";
+const RESULTS_DIR = "results";
+const COMPACT_AFTER_BYTES = 8 * 1024 * 1024;
+
+function readSnapshot(snapshotPath: string): SearchJob[] {
+  if (!existsSync(snapshotPath)) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(snapshotPath, "utf8")) as unknown;
+    return Array.isArray(parsed) ? (parsed as SearchJob[]).filter((job) => job && typeof job.id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function replayJournal(journalPath: string, jobs: Map<string, SearchJob>): number {
+  if (!existsSync(journalPath)) {
+    return 0;
+  }
+
+  const raw = readFileSync(journalPath, "utf8");
+
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let entry: JournalEntry;
+    try {
+      entry = JSON.parse(line) as JournalEntry;
+    } catch {
+      // A crash mid-append can leave a truncated final line; everything before it is still valid.
+      continue;
+    }
+
+    if (entry.op === "set" && entry.job && typeof entry.job.id === "string") {
+      jobs.set(entry.job.id, entry.job);
+    } else if (entry.op === "delete" && typeof entry.id === "string") {
+      jobs.delete(entry.id);
+    }
+  }
+
+  return Buffer.byteLength(raw, "utf8");
+}
+
+function readResults(resultsPath: string): SearchResults | undefined {
+  try {
+    return JSON.parse(readFileSync(resultsPath, "utf8")) as SearchResults;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Results are large, so the journal and snapshot leave them out: a resumed job rebuilds them from its
+ * checkpoint, and a settled job's final results are kept in their own file.
+ */
+function withoutResults(job: SearchJob): SearchJob {
+  return { ...job, results: undefined };
+}
+
+function isSettled(job: SearchJob): boolean {
+  return job.status === "done" || job.status === "failed" || job.status === "cancelled";
+}
+
+/** Progress ticks are not journaled: only what a restart needs to report or resume the job. */
+function isDurableChange(previous: SearchJob | undefined, next: SearchJob): boolean {
+  return (
+    !previous ||
+    previous.status !== next.status ||
+    previous.checkpoint !== next.checkpoint ||
+    previous.error !== next.error ||
+    (isSettled(next) && previous.results !== next.results)
+  );
+}
+
+export function createFileJobStorage(directory: string): JobStorageBackend {
+  const snapshotPath = path.join(directory, SNAPSHOT_FILE);
+  const tempSnapshotPath = path.join(directory, TEMP_SNAPSHOT_FILE);
+  const journalPath = path.join(directory, JOURNAL_FILE);
+  const resultsDir = path.join(directory, RESULTS_DIR);
+  const resultsPath = (jobId: string) => path.join(resultsDir, `${jobId}.json`);
+  const jobs = new Map<string, SearchJob>();
+
+  mkdirSync(directory, { recursive: true });
+
+  for (const job of readSnapshot(snapshotPath)) {
+    jobs.set(job.id, job);
+  }
+
+  let journalBytes = replayJournal(journalPath, jobs);
+
+  for (const job of jobs.values()) {
+    if (isSettled(job)) {
+      jobs.set(job.id, { ...job, results: readResults(resultsPath(job.id)) });
+    }
+  }
+
+  // Writes run one at a time in call order, so the files always follow the in-memory state.
+  let writes: Promise<void> = Promise.resolve();
+  const enqueue = (write: () => Promise<void>) => {
+    writes = writes.then(write).catch(() => {
+      // A failed write only costs durability; the in-memory job stays current.
+    });
+  };
+
+  const compact = async () => {
+    await writeFile(tempSnapshotPath, JSON.stringify(Array.from(jobs.values(), withoutResults)), "utf8");
+    await rename(tempSnapshotPath, snapshotPath);
+    await writeFile(journalPath, "", "utf8");
+    journalBytes = 0;
+  };
+
+  const append = (entry: JournalEntry) => {
+    const line = `${JSON.stringify(entry)}\n`;
+    enqueue(async () => {
+      await appendFile(journalPath, line, "utf8");
+      journalBytes += Buffer.byteLength(line, "utf8");
+
+      if (journalBytes >= COMPACT_AFTER_BYTES) {
+        await compact();
+      }
+    });
+  };
+
+  const saveResults = (jobId: string, results: SearchResults) => {
+    const payload = JSON.stringify(results);
+    enqueue(async () => {
+      const filePath = resultsPath(jobId);
+      await mkdir(resultsDir, { recursive: true });
+      await writeFile(`${filePath}.tmp`, payload, "utf8");
+      await rename(`${filePath}.tmp`, filePath);
+    });
+  };
+
+  if (journalBytes > 0) {
+    enqueue(compact);
+  }
+
+  return {
+    kind: "file",
+    get: (jobId) => jobs.get(jobId),
+    set: (job) => {
+      const previous = jobs.get(job.id);
+      jobs.set(job.id, job);
+
+      if (!isDurableChange(previous, job)) {
+        return;
+      }
+
+      const resultsChanged = !previous || !isSettled(previous) || previous.results !== job.results;
+      if (isSettled(job) && job.results && resultsChanged) {
+        saveResults(job.id, job.results);
+      }
+      append({ op: "set", job: withoutResults(job) });
+    },
+    delete: (jobId) => {
+      if (jobs.delete(jobId)) {
+        append({ op: "delete", id: jobId });
+        enqueue(() => rm(resultsPath(jobId), { force: true }));
+      }
+    },
+    list: () => Array.from(jobs.values()),
+    flush: () => writes,
+  };
+}
@@ -0,0 +1,92 @@
+import type { SearchListQuery } from "@/lib/search/schema";
+import type { RankedDomainResult, SearchJob, SearchJobPage, SearchJobSummary } from "@/lib/types";
+
+export class JobCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobCursorError";
+  }
+}
+
+interface JobCursor {
+  createdAt: number;
+  id: string;
+}
+
+function encodeCursor(job: SearchJob): string {
+  return Buffer.from(JSON.stringify([job.createdAt, job.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): JobCursor {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as unknown[];
+    if (typeof createdAt === "number" && typeof id === "string") {
+      return { createdAt, id };
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+
+  throw new JobCursorError("Pagination cursor is malformed.");
+}
+
+function compareNewestFirst(a: Pick<SearchJob, "createdAt" | "id">, b: Pick<SearchJob, "createdAt" | "id">): number {
+  if (a.createdAt !== b.createdAt) {
+    return b.createdAt - a.createdAt;
+  }
+
+  return b.id.localeCompare(a.id);
+}
+
+function matchesKeyword(job: SearchJob, keyword: string): boolean {
+  const needle = keyword.toLowerCase();
+  return (
+    job.input.keywords.toLowerCase().includes(needle) ||
+    (job.input.description ?? "").toLowerCase().includes(needle)
+  );
+}
+
+export function toSearchJobSummary(job: SearchJob, now: number = Date.now()): SearchJobSummary {
+  const top = (job.results?.allRanked ?? []).reduce<RankedDomainResult | undefined>(
+    (best, row) => (!best || row.overallScore > best.overallScore ? row : best),
+    undefined,
+  );
+  const startedAt = job.startedAt ?? job.createdAt;
+  const endedAt = job.completedAt ?? (job.status === "running" ? now : job.updatedAt);
+
+  return {
+    id: job.id,
+    status: job.status,
+    input: job.input,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+    topDomain: top?.domain,
+    topScore: top?.overallScore,
+    completedLoops: job.results?.loopSummaries.length ?? 0,
+    totalLoops: job.totalLoops ?? job.input.loopCount,
+    durationMs: job.startedAt ? Math.max(0, endedAt - startedAt) : undefined,
+  };
+}
+
+export function listJobSummaries(jobs: SearchJob[], query: SearchListQuery): SearchJobPage {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const from = query.from?.getTime();
+  const to = query.to?.getTime();
+
+  const matching = jobs
+    .filter((job) => !query.status || query.status.includes(job.status))
+    .filter((job) => from === undefined || job.createdAt >= from)
+    .filter((job) => to === undefined || job.createdAt <= to)
+    .filter((job) => !query.keyword || matchesKeyword(job, query.keyword))
+    .filter((job) => !cursor || compareNewestFirst(job, cursor) > 0)
+    .sort(compareNewestFirst);
+
+  const page = matching.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map((job) => toSearchJobSummary(job)),
+    nextCursor: matching.length > query.limit && last ? encodeCursor(last) : undefined,
+  };
+}
@@ -0,0 +1,57 @@
+import path from "node:path";
+
+import { createFileJobStorage } from "@/lib/jobs/file-storage";
+import type { SearchJob } from "@/lib/types";
+
+export type JobStorageKind = "memory" | "file";
+
+export interface JobStorageBackend {
+  readonly kind: JobStorageKind;
+  get(jobId: string): SearchJob | undefined;
+  set(job: SearchJob): void;
+  delete(jobId: string): void;
+  list(): SearchJob[];
+  /** Resolves once every write started so far has reached durable storage. */
+  flush(): Promise<void>;
+}
+
+const MEMORY_RETENTION_MS = 30 * 60 * 1000;
+const FILE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function createMemoryJobStorage(): JobStorageBackend {
+  const jobs = new Map<string, SearchJob>();
+
+  return {
+    kind: "memory",
+    get: (jobId) => jobs.get(jobId),
+    set: (job) => {
+      jobs.set(job.id, job);
+    },
+    delete: (jobId) => {
+      jobs.delete(jobId);
+    },
+    list: () => Array.from(jobs.values()),
+    flush: () => Promise.resolve(),
+  };
+}
+
+export function resolveJobStorageKind(): JobStorageKind {
+  return (process.env.JOB_STORE_BACKEND ?? "memory").trim().toLowerCase() === "file" ? "file" : "memory";
+}
+
+export function resolveJobStorageDir(): string {
+  return process.env.JOB_STORE_DIR || path.join(process.cwd(), "data", "jobs");
+}
+
+export function resolveJobRetentionMs(kind: JobStorageKind): number {
+  const hours = Number(process.env.JOB_RETENTION_HOURS);
+  if (Number.isFinite(hours) && hours > 0) {
+    return hours * 60 * 60 * 1000;
+  }
+
+  return kind === "file" ? FILE_RETENTION_MS : MEMORY_RETENTION_MS;
+}
+
+export function createJobStorage(kind: JobStorageKind = resolveJobStorageKind()): JobStorageBackend {
+  return kind === "file" ? createFileJobStorage(resolveJobStorageDir()) : createMemoryJobStorage();
+}
@@ -1,13 +1,17 @@
 import { randomUUID } from "node:crypto";
 
+import { hasJobControl } from "@/lib/jobs/control";
+import { clearJobEvents, publishJobEvent } from "@/lib/jobs/events";
+import { createJobStorage, resolveJobRetentionMs, type JobStorageBackend } from "@/lib/jobs/storage";
+import { toJobProgressView } from "@/lib/jobs/view";
 import type { CachedSearchResult, JobError, SearchJob, SearchRequest, SearchResults } from "@/lib/types";
 
-const JOB_RETENTION_MS = 30 * 60 * 1000;
 const CACHE_TTL_MS = 10 * 60 * 1000;
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 
 type Store = {
-  jobs: Map<string, SearchJob>;
+  jobs: JobStorageBackend;
+  retentionMs: number;
   cache: Map<string, CachedSearchResult>;
   cleanupStarted: boolean;
 };
@@ -22,8 +26,12 @@ const globalStore = globalThis as GlobalWithStore;
 
 function getStore(): Store {
   if (!globalStore[storeSymbol]) {
+    const jobs = createJobStorage();
+    interruptOrphanedJobs(jobs);
+    cleanupExpiredJobs(jobs, resolveJobRetentionMs(jobs.kind));
     globalStore[storeSymbol] = {
-      jobs: new Map<string, SearchJob>(),
+      jobs,
+      retentionMs: resolveJobRetentionMs(jobs.kind),
       cache: new Map<string, CachedSearchResult>(),
       cleanupStarted: false,
     };
@@ -34,7 +42,7 @@ function getStore(): Store {
   if (!store.cleanupStarted) {
     store.cleanupStarted = true;
     setInterval(() => {
-      cleanupExpiredJobs(store.jobs);
+      cleanupExpiredJobs(store.jobs, store.retentionMs);
       cleanupExpiredCache(store.cache);
     }, CLEANUP_INTERVAL_MS).unref();
   }
@@ -42,16 +50,55 @@ function getStore(): Store {
   return store;
 }
 
-function cleanupExpiredJobs(jobs: Map<string, SearchJob>): void {
+function interruptOrphanedJobs(jobs: JobStorageBackend): void {
   const now = Date.now();
 
-  for (const [id, job] of jobs.entries()) {
-    if ((job.status === "done" || job.status === "failed") && job.completedAt && now - job.completedAt > JOB_RETENTION_MS) {
-      jobs.delete(id);
+  for (const job of jobs.list()) {
+    // A paused runner does not survive a restart either; without its control nothing could resume it.
+    const orphanedPause = job.status === "paused" && !hasJobControl(job.id);
+    if (job.status === "queued" || job.status === "running" || orphanedPause) {
+      jobs.set({
+        ...job,
+        status: "interrupted",
+        phase: null,
+        error: {
+          code: "JOB_INTERRUPTED",
+          message: job.checkpoint
+            ? `The server restarted during this search; it can resume from loop ${job.checkpoint.completedLoop + 1}.`
+            : "The server restarted before this search completed its first loop; it can be restarted from loop 1.",
+        },
+        updatedAt: now,
+      });
     }
   }
 }
 
+function cleanupExpiredJobs(jobs: JobStorageBackend, retentionMs: number): void {
+  const now = Date.now();
+
+  for (const job of jobs.list()) {
+    // A job with a control still has a runner in this process, e.g. parked while paused.
+    if (job.status === "queued" || job.status === "running" || hasJobControl(job.id)) {
+      continue;
+    }
+
+    const finishedAt = job.completedAt ?? job.updatedAt;
+    if (now - finishedAt > retentionMs) {
+      jobs.delete(job.id);
+      clearJobEvents(job.id);
+    }
+  }
+}
+
+function publishProgressChange(previous: SearchJob, next: SearchJob): void {
+  const before = toJobProgressView(previous);
+  const after = toJobProgressView(next);
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    publishJobEvent(next.id, "phase", after);
+  }
+}
+
 function cleanupExpiredCache(cache: Map<string, CachedSearchResult>): void {
   const now = Date.now();
 
@@ -76,7 +123,7 @@ export function createJob(input: SearchRequest): SearchJob {
     updatedAt: now,
   };
 
-  store.jobs.set(job.id, job);
+  store.jobs.set(job);
   return job;
 }
 
@@ -84,6 +131,10 @@ export function getJob(jobId: string): SearchJob | undefined {
   return getStore().jobs.get(jobId);
 }
 
+export function listJobs(): SearchJob[] {
+  return getStore().jobs.list();
+}
+
 export function patchJob(jobId: string, patch: Partial<SearchJob>): SearchJob | undefined {
   const store = getStore();
   const job = store.jobs.get(jobId);
@@ -100,7 +151,8 @@ export function patchJob(jobId: string, patch: Partial<SearchJob>): SearchJob |
     updatedAt: Date.now(),
   };
 
-  store.jobs.set(jobId, next);
+  store.jobs.set(next);
+  publishProgressChange(job, next);
   return next;
 }
 
@@ -121,28 +173,52 @@ export function markJobRunning(jobId: string, phase: SearchJob["phase"], progres
     updatedAt: Date.now(),
   };
 
-  store.jobs.set(jobId, next);
+  store.jobs.set(next);
+  publishProgressChange(job, next);
   return next;
 }
 
 export function markJobComplete(jobId: string, results: SearchResults): SearchJob | undefined {
-  return patchJob(jobId, {
+  const job = patchJob(jobId, {
     status: "done",
     phase: "finalize",
     progress: 100,
     results,
     completedAt: Date.now(),
     error: undefined,
+    checkpoint: undefined,
   });
+
+  if (job) {
+    publishJobEvent(jobId, "complete", { results });
+  }
+
+  return job;
 }
 
 export function markJobFailed(jobId: string, error: JobError): SearchJob | undefined {
-  return patchJob(jobId, {
+  const job = patchJob(jobId, {
     status: "failed",
     phase: null,
     error,
     completedAt: Date.now(),
   });
+
+  if (job) {
+    publishJobEvent(jobId, "failed", { error });
+  }
+
+  return job;
+}
+
+export function markJobCancelled(jobId: string): SearchJob | undefined {
+  return patchJob(jobId, {
+    status: "cancelled",
+    phase: null,
+    error: undefined,
+    completedAt: Date.now(),
+    checkpoint: undefined,
+  });
 }
 
 export function getCachedSearchResult(cacheKey: string): CachedSearchResult | undefined {
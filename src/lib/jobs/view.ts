@@ -0,0 +1,36 @@
+import type { JobProgressView, SearchJob, SearchJobView } from "@/lib/types";
+
+export function isJobResumable(job: SearchJob): boolean {
+  return (
+    job.status === "interrupted" ||
+    job.status === "paused" ||
+    (job.status === "failed" && Boolean(job.checkpoint))
+  );
+}
+
+export function isJobSettled(job: Pick<SearchJob, "status">): boolean {
+  return job.status === "done" || job.status === "failed" || job.status === "cancelled" || job.status === "interrupted";
+}
+
+export function toJobProgressView(job: SearchJob): JobProgressView {
+  return {
+    status: job.status,
+    phase: job.phase,
+    progress: job.progress,
+    currentLoop: job.currentLoop,
+    totalLoops: job.totalLoops,
+    error: job.error,
+    resumableFromLoop: isJobResumable(job) ? (job.checkpoint?.completedLoop ?? 0) + 1 : undefined,
+  };
+}
+
+export function toSearchJobView(job: SearchJob): SearchJobView {
+  return {
+    id: job.id,
+    ...toJobProgressView(job),
+    results: job.results,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
@@ -0,0 +1,162 @@
+import model from "@/lib/language/ngram-model.json";
+
+export interface EnglishLikeness {
+  score: number;
+  bitsPerSymbol: number;
+  weakestSpot?: string;
+}
+
+export interface LabelSegmentation {
+  segments: string[];
+  wordCount: number;
+  coverage: number;
+}
+
+const START = "^";
+const END = "$";
+// Segmentation cost: each dictionary word costs 1, each character outside a word costs this much.
+const UNKNOWN_CHARACTER_COST = 1.5;
+const MAX_WORD_LENGTH = 16;
+
+const trigrams: Record<string, number> = model.trigrams;
+const bigrams: Record<string, number> = model.bigrams;
+const unigrams: Record<string, number> = model.unigrams;
+const dictionary = new Set(model.words.filter((word) => word.length >= 2 || word === "a"));
+
+function sumByContext(counts: Record<string, number>): Map<string, number> {
+  const contexts = new Map<string, number>();
+  for (const [gram, count] of Object.entries(counts)) {
+    const context = gram.slice(0, -1);
+    contexts.set(context, (contexts.get(context) ?? 0) + count);
+  }
+  return contexts;
+}
+
+const trigramContexts = sumByContext(trigrams);
+const bigramContexts = sumByContext(bigrams);
+const unigramTotal = Object.values(unigrams).reduce((sum, count) => sum + count, 0);
+const symbolCount = Object.keys(unigrams).length + 1;
+
+function toLetterWords(label: string): string[] {
+  return label
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+}
+
+/** Interpolated trigram probability (in bits) of every symbol of `word`, including the end marker. */
+function symbolLogProbs(word: string): number[] {
+  const padded = `${START}${START}${word}${END}`;
+  const [w3, w2, w1] = model.weights as [number, number, number];
+  const logProbs: number[] = [];
+
+  for (let index = 2; index < padded.length; index += 1) {
+    const trigram = padded.slice(index - 2, index + 1);
+    const bigram = padded.slice(index - 1, index + 1);
+    const p3 = (trigrams[trigram] ?? 0) / (trigramContexts.get(trigram.slice(0, 2)) ?? 1);
+    const p2 = (bigrams[bigram] ?? 0) / (bigramContexts.get(bigram[0]!) ?? 1);
+    const p1 = ((unigrams[padded[index]!] ?? 0) + 1) / (unigramTotal + symbolCount);
+    logProbs.push(Math.log2(w3 * p3 + w2 * p2 + w1 * p1));
+  }
+
+  return logProbs;
+}
+
+/**
+ * Scores 0-100 how much a label looks like English, from the character trigram model trained by
+ * `npm run model:train`: 100 is as predictable as the corpus words, 0 as random letters.
+ */
+export function scoreEnglishLikeness(label: string): EnglishLikeness {
+  const words = toLetterWords(label);
+  if (words.length === 0) {
+    return { score: 0, bitsPerSymbol: model.calibration.random };
+  }
+
+  let totalBits = 0;
+  let symbols = 0;
+  let weakest: { logProb: number; spot: string } | undefined;
+
+  for (const word of words) {
+    const padded = `${START}${START}${word}${END}`;
+    symbolLogProbs(word).forEach((logProb, index) => {
+      totalBits += logProb;
+      symbols += 1;
+      if (!weakest || logProb < weakest.logProb) {
+        weakest = { logProb, spot: padded.slice(index, index + 3).replace(/[$^]/g, "") };
+      }
+    });
+  }
+
+  const bitsPerSymbol = totalBits / symbols;
+  const { natural, random } = model.calibration;
+  const score = Math.min(100, Math.max(0, ((bitsPerSymbol - random) / (natural - random)) * 100));
+
+  return {
+    score: Number(score.toFixed(2)),
+    bitsPerSymbol: Number(bitsPerSymbol.toFixed(3)),
+    weakestSpot: weakest?.spot || undefined,
+  };
+}
+
+function segmentWord(word: string): LabelSegmentation {
+  const best: Array<{ cost: number; start: number; known: boolean } | undefined> = [{ cost: 0, start: 0, known: false }];
+
+  for (let end = 1; end <= word.length; end += 1) {
+    for (let start = Math.max(0, end - MAX_WORD_LENGTH); start < end; start += 1) {
+      const previous = best[start];
+      if (!previous) {
+        continue;
+      }
+
+      const piece = word.slice(start, end);
+      const known = dictionary.has(piece);
+      const cost = previous.cost + (known ? 1 : piece.length * UNKNOWN_CHARACTER_COST);
+      // On equal cost prefer the split with the longer final word.
+      if (!best[end] || cost < best[end]!.cost || (cost === best[end]!.cost && known && start < best[end]!.start)) {
+        best[end] = { cost, start, known };
+      }
+    }
+  }
+
+  const pieces: Array<{ text: string; known: boolean }> = [];
+  for (let end = word.length; end > 0; end = best[end]!.start) {
+    const { start, known } = best[end]!;
+    const text = word.slice(start, end);
+    const last = pieces[0];
+    // Adjacent unknown characters read as one chunk.
+    if (!known && last && !last.known) {
+      last.text = `${text}${last.text}`;
+    } else {
+      pieces.unshift({ text, known });
+    }
+  }
+
+  const knownPieces = pieces.filter((piece) => piece.known);
+  return {
+    segments: pieces.map((piece) => piece.text),
+    wordCount: knownPieces.length,
+    coverage: knownPieces.reduce((sum, piece) => sum + piece.text.length, 0) / Math.max(1, word.length),
+  };
+}
+
+export function isDictionaryWord(word: string): boolean {
+  return dictionary.has(word);
+}
+
+/** Splits a label into its most probable dictionary words, e.g. `solarbrew` into `solar|brew`. */
+export function segmentLabel(label: string): LabelSegmentation {
+  const words = toLetterWords(label);
+  const parts = words.map(segmentWord);
+  const letters = words.reduce((sum, word) => sum + word.length, 0);
+
+  return {
+    segments: parts.flatMap((part) => part.segments),
+    wordCount: parts.reduce((sum, part) => sum + part.wordCount, 0),
+    coverage:
+      letters > 0
+        ? Number((parts.reduce((sum, part, index) => sum + part.coverage * words[index]!.length, 0) / letters).toFixed(3))
+        : 0,
+  };
+}
@@ -187,9 +187,14 @@ async function loadMoreUntilTarget(page: Page, maxNames: number): Promise<void>
   }
 }
 
-async function scrapeNamelixOnce(input: SearchRequest): Promise<NamelixLogo[]> {
+async function scrapeNamelixOnce(input: SearchRequest, signal?: AbortSignal): Promise<NamelixLogo[]> {
   const context = await getSharedContext();
+  signal?.throwIfAborted();
   const page = await context.newPage();
+  const closeOnAbort = () => {
+    void page.close().catch(() => undefined);
+  };
+  signal?.addEventListener("abort", closeOnAbort, { once: true });
 
   try {
     page.setDefaultTimeout(45_000);
@@ -249,16 +254,19 @@ async function scrapeNamelixOnce(input: SearchRequest): Promise<NamelixLogo[]> {
 
     return deduped;
   } finally {
-    await page.close();
+    signal?.removeEventListener("abort", closeOnAbort);
+    if (!page.isClosed()) {
+      await page.close();
+    }
   }
 }
 
-export async function scrapeNamelix(input: SearchRequest): Promise<NamelixLogo[]> {
+export async function scrapeNamelix(input: SearchRequest, signal?: AbortSignal): Promise<NamelixLogo[]> {
   let lastError: unknown = null;
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt += 1) {
     try {
-      const logos = await runNamelixQueued(() => scrapeNamelixOnce(input));
+      const logos = await runNamelixQueued(() => scrapeNamelixOnce(input, signal), signal);
 
       if (logos.length === 0) {
         throw new NamelixScrapeError("Namelix returned no generated names for the provided inputs.");
@@ -266,6 +274,7 @@ export async function scrapeNamelix(input: SearchRequest): Promise<NamelixLogo[]
 
       return logos;
     } catch (error) {
+      signal?.throwIfAborted();
       lastError = error;
 
       if (attempt >= MAX_RETRIES) {
@@ -273,7 +282,7 @@ export async function scrapeNamelix(input: SearchRequest): Promise<NamelixLogo[]
       }
 
       const backoffMs = 1000 * 2 ** attempt + Math.floor(Math.random() * 400);
-      await sleep(backoffMs);
+      await sleep(backoffMs, signal);
     }
   }
 
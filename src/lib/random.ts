@@ -0,0 +1,42 @@
+export interface SeededRandom {
+  next: () => number;
+  getState: () => number;
+}
+
+export function createSeededRandom(state: number): SeededRandom {
+  let current = state >>> 0;
+
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let next = current;
+      next = Math.imul(next ^ (next >>> 15), next | 1);
+      next ^= next + Math.imul(next ^ (next >>> 7), next | 61);
+      return ((next ^ (next >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => current,
+  };
+}
+
+export function mulberry32(seed: number): () => number {
+  return createSeededRandom(seed).next;
+}
+
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+export function pickOne<T>(items: readonly T[], random: () => number): T | undefined {
+  if (items.length === 0) {
+    return undefined;
+  }
+
+  return items[Math.floor(random() * items.length)];
+}
@@ -6,6 +6,9 @@ const NAMELIX_MAX_JITTER_MS = 5_000;
 const GODADDY_INTERVAL_CAP = 30;
 const GODADDY_INTERVAL_MS = 60_000;
 
+const RDAP_INTERVAL_CAP = 60;
+const RDAP_INTERVAL_MS = 60_000;
+
 const namelixQueue = new PQueue({ concurrency: 1 });
 const goDaddyQueue = new PQueue({
   concurrency: 3,
@@ -14,27 +17,104 @@ const goDaddyQueue = new PQueue({
   carryoverConcurrencyCount: true,
 });
 
+const rdapQueue = new PQueue({
+  concurrency: 4,
+  intervalCap: RDAP_INTERVAL_CAP,
+  interval: RDAP_INTERVAL_MS,
+  carryoverConcurrencyCount: true,
+});
+
 let namelixLastRunAt = 0;
 
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
-export async function runNamelixQueued<T>(task: () => Promise<T>): Promise<T> {
-  return namelixQueue.add(async () => {
+// p-queue only drops an aborted task once it reaches the front of the queue, so callers are
+// released as soon as the signal fires; the skipped task never runs and never counts against the interval cap.
+function addAbortable<T>(queue: PQueue, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return queue.add(task) as Promise<T>;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  const queued = queue.add(task, { signal }) as Promise<T>;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    queued.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+export function parseRetryAfterMs(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsedSeconds = Number(value);
+  if (Number.isFinite(parsedSeconds) && parsedSeconds >= 0) {
+    return parsedSeconds * 1000;
+  }
+
+  const dateValue = Date.parse(value);
+  if (Number.isFinite(dateValue)) {
+    return Math.max(0, dateValue - Date.now());
+  }
+
+  return null;
+}
+
+export async function runNamelixQueued<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return addAbortable(namelixQueue, async () => {
     const jitter = Math.floor(Math.random() * NAMELIX_MAX_JITTER_MS);
     const targetStart = namelixLastRunAt + NAMELIX_BASE_COOLDOWN_MS + jitter;
     const waitMs = Math.max(0, targetStart - Date.now());
 
     if (waitMs > 0) {
-      await sleep(waitMs);
+      await sleep(waitMs, signal);
     }
 
     namelixLastRunAt = Date.now();
     return task();
-  }) as Promise<T>;
+  }, signal);
+}
+
+export async function runGoDaddyQueued<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return addAbortable(goDaddyQueue, task, signal);
 }
 
-export async function runGoDaddyQueued<T>(task: () => Promise<T>): Promise<T> {
-  return goDaddyQueue.add(task) as Promise<T>;
+export async function runRdapQueued<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return addAbortable(rdapQueue, task, signal);
 }
@@ -0,0 +1,153 @@
+import { isDictionaryWord } from "@/lib/language/ngram";
+import brandList from "@/lib/screening/brands.json";
+import { metaphone, soundex } from "@/lib/screening/phonetic";
+import type { BrandMatch } from "@/lib/types";
+
+interface BrandEntry {
+  brand: string;
+  commonWord: boolean;
+  metaphone: string;
+  soundex: string;
+}
+
+export interface BrandCollision {
+  score: number;
+  matches: BrandMatch[];
+}
+
+const KEYBOARD_ROWS = ["1234567890", "qwertyuiop", "asdfghjkl", "zxcvbnm"];
+const MIN_FUZZY_BRAND_LENGTH = 4;
+const MAX_LENGTH_GAP = 3;
+const MIN_REPORTED_SIMILARITY = 60;
+const MAX_MATCHES = 3;
+// Phonetic codes only keep consonant skeletons, so they boost names that are already spelled alike.
+const MIN_PHONETIC_SPELLING_SIMILARITY = 50;
+const MIN_SOUNDEX_SPELLING_SIMILARITY = 65;
+
+const brands: BrandEntry[] = brandList.brands.map((brand) => ({
+  brand,
+  commonWord: isDictionaryWord(brand),
+  metaphone: metaphone(brand),
+  soundex: soundex(brand),
+}));
+
+const keyPositions = new Map<string, [number, number]>(
+  KEYBOARD_ROWS.flatMap((row, rowIndex) =>
+    Array.from(row).map((key, column): [string, [number, number]] => [key, [rowIndex, column]]),
+  ),
+);
+
+/** QWERTY neighbours, including the staggered keys above and below (`g` touches `t`, `y`, `v`, `b`). */
+export function areKeysAdjacent(a: string, b: string): boolean {
+  const first = keyPositions.get(a);
+  const second = keyPositions.get(b);
+  if (!first || !second || a === b) {
+    return false;
+  }
+
+  const rowDelta = second[0] - first[0];
+  const columnDelta = second[1] - first[1];
+
+  if (rowDelta === 0) {
+    return Math.abs(columnDelta) === 1;
+  }
+
+  if (rowDelta === -1) {
+    return columnDelta === 0 || columnDelta === 1;
+  }
+
+  return rowDelta === 1 && (columnDelta === 0 || columnDelta === -1);
+}
+
+/**
+ * Damerau-Levenshtein distance where typo-squatting edits are cheap: hitting a neighbouring key
+ * or doubling a letter costs half an edit.
+ */
+export function typoDistance(source: string, target: string): number {
+  const rows = source.length + 1;
+  const columns = target.length + 1;
+  const distances: number[][] = Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => (row === 0 ? column : column === 0 ? row : 0)),
+  );
+
+  for (let row = 1; row < rows; row += 1) {
+    for (let column = 1; column < columns; column += 1) {
+      const a = source[row - 1]!;
+      const b = target[column - 1]!;
+      const substitution = a === b ? 0 : areKeysAdjacent(a, b) ? 0.5 : 1;
+      const deletion = a === source[row - 2] ? 0.5 : 1;
+      const insertion = b === target[column - 2] ? 0.5 : 1;
+
+      let best = Math.min(
+        distances[row - 1]![column]! + deletion,
+        distances[row]![column - 1]! + insertion,
+        distances[row - 1]![column - 1]! + substitution,
+      );
+
+      if (row > 1 && column > 1 && a === target[column - 2] && source[row - 2] === b) {
+        best = Math.min(best, distances[row - 2]![column - 2]! + 1);
+      }
+
+      distances[row]![column] = best;
+    }
+  }
+
+  return distances[source.length]![target.length]!;
+}
+
+function compareWithBrand(label: string, labelMetaphone: string, entry: BrandEntry): BrandMatch | null {
+  const { brand } = entry;
+  if (label === brand) {
+    return { brand, similarity: 100, reason: "exact" };
+  }
+
+  if (brand.length < MIN_FUZZY_BRAND_LENGTH) {
+    return null;
+  }
+
+  const candidates: BrandMatch[] = [];
+
+  if (Math.abs(label.length - brand.length) <= MAX_LENGTH_GAP) {
+    const distance = typoDistance(label, brand);
+    const similarity = Math.round(100 * (1 - distance / Math.max(label.length, brand.length)));
+    candidates.push({ brand, similarity, reason: distance % 1 === 0 ? "edit" : "typo" });
+
+    if (labelMetaphone === entry.metaphone && similarity >= MIN_PHONETIC_SPELLING_SIMILARITY) {
+      candidates.push({ brand, similarity: Math.max(85, similarity), reason: "phonetic" });
+    } else if (soundex(label) === entry.soundex && similarity >= MIN_SOUNDEX_SPELLING_SIMILARITY) {
+      candidates.push({ brand, similarity: Math.max(70, similarity), reason: "phonetic" });
+    }
+  }
+
+  // Combosquatting such as `googlecloud` or `mynetflix`. Brands that are everyday words (apple, slack, zoom)
+  // are left out, since `pineapple` or `slackline` only contain the word, not the brand.
+  if (!entry.commonWord && (label.startsWith(brand) || label.endsWith(brand))) {
+    candidates.push({ brand, similarity: 80, reason: "contains" });
+  }
+
+  return candidates.reduce<BrandMatch | null>(
+    (best, candidate) => (!best || candidate.similarity > best.similarity ? candidate : best),
+    null,
+  );
+}
+
+/** Scores 0-100 how close a label comes to a well-known brand, with the nearest brands first. */
+export function assessBrandCollision(label: string): BrandCollision {
+  const plain = label
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+  const labelMetaphone = metaphone(plain);
+
+  const matches = brands
+    .map((entry) => compareWithBrand(plain, labelMetaphone, entry))
+    .filter((match): match is BrandMatch => match !== null && match.similarity >= MIN_REPORTED_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity || a.brand.localeCompare(b.brand))
+    .slice(0, MAX_MATCHES);
+
+  return {
+    score: matches[0]?.similarity ?? 0,
+    matches,
+  };
+}
@@ -0,0 +1,103 @@
+import wordList from "@/lib/screening/negative-words.json";
+import type { ConnotationCategory, ConnotationFlag, ScreeningLanguage } from "@/lib/types";
+
+type WordMatchRule = "substring" | "prefix" | "exact";
+
+interface NegativeWordEntry {
+  word: string;
+  category: ConnotationCategory;
+  match: WordMatchRule;
+}
+
+export interface ConnotationScreeningOptions {
+  languages: readonly ScreeningLanguage[];
+  allowlist?: readonly string[];
+}
+
+export const SCREENING_LANGUAGE_NAMES: Record<ScreeningLanguage, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+};
+
+const CATEGORY_SEVERITY: Record<ConnotationCategory, number> = {
+  negative: 1,
+  profanity: 2,
+  slur: 3,
+};
+
+const wordsByLanguage = wordList.languages as Record<ScreeningLanguage, NegativeWordEntry[]>;
+
+function foldForms(text: string): string[] {
+  const lower = text.normalize("NFC").toLowerCase();
+  const stripped = lower.normalize("NFKD").replace(/\p{M}/gu, "").normalize("NFC");
+  return stripped === lower ? [lower] : [lower, stripped];
+}
+
+function findOccurrences(text: string, word: string): number[] {
+  const positions: number[] = [];
+  for (let index = text.indexOf(word); index >= 0; index = text.indexOf(word, index + 1)) {
+    positions.push(index);
+  }
+
+  return positions;
+}
+
+function findRuleMatches(segment: string, entry: NegativeWordEntry): number[] {
+  if (entry.match === "exact") {
+    return segment === entry.word ? [0] : [];
+  }
+
+  if (entry.match === "prefix") {
+    return segment.startsWith(entry.word) ? [0] : [];
+  }
+
+  return findOccurrences(segment, entry.word);
+}
+
+/** True when the hit lies inside an allowlisted word, e.g. `cock` inside `peacock`. */
+function isAllowlisted(segment: string, start: number, length: number, allowlist: readonly string[]): boolean {
+  return allowlist.some((allowed) =>
+    findOccurrences(segment, allowed).some((position) => position <= start && start + length <= position + allowed.length),
+  );
+}
+
+/**
+ * Looks for words that read as slurs, profanity or unfortunate words in the target languages.
+ * Each hyphen-separated part and the joined label are checked, so `fu-ck` style splits still match.
+ */
+export function screenConnotations(label: string, options: ConnotationScreeningOptions): ConnotationFlag[] {
+  const parts = label.split("-").filter(Boolean);
+  const segments = Array.from(new Set([...parts, parts.join("")].flatMap(foldForms)));
+  const allowlist = [...wordList.allowlist, ...(options.allowlist ?? [])].map((word) => word.toLowerCase());
+  const flags = new Map<string, ConnotationFlag>();
+
+  for (const language of options.languages) {
+    for (const entry of wordsByLanguage[language] ?? []) {
+      const key = `${language}:${entry.word}`;
+      if (flags.has(key)) {
+        continue;
+      }
+
+      const hit = segments.some((segment) =>
+        findRuleMatches(segment, entry).some((start) => !isAllowlisted(segment, start, entry.word.length, allowlist)),
+      );
+
+      if (hit) {
+        flags.set(key, { word: entry.word, language, category: entry.category });
+      }
+    }
+  }
+
+  return Array.from(flags.values()).sort((a, b) => CATEGORY_SEVERITY[b.category] - CATEGORY_SEVERITY[a.category]);
+}
+
+export function formatConnotationFlag(flag: ConnotationFlag): string {
+  return `"${flag.word}" reads as ${flag.category === "negative" ? "a negative word" : flag.category} in ${
+    SCREENING_LANGUAGE_NAMES[flag.language]
+  }`;
+}
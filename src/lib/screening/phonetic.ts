@@ -0,0 +1,185 @@
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1",
+  f: "1",
+  p: "1",
+  v: "1",
+  c: "2",
+  g: "2",
+  j: "2",
+  k: "2",
+  q: "2",
+  s: "2",
+  x: "2",
+  z: "2",
+  d: "3",
+  t: "3",
+  l: "4",
+  m: "5",
+  n: "5",
+  r: "6",
+};
+
+const VOWELS = new Set("aeiou");
+const FRONT_VOWELS = new Set("eiy");
+
+function lettersOnly(word: string): string {
+  return word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+}
+
+/** American Soundex: first letter plus three consonant-class digits, e.g. `robert` -> `R163`. */
+export function soundex(word: string): string {
+  const letters = lettersOnly(word);
+  if (!letters) {
+    return "";
+  }
+
+  let code = letters[0]!.toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]!] ?? "";
+
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter];
+
+    if (digit) {
+      if (digit !== previous) {
+        code += digit;
+      }
+      previous = digit;
+    } else if (letter !== "h" && letter !== "w") {
+      // Vowels separate repeated codes; h and w do not.
+      previous = "";
+    }
+
+    if (code.length === 4) {
+      break;
+    }
+  }
+
+  return code.padEnd(4, "0");
+}
+
+/** Original Metaphone (Philips, 1990); `th` is encoded as `0`. */
+export function metaphone(word: string): string {
+  let letters = lettersOnly(word);
+
+  if (/^(ae|gn|kn|pn|wr)/.test(letters)) {
+    letters = letters.slice(1);
+  } else if (letters.startsWith("x")) {
+    letters = `s${letters.slice(1)}`;
+  } else if (letters.startsWith("wh")) {
+    letters = `w${letters.slice(2)}`;
+  }
+
+  let code = "";
+
+  for (let index = 0; index < letters.length; index += 1) {
+    const letter = letters[index]!;
+    const previous = letters[index - 1] ?? "";
+    const next = letters[index + 1] ?? "";
+    const afterNext = letters[index + 2] ?? "";
+
+    if (letter === previous && letter !== "c") {
+      continue;
+    }
+
+    switch (letter) {
+      case "a":
+      case "e":
+      case "i":
+      case "o":
+      case "u":
+        if (index === 0) {
+          code += letter.toUpperCase();
+        }
+        break;
+      case "b":
+        if (!(previous === "m" && index === letters.length - 1)) {
+          code += "B";
+        }
+        break;
+      case "c":
+        if (next === "i" && afterNext === "a") {
+          code += "X";
+        } else if (next === "h") {
+          code += previous === "s" ? "K" : "X";
+        } else if (FRONT_VOWELS.has(next)) {
+          if (previous !== "s") {
+            code += "S";
+          }
+        } else {
+          code += "K";
+        }
+        break;
+      case "d":
+        code += next === "g" && FRONT_VOWELS.has(afterNext) ? "J" : "T";
+        break;
+      case "g":
+        if (next === "h" && !VOWELS.has(afterNext)) {
+          break;
+        }
+        if (next === "n" && (!afterNext || letters.slice(index + 1) === "ned")) {
+          break;
+        }
+        code += FRONT_VOWELS.has(next) && previous !== "g" ? "J" : "K";
+        break;
+      case "h":
+        if (previous && "cgpst".includes(previous)) {
+          break;
+        }
+        if (VOWELS.has(previous) && !VOWELS.has(next)) {
+          break;
+        }
+        code += "H";
+        break;
+      case "k":
+        if (previous !== "c") {
+          code += "K";
+        }
+        break;
+      case "p":
+        code += next === "h" ? "F" : "P";
+        break;
+      case "q":
+        code += "K";
+        break;
+      case "s":
+        if (next === "h" || (next === "i" && (afterNext === "o" || afterNext === "a"))) {
+          code += "X";
+        } else {
+          code += "S";
+        }
+        break;
+      case "t":
+        if (next === "i" && (afterNext === "o" || afterNext === "a")) {
+          code += "X";
+        } else if (next === "h") {
+          code += "0";
+        } else if (!(next === "c" && afterNext === "h")) {
+          code += "T";
+        }
+        break;
+      case "v":
+        code += "F";
+        break;
+      case "w":
+      case "y":
+        if (VOWELS.has(next)) {
+          code += letter.toUpperCase();
+        }
+        break;
+      case "x":
+        code += "KS";
+        break;
+      case "z":
+        code += "S";
+        break;
+      default:
+        code += letter.toUpperCase();
+    }
+  }
+
+  return code;
+}
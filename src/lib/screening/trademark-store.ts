@@ -0,0 +1,50 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { buildTrademarkIndex, TrademarkIndexError, type TrademarkIndex } from "@/lib/screening/trademarks";
+
+interface CachedTrademarkIndex {
+  path: string;
+  modifiedAt: number;
+  index: Promise<TrademarkIndex>;
+}
+
+let cached: CachedTrademarkIndex | null = null;
+
+export function resolveTrademarkIndexPath(): string {
+  return process.env.TRADEMARK_INDEX_PATH || path.join(process.cwd(), "data", "trademarks.json");
+}
+
+async function readTrademarkIndex(indexPath: string): Promise<TrademarkIndex> {
+  let source: unknown;
+  try {
+    source = JSON.parse(await readFile(indexPath, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new TrademarkIndexError(`Unable to read trademark index ${indexPath}: ${message}`);
+  }
+
+  return buildTrademarkIndex(source);
+}
+
+/** Loads the trademark index, rebuilding it when the file changes; null when no index file exists. */
+export async function loadTrademarkIndex(indexPath = resolveTrademarkIndexPath()): Promise<TrademarkIndex | null> {
+  let modifiedAt: number;
+  try {
+    modifiedAt = (await stat(indexPath)).mtimeMs;
+  } catch {
+    return null;
+  }
+
+  if (!cached || cached.path !== indexPath || cached.modifiedAt !== modifiedAt) {
+    const entry: CachedTrademarkIndex = { path: indexPath, modifiedAt, index: readTrademarkIndex(indexPath) };
+    entry.index.catch(() => {
+      if (cached === entry) {
+        cached = null;
+      }
+    });
+    cached = entry;
+  }
+
+  return cached.index;
+}
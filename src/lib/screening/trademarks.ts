@@ -0,0 +1,205 @@
+import { metaphone, soundex } from "@/lib/screening/phonetic";
+import type { TrademarkMatch, TrademarkMatchType, TrademarkRiskLevel } from "@/lib/types";
+
+export class TrademarkIndexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrademarkIndexError";
+  }
+}
+
+export interface TrademarkRecord {
+  mark: string;
+  classes: number[];
+  owner?: string;
+  registration?: string;
+  office?: string;
+}
+
+export interface TrademarkIndex {
+  source?: string;
+  updatedAt?: string;
+  size: number;
+  exact: Map<string, TrademarkRecord[]>;
+  normalized: Map<string, TrademarkRecord[]>;
+  metaphone: Map<string, TrademarkRecord[]>;
+  soundex: Map<string, TrademarkRecord[]>;
+}
+
+export interface TrademarkScreening {
+  risk: TrademarkRiskLevel;
+  matches: TrademarkMatch[];
+}
+
+const MAX_MATCHES = 5;
+// Soundex keeps only four characters, so it only counts for marks of similar length.
+const MAX_SOUNDEX_LENGTH_GAP = 2;
+const MIN_PHONETIC_CODE_LENGTH = 2;
+
+const MATCH_RISK: Record<TrademarkMatchType, TrademarkRiskLevel> = {
+  exact: "high",
+  normalized: "high",
+  metaphone: "medium",
+  soundex: "low",
+};
+
+const LOOKALIKE_CHARACTERS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "8": "b",
+  $: "s",
+  "@": "a",
+};
+
+function toExactKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/** Folds accents, digit lookalikes and doubled letters so `Kwik-Klikk` and `kwikklik` share a key. */
+export function toNormalizedMarkKey(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[013457$@8]/g, (character) => LOOKALIKE_CHARACTERS[character] ?? character)
+    .replace(/[^a-z0-9]+/g, "")
+    .replace(/(.)\1+/g, "$1");
+}
+
+function addToIndex(map: Map<string, TrademarkRecord[]>, key: string, record: TrademarkRecord): void {
+  if (!key) {
+    return;
+  }
+
+  const entries = map.get(key);
+  if (entries) {
+    entries.push(record);
+  } else {
+    map.set(key, [record]);
+  }
+}
+
+function parseRecord(entry: unknown): TrademarkRecord | null {
+  if (!entry || typeof entry !== "object") {
+    return null;
+  }
+
+  const value = entry as Record<string, unknown>;
+  if (typeof value.mark !== "string" || !value.mark.trim()) {
+    return null;
+  }
+
+  const classes = Array.isArray(value.classes)
+    ? value.classes.filter((item): item is number => Number.isInteger(item) && item >= 1 && item <= 45)
+    : [];
+
+  return {
+    mark: value.mark.trim(),
+    classes,
+    owner: typeof value.owner === "string" ? value.owner : undefined,
+    registration: typeof value.registration === "string" ? value.registration : undefined,
+    office: typeof value.office === "string" ? value.office : undefined,
+  };
+}
+
+/** Builds lookup tables from a compact index file: `{ source?, updatedAt?, marks: [{ mark, classes, owner?, ... }] }`. */
+export function buildTrademarkIndex(source: unknown): TrademarkIndex {
+  const marks = source && typeof source === "object" ? (source as { marks?: unknown }).marks : undefined;
+  if (!Array.isArray(marks)) {
+    throw new TrademarkIndexError("Trademark index is missing a marks array.");
+  }
+
+  const meta = source as { source?: unknown; updatedAt?: unknown };
+  const index: TrademarkIndex = {
+    source: typeof meta.source === "string" ? meta.source : undefined,
+    updatedAt: typeof meta.updatedAt === "string" ? meta.updatedAt : undefined,
+    size: 0,
+    exact: new Map(),
+    normalized: new Map(),
+    metaphone: new Map(),
+    soundex: new Map(),
+  };
+
+  for (const entry of marks) {
+    const record = parseRecord(entry);
+    if (!record) {
+      continue;
+    }
+
+    index.size += 1;
+    addToIndex(index.exact, toExactKey(record.mark), record);
+    addToIndex(index.normalized, toNormalizedMarkKey(record.mark), record);
+
+    const metaphoneCode = metaphone(record.mark);
+    if (metaphoneCode.length >= MIN_PHONETIC_CODE_LENGTH) {
+      addToIndex(index.metaphone, metaphoneCode, record);
+    }
+    addToIndex(index.soundex, soundex(record.mark), record);
+  }
+
+  return index;
+}
+
+function sharesNiceClass(record: TrademarkRecord, niceClasses?: number[]): boolean {
+  // Marks without class data are kept: an unknown class is not evidence of a different market.
+  if (!niceClasses || niceClasses.length === 0 || record.classes.length === 0) {
+    return true;
+  }
+
+  return record.classes.some((item) => niceClasses.includes(item));
+}
+
+export function formatTrademarkMatch(match: TrademarkMatch): string {
+  const classes = match.classes.length > 0 ? ` (class ${match.classes.join(", ")})` : "";
+  const owner = match.owner ? ` owned by ${match.owner}` : "";
+  return `${match.matchType} match with registered mark "${match.mark}"${classes}${owner}`;
+}
+
+/** Screens a label (without TLD) against the index; the highest-risk match decides the level. */
+export function screenTrademarks(label: string, index: TrademarkIndex, niceClasses?: number[]): TrademarkScreening {
+  const exactKey = toExactKey(label);
+  const normalizedKey = toNormalizedMarkKey(label);
+  const metaphoneCode = metaphone(label);
+  const lookups: Array<[TrademarkMatchType, TrademarkRecord[] | undefined]> = [
+    ["exact", index.exact.get(exactKey)],
+    ["normalized", index.normalized.get(normalizedKey)],
+    ["metaphone", metaphoneCode.length >= MIN_PHONETIC_CODE_LENGTH ? index.metaphone.get(metaphoneCode) : undefined],
+    [
+      "soundex",
+      index.soundex
+        .get(soundex(label))
+        ?.filter((record) => Math.abs(toExactKey(record.mark).length - exactKey.length) <= MAX_SOUNDEX_LENGTH_GAP),
+    ],
+  ];
+
+  const seen = new Set<TrademarkRecord>();
+  const matches: TrademarkMatch[] = [];
+
+  for (const [matchType, records] of lookups) {
+    for (const record of records ?? []) {
+      if (seen.has(record) || !sharesNiceClass(record, niceClasses)) {
+        continue;
+      }
+
+      seen.add(record);
+      matches.push({
+        mark: record.mark,
+        matchType,
+        classes: record.classes,
+        owner: record.owner,
+        registration: record.registration,
+        office: record.office,
+      });
+    }
+  }
+
+  return {
+    risk: matches[0] ? MATCH_RISK[matches[0].matchType] : "none",
+    matches: matches.slice(0, MAX_MATCHES),
+  };
+}
@@ -0,0 +1,187 @@
+import type { BanditStrategyId } from "@/lib/types";
+
+/** Rewards are in [0, 1]; `alpha`/`beta` are the Beta posterior, starting from a uniform Beta(1, 1) prior. */
+export interface ArmStats {
+  plays: number;
+  reward: number;
+  alpha: number;
+  beta: number;
+}
+
+export type BanditRecord<TArm extends string> = Record<TArm, ArmStats>;
+
+export interface ArmSelectionContext {
+  /** Exploration rate, only used by epsilon-greedy. */
+  epsilon: number;
+  random: () => number;
+}
+
+export interface BanditStrategy {
+  id: BanditStrategyId;
+  label: string;
+  chooseArm<TArm extends string>(bandit: BanditRecord<TArm>, arms: readonly TArm[], context: ArmSelectionContext): TArm;
+}
+
+export const DEFAULT_BANDIT_STRATEGY: BanditStrategyId = "epsilon-greedy";
+
+const UNPLAYED_ARM_REWARD = 0.55;
+
+export function createArmStats(): ArmStats {
+  return {
+    plays: 0,
+    reward: 0,
+    alpha: 1,
+    beta: 1,
+  };
+}
+
+/** Arm stats with the Beta posterior implied by play and reward totals on the uniform prior. */
+export function createArmStatsFromTotals(plays: number, reward: number): ArmStats {
+  return {
+    plays,
+    reward,
+    alpha: 1 + Math.max(0, reward),
+    beta: 1 + Math.max(0, plays - reward),
+  };
+}
+
+export function updateArmStats(stats: ArmStats, reward: number): void {
+  stats.plays += 1;
+  stats.reward += reward;
+  stats.alpha += reward;
+  stats.beta += 1 - reward;
+}
+
+/** Adds the plays, reward and posterior increments recorded in `delta` to `stats`. */
+export function addArmStats(stats: ArmStats, delta: ArmStats): void {
+  stats.plays += delta.plays;
+  stats.reward += delta.reward;
+  stats.alpha += delta.alpha;
+  stats.beta += delta.beta;
+}
+
+export function averageReward(stats: ArmStats): number {
+  if (stats.plays === 0) {
+    return UNPLAYED_ARM_REWARD;
+  }
+
+  return stats.reward / stats.plays;
+}
+
+/**
+ * Highest-scoring arm; ties are broken uniformly at random (reservoir sampling) so unplayed arms do not
+ * always resolve to the first one.
+ */
+function pickBestArm<TArm extends string>(
+  arms: readonly TArm[],
+  score: (arm: TArm) => number,
+  random: () => number,
+): TArm {
+  let best = arms[0] as TArm;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  let ties = 0;
+
+  for (const arm of arms) {
+    const value = score(arm);
+
+    if (value > bestScore) {
+      best = arm;
+      bestScore = value;
+      ties = 1;
+      continue;
+    }
+
+    if (value === bestScore) {
+      ties += 1;
+      if (random() < 1 / ties) {
+        best = arm;
+      }
+    }
+  }
+
+  return best;
+}
+
+function sampleStandardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/** Marsaglia-Tsang gamma sampler; shapes below 1 are boosted and scaled back down. */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(Math.max(random(), Number.EPSILON), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    const x = sampleStandardNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) {
+      continue;
+    }
+
+    const u = random();
+    if (Math.log(Math.max(u, Number.EPSILON)) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
+
+export const epsilonGreedyStrategy: BanditStrategy = {
+  id: "epsilon-greedy",
+  label: "Epsilon-greedy",
+  chooseArm(bandit, arms, { epsilon, random }) {
+    if (random() < epsilon) {
+      return arms[Math.floor(random() * arms.length)]!;
+    }
+
+    return pickBestArm(arms, (arm) => averageReward(bandit[arm]), random);
+  },
+};
+
+/** Beta-Bernoulli Thompson sampling: fractional rewards count as partial successes. */
+export const thompsonSamplingStrategy: BanditStrategy = {
+  id: "thompson",
+  label: "Thompson sampling",
+  chooseArm(bandit, arms, { random }) {
+    return pickBestArm(arms, (arm) => sampleBeta(bandit[arm].alpha, bandit[arm].beta, random), random);
+  },
+};
+
+/** UCB1: every arm is tried once, then the mean reward plus an exploration bonus that shrinks with plays. */
+export const ucb1Strategy: BanditStrategy = {
+  id: "ucb1",
+  label: "UCB1",
+  chooseArm(bandit, arms, { random }) {
+    const unplayed = arms.filter((arm) => bandit[arm].plays === 0);
+    if (unplayed.length > 0) {
+      return unplayed[Math.floor(random() * unplayed.length)]!;
+    }
+
+    const totalPlays = arms.reduce((sum, arm) => sum + bandit[arm].plays, 0);
+    return pickBestArm(
+      arms,
+      (arm) => averageReward(bandit[arm]) + Math.sqrt((2 * Math.log(Math.max(1, totalPlays))) / bandit[arm].plays),
+      random,
+    );
+  },
+};
+
+const BANDIT_STRATEGIES: Record<BanditStrategyId, BanditStrategy> = {
+  "epsilon-greedy": epsilonGreedyStrategy,
+  thompson: thompsonSamplingStrategy,
+  ucb1: ucb1Strategy,
+};
+
+export function getBanditStrategy(id: BanditStrategyId = DEFAULT_BANDIT_STRATEGY): BanditStrategy {
+  return BANDIT_STRATEGIES[id];
+}
@@ -0,0 +1,173 @@
+import { checkDomainAvailability } from "@/lib/availability/provider";
+import { isKnownTld } from "@/lib/domain/hacks";
+import { normalizeTld } from "@/lib/domain/normalize";
+import { loadTrademarkIndex } from "@/lib/screening/trademark-store";
+import { classifyRankedResults, toDomainResult } from "@/lib/search/classify";
+import { buildDomainCandidates } from "@/lib/search/runner";
+import type { DomainCheckRequest } from "@/lib/search/schema";
+import { resolveScoringProfile } from "@/lib/search/profile-store";
+import { scoreDomainResult } from "@/lib/search/scoring";
+import { buildLabelGroups } from "@/lib/search/tld-groups";
+import type {
+  DomainAvailability,
+  NamelixLogo,
+  RankedDomainResult,
+  RawDomainResult,
+  SearchRequest,
+  SearchResults,
+} from "@/lib/types";
+
+type CheckCandidate = ReturnType<typeof buildDomainCandidates>["candidates"][number];
+
+type ParsedCheckEntry = { businessName: string; tld?: string } | { error: string };
+
+const DOMAIN_ENTRY_PATTERN = /^[^\s.]+(?:\.[^\s.]+)+$/u;
+
+/**
+ * Splits a full domain at its longest known TLD suffix (the bundled list plus the requested TLDs).
+ * Entries that leave more than one label, or end in no known TLD, are rejected rather than guessed at.
+ */
+function parseCheckEntry(entry: string, requestedTlds: ReadonlySet<string>): ParsedCheckEntry {
+  const trimmed = entry.trim();
+  if (!DOMAIN_ENTRY_PATTERN.test(trimmed)) {
+    return { businessName: entry };
+  }
+
+  const labels = trimmed.split(".");
+  for (let start = 1; start < labels.length; start += 1) {
+    const suffix = labels.slice(start).map((label) => normalizeTld(label));
+    const tld = suffix.every(Boolean) ? suffix.join(".") : null;
+    if (!tld || (!isKnownTld(tld) && !requestedTlds.has(tld))) {
+      continue;
+    }
+
+    return start === 1
+      ? { businessName: labels[0] ?? entry, tld }
+      : { error: `Only a name and its TLD can be checked; "${labels.slice(0, start).join(".")}" has several labels.` };
+  }
+
+  return { error: `"${entry}" does not end in a known TLD.` };
+}
+
+function toScoringInput(request: DomainCheckRequest): SearchRequest {
+  return {
+    keywords: request.keywords,
+    description: request.description,
+    style: "default",
+    randomness: "medium",
+    maxLength: request.maxLength,
+    tld: request.tld,
+    tlds: request.tlds,
+    domainHacks: request.domainHacks,
+    idn: request.idn,
+    scoringProfile: request.scoringProfile,
+    niceClasses: request.niceClasses,
+    marketLanguages: request.marketLanguages,
+    connotationScreening: request.connotationScreening,
+    connotationAllowlist: request.connotationAllowlist,
+    maxNames: request.names.length,
+    yearlyBudget: request.yearlyBudget,
+    loopCount: 1,
+    availabilityProviders: request.availabilityProviders,
+    availabilityQuorum: request.availabilityQuorum,
+  };
+}
+
+export async function runDomainChecks(request: DomainCheckRequest, signal?: AbortSignal): Promise<SearchResults> {
+  const input = toScoringInput(request);
+  const profile = await resolveScoringProfile(request.scoringProfile);
+  const trademarks = await loadTrademarkIndex();
+  const groups = new Map<string, NamelixLogo[]>();
+
+  const requestedTlds = new Set([request.tld, ...request.tlds]);
+  const invalid: RawDomainResult[] = [];
+
+  // Bare names are checked across every requested TLD; full domains only on their own.
+  for (const entry of request.names) {
+    const parsed = parseCheckEntry(entry, requestedTlds);
+    if ("error" in parsed) {
+      invalid.push({
+        domain: `${entry} (invalid)`,
+        sourceName: entry,
+        isNamelixPremium: false,
+        available: false,
+        definitive: false,
+        reason: parsed.error,
+      });
+      continue;
+    }
+
+    const key = parsed.tld ?? "";
+    const group = groups.get(key) ?? [];
+    group.push({ businessName: parsed.businessName });
+    groups.set(key, group);
+  }
+
+  const candidates: CheckCandidate[] = [];
+  const seenDomains = new Set<string>();
+
+  for (const [tld, logos] of groups) {
+    const built = buildDomainCandidates(tld ? { ...input, tld, tlds: [tld] } : input, logos);
+    invalid.push(...built.invalid);
+    for (const candidate of built.candidates) {
+      if (!seenDomains.has(candidate.domain)) {
+        seenDomains.add(candidate.domain);
+        candidates.push(candidate);
+      }
+    }
+  }
+
+  const availabilityMap =
+    candidates.length > 0
+      ? await checkDomainAvailability(
+          candidates.map((candidate) => candidate.domain),
+          input,
+          { signal },
+        )
+      : new Map<string, DomainAvailability>();
+
+  const ranked: RankedDomainResult[] = candidates.map((candidate) => {
+    const availability = availabilityMap.get(candidate.domain);
+    const result = toDomainResult(
+      {
+        domain: candidate.domain,
+        sourceName: candidate.sourceName,
+        isNamelixPremium: candidate.isNamelixPremium,
+        available: Boolean(availability?.available),
+        definitive: Boolean(availability?.definitive),
+        priceMicros: availability?.priceMicros,
+        currency: availability?.currency,
+        period: availability?.period,
+        reason: availability?.reason ?? (availability ? undefined : "No availability response returned."),
+        providerVerdicts: availability?.verdicts,
+        conflict: availability?.conflict,
+        checkType: availability?.checkType,
+        domainHack: candidate.domainHack,
+        unicodeDomain: candidate.unicodeDomain,
+      },
+      input.yearlyBudget,
+    );
+
+    return {
+      ...result,
+      ...scoreDomainResult(result, input, profile, trademarks),
+      firstSeenLoop: 1,
+      lastSeenLoop: 1,
+      timesDiscovered: 1,
+    };
+  });
+
+  return {
+    ...classifyRankedResults(ranked, [], []),
+    invalid,
+    labelGroups:
+      request.tlds.length > 1
+        ? buildLabelGroups(ranked, {
+            tlds: request.tlds,
+            yearlyBudget: request.yearlyBudget,
+            options: new Map(),
+            profile,
+          })
+        : undefined,
+  };
+}
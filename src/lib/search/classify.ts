@@ -16,6 +16,17 @@ function microsToPrice(micros?: number): number | undefined {
   return Number((micros / 1_000_000).toFixed(2));
 }
 
+export function toDomainResult(item: RawDomainResult, yearlyBudget: number): DomainResult {
+  const price = microsToPrice(item.priceMicros);
+  const overBudgetFlag = item.available && typeof price === "number" ? price > yearlyBudget : false;
+
+  return {
+    ...item,
+    price,
+    overBudget: overBudgetFlag,
+  };
+}
+
 function sortByPriceAscending(a: DomainResult, b: DomainResult): number {
   const aPrice = a.price ?? Number.POSITIVE_INFINITY;
   const bPrice = b.price ?? Number.POSITIVE_INFINITY;
@@ -100,12 +111,15 @@ export function classifyRankedResults(
   const withinBudget = availableRanked
     .filter((result) => !result.overBudget)
     .sort(sortRankedByPriceAscending);
-  const overBudget: RankedDomainResult[] = [];
+  const overBudget = rankedResults
+    .filter((result) => result.available && result.overBudget)
+    .sort(sortRankedByPriceAscending);
+  const unavailable = rankedResults.filter((result) => !result.available);
 
   return {
     withinBudget,
     overBudget,
-    unavailable: [],
+    unavailable,
     allRanked: availableRanked,
     loopSummaries,
     tuningHistory,
@@ -0,0 +1,99 @@
+import { AvailabilityProviderError } from "@/lib/availability/provider";
+import { RdapApiError, RdapBootstrapError, RdapRateLimitError } from "@/lib/availability/rdap";
+import { GoDaddyApiError, GoDaddyAuthError, GoDaddyRateLimitError } from "@/lib/godaddy/client";
+import { NamelixScrapeError } from "@/lib/namelix/scraper";
+import { TrademarkIndexError } from "@/lib/screening/trademarks";
+import { ScoringProfileNotFoundError } from "@/lib/search/profile-store";
+import { NameSourceError } from "@/lib/sources/registry";
+import type { JobError } from "@/lib/types";
+
+export function mapErrorToJobError(error: unknown): JobError {
+  if (error instanceof NamelixScrapeError) {
+    return {
+      code: "NAMELIX_SCRAPE_FAILED",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof NameSourceError) {
+    return {
+      code: "NAME_SOURCE_FAILED",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof GoDaddyAuthError) {
+    return {
+      code: "GODADDY_AUTH_FAILED",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof GoDaddyRateLimitError) {
+    return {
+      code: "GODADDY_RATE_LIMIT",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof GoDaddyApiError) {
+    return {
+      code: "GODADDY_API_ERROR",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof RdapBootstrapError) {
+    return {
+      code: "RDAP_BOOTSTRAP_FAILED",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof RdapRateLimitError) {
+    return {
+      code: "RDAP_RATE_LIMIT",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof RdapApiError) {
+    return {
+      code: "RDAP_API_ERROR",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof AvailabilityProviderError) {
+    return {
+      code: "AVAILABILITY_PROVIDER_FAILED",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof ScoringProfileNotFoundError) {
+    return {
+      code: "SCORING_PROFILE_NOT_FOUND",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof TrademarkIndexError) {
+    return {
+      code: "TRADEMARK_INDEX_FAILED",
+      message: error.message,
+    };
+  }
+
+  if (error instanceof Error) {
+    return {
+      code: "INTERNAL_ERROR",
+      message: error.message,
+    };
+  }
+
+  return {
+    code: "INTERNAL_ERROR",
+    message: "Unexpected unknown error occurred during search execution.",
+  };
+}
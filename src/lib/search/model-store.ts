@@ -1,41 +1,499 @@
-import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { link, mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
 
+import { sleep } from "@/lib/rate-limit";
+import { createArmStatsFromTotals } from "@/lib/search/bandit";
 import {
   createDefaultOptimizerModelState,
+  mergeOptimizerModelDelta,
+  OPTIMIZER_MODEL_VERSION,
   sanitizeOptimizerModelState,
+  type OptimizerModelDelta,
   type OptimizerModelState,
 } from "@/lib/search/optimizer";
+import { OPTIMIZER_SNAPSHOT_REASONS, type OptimizerSnapshotReason } from "@/lib/types";
+
+type RawModelState = Record<string, unknown>;
+
+export interface OptimizerModelMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (state: RawModelState) => RawModelState;
+}
+
+export interface MigratedOptimizerModelState {
+  state: OptimizerModelState;
+  fromVersion: number;
+  migrations: string[];
+}
+
+export interface OptimizerModelLoadReport {
+  status: "missing" | "loaded" | "migrated" | "unreadable";
+  fromVersion?: number;
+  version: number;
+  migrations: string[];
+  error?: string;
+  lastUpdateFailure?: OptimizerModelUpdateFailure;
+  loadedAt: number;
+}
+
+export interface OptimizerModelUpdateFailure {
+  context: string;
+  error: string;
+  failedAt: number;
+}
+
+export interface LoadedOptimizerModelState {
+  state: OptimizerModelState;
+  report: OptimizerModelLoadReport;
+}
+
+export class OptimizerModelMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OptimizerModelMigrationError";
+  }
+}
+
+export interface OptimizerSnapshotInfo {
+  id: string;
+  runCount: number;
+  savedAt: number;
+  reason: OptimizerSnapshotReason;
+}
+
+export class OptimizerModelUnreadableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OptimizerModelUnreadableError";
+  }
+}
+
+export class OptimizerSnapshotNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OptimizerSnapshotNotFoundError";
+  }
+}
+
+export class OptimizerSnapshotUnreadableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OptimizerSnapshotUnreadableError";
+  }
+}
 
 const MODEL_DIR = path.join(process.cwd(), "data");
 const MODEL_PATH = path.join(MODEL_DIR, "optimizer-state.json");
 const TEMP_MODEL_PATH = path.join(MODEL_DIR, "optimizer-state.tmp.json");
+const LOCK_PATH = path.join(MODEL_DIR, "optimizer-state.lock");
+const SNAPSHOT_DIR = path.join(MODEL_DIR, "optimizer-snapshots");
+const MAX_SNAPSHOTS = 30;
+// Snapshot ids are `<savedAt>-<runCount>-<reason>`, so listing the directory is enough to describe them.
+const SNAPSHOT_ID_PATTERN = new RegExp(`^(\\d+)-(\\d+)-(${OPTIMIZER_SNAPSHOT_REASONS.join("|")})$`);
 
-export async function loadOptimizerModelState(): Promise<OptimizerModelState> {
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10_000;
+// A lock this old was left behind by a process that died mid-update.
+const STALE_LOCK_MS = 30_000;
+
+const ARM_RECORD_KEYS = ["styleBandit", "randomnessBandit", "mutationBandit", "tokenStats"] as const;
+
+function isRecord(value: unknown): value is RawModelState {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mapArmRecords(state: RawModelState, mapArm: (arm: RawModelState) => RawModelState): RawModelState {
+  const next = { ...state };
+  for (const key of ARM_RECORD_KEYS) {
+    const record = state[key];
+    if (isRecord(record)) {
+      next[key] = Object.fromEntries(
+        Object.entries(record).map(([arm, stats]) => [arm, isRecord(stats) ? mapArm(stats) : stats]),
+      );
+    }
+  }
+
+  return next;
+}
+
+/** Ordered upgrades of the persisted model; add one per change to its shape and bump OPTIMIZER_MODEL_VERSION. */
+export const OPTIMIZER_MODEL_MIGRATIONS: readonly OptimizerModelMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "add Beta posteriors to arm stats",
+    migrate: (state) => ({
+      ...mapArmRecords(state, (arm) =>
+        typeof arm.plays === "number" && typeof arm.reward === "number"
+          ? { ...arm, ...createArmStatsFromTotals(arm.plays, arm.reward) }
+          : arm,
+      ),
+      version: 2,
+    }),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: "add per-context statistics; existing statistics become the global prior",
+    migrate: (state) => ({ ...state, contexts: {}, version: 3 }),
+  },
+];
+
+/** Upgrades a persisted model step by step to the current version. Files without a version are version 1. */
+export function migrateOptimizerModelState(source: unknown): MigratedOptimizerModelState {
+  if (!isRecord(source)) {
+    throw new OptimizerModelMigrationError("Optimizer model must be a JSON object.");
+  }
+
+  const fromVersion = source.version ?? 1;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new OptimizerModelMigrationError(`Unknown optimizer model version: ${JSON.stringify(source.version)}.`);
+  }
+
+  if (fromVersion > OPTIMIZER_MODEL_VERSION) {
+    throw new OptimizerModelMigrationError(
+      `Optimizer model version ${fromVersion} is newer than the supported version ${OPTIMIZER_MODEL_VERSION}.`,
+    );
+  }
+
+  let state = source;
+  const migrations: string[] = [];
+
+  for (let version = fromVersion; version < OPTIMIZER_MODEL_VERSION; ) {
+    const migration = OPTIMIZER_MODEL_MIGRATIONS.find((candidate) => candidate.from === version);
+    if (!migration) {
+      throw new OptimizerModelMigrationError(`No migration from optimizer model version ${version}.`);
+    }
+
+    state = migration.migrate(state);
+    version = migration.to;
+    migrations.push(`v${migration.from}->v${migration.to}: ${migration.description}`);
+  }
+
+  return {
+    state: sanitizeOptimizerModelState(state),
+    fromVersion,
+    migrations,
+  };
+}
+
+async function writeFileAtomically(filePath: string, tempPath: string, payload: string): Promise<void> {
   try {
-    const raw = await readFile(MODEL_PATH, "utf8");
-    const parsed = JSON.parse(raw) as unknown;
-    return sanitizeOptimizerModelState(parsed);
+    await writeFile(tempPath, payload, "utf8");
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function parseSnapshotId(id: string): OptimizerSnapshotInfo | null {
+  const match = SNAPSHOT_ID_PATTERN.exec(id);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    id,
+    savedAt: Number(match[1]),
+    runCount: Number(match[2]),
+    reason: match[3] as OptimizerSnapshotReason,
+  };
+}
+
+export async function listOptimizerSnapshots(): Promise<OptimizerSnapshotInfo[]> {
+  let files: string[];
+  try {
+    files = await readdir(SNAPSHOT_DIR);
   } catch {
-    return createDefaultOptimizerModelState();
+    return [];
   }
+
+  return files
+    .flatMap((file) => {
+      const snapshot = file.endsWith(".json") ? parseSnapshotId(file.slice(0, -".json".length)) : null;
+      return snapshot ? [snapshot] : [];
+    })
+    .sort((a, b) => b.savedAt - a.savedAt);
 }
 
-export async function saveOptimizerModelState(state: OptimizerModelState): Promise<void> {
+async function recordOptimizerSnapshot(state: OptimizerModelState, reason: OptimizerSnapshotReason): Promise<void> {
+  // Strictly increasing timestamps keep the history ordered even for saves within the same millisecond.
+  const [latest] = await listOptimizerSnapshots();
+  const savedAt = Math.max(Date.now(), (latest?.savedAt ?? 0) + 1);
+  const id = `${savedAt}-${state.runCount}-${reason}`;
+  const snapshotPath = path.join(SNAPSHOT_DIR, `${id}.json`);
+
+  await mkdir(SNAPSHOT_DIR, { recursive: true });
+  await writeFileAtomically(snapshotPath, `${snapshotPath}.tmp`, JSON.stringify(state));
+
+  const expired = (await listOptimizerSnapshots()).slice(MAX_SNAPSHOTS);
+  await Promise.all(expired.map((snapshot) => rm(path.join(SNAPSHOT_DIR, `${snapshot.id}.json`), { force: true })));
+}
+
+let modelUpdateQueue: Promise<unknown> = Promise.resolve();
+// Runs that finished while their learning could not be saved; kept for the load report until the process restarts.
+let lastUpdateFailure: OptimizerModelUpdateFailure | undefined;
+
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  const lockedAt = await stat(lockPath).then((lock) => lock.mtimeMs, () => Date.now());
+  return Date.now() - lockedAt > STALE_LOCK_MS;
+}
+
+/**
+ * Takes a stale lock out of the way with an atomic rename, so two processes cannot both clear it. If another
+ * process replaced it with a fresh lock in between, the fresh one is put back instead of being removed.
+ */
+async function clearStaleLock(token: string): Promise<void> {
+  const stalePath = `${LOCK_PATH}.stale-${token}`;
   try {
-    await mkdir(MODEL_DIR, { recursive: true });
-    const payload = JSON.stringify(sanitizeOptimizerModelState(state), null, 2);
-    await writeFile(TEMP_MODEL_PATH, payload, "utf8");
-    await rename(TEMP_MODEL_PATH, MODEL_PATH);
+    await rename(LOCK_PATH, stalePath);
   } catch {
+    return;
+  }
+
+  if (!(await isStaleLock(stalePath))) {
+    await link(stalePath, LOCK_PATH).catch(() => undefined);
+  }
+  await rm(stalePath, { force: true });
+}
+
+async function acquireModelLock(): Promise<string> {
+  const token = `${process.pid}-${randomUUID()}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  await mkdir(MODEL_DIR, { recursive: true });
+
+  for (;;) {
     try {
-      await rm(TEMP_MODEL_PATH, { force: true });
-    } catch {
-      // Ignore cleanup errors to keep job execution non-fatal.
+      await writeFile(LOCK_PATH, token, { encoding: "utf8", flag: "wx" });
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
     }
+
+    if (await isStaleLock(LOCK_PATH)) {
+      await clearStaleLock(token);
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for another optimizer model update to finish.");
+    }
+
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+/** Removes the lock only while it still holds this update's token; a lock taken over as stale is not ours. */
+async function releaseModelLock(token: string): Promise<void> {
+  const owner = await readFile(LOCK_PATH, "utf8").catch(() => undefined);
+  if (owner === token) {
+    await rm(LOCK_PATH, { force: true });
+  }
+}
+
+/**
+ * Runs read-modify-write updates of the model one at a time: queued within this process,
+ * and under a lock file against other processes sharing the data directory.
+ */
+function withModelUpdateLock<T>(update: () => Promise<T>): Promise<T> {
+  const run = modelUpdateQueue.then(async () => {
+    const token = await acquireModelLock();
+    try {
+      return await update();
+    } finally {
+      await releaseModelLock(token);
+    }
+  });
+  modelUpdateQueue = run.catch(() => undefined);
+  return run;
+}
+
+/** Replaces the live model and keeps a copy in the snapshot history so the change can be rolled back. */
+async function writeOptimizerModelState(
+  state: unknown,
+  reason: OptimizerSnapshotReason,
+): Promise<OptimizerModelState> {
+  const sanitized = sanitizeOptimizerModelState(state);
+
+  await mkdir(MODEL_DIR, { recursive: true });
+  await writeFileAtomically(MODEL_PATH, TEMP_MODEL_PATH, JSON.stringify(sanitized, null, 2));
+  await recordOptimizerSnapshot(sanitized, reason);
+
+  return sanitized;
+}
+
+/** Keeps the pre-migration file once per source version, since the next save overwrites it. */
+async function backupBeforeMigration(raw: string, fromVersion: number): Promise<string | undefined> {
+  const backupPath = path.join(MODEL_DIR, `optimizer-state.v${fromVersion}.backup.json`);
+  try {
+    await writeFile(backupPath, raw, { encoding: "utf8", flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      return undefined;
+    }
+  }
+
+  return backupPath;
+}
+
+/** Moves an unreadable model aside so the next save cannot overwrite what may still be recoverable by hand. */
+async function backupUnreadableModel(): Promise<string | undefined> {
+  const backupPath = path.join(MODEL_DIR, `optimizer-state.unreadable-${Date.now()}.json`);
+  try {
+    await rename(MODEL_PATH, backupPath);
+    return backupPath;
+  } catch {
+    return undefined;
   }
 }
 
+async function readOptimizerModelFile(): Promise<LoadedOptimizerModelState & { raw?: string }> {
+  const loadedAt = Date.now();
+  let raw: string;
+
+  try {
+    raw = await readFile(MODEL_PATH, "utf8");
+  } catch (error) {
+    const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+    const report: OptimizerModelLoadReport = {
+      status: missing ? "missing" : "unreadable",
+      version: OPTIMIZER_MODEL_VERSION,
+      migrations: [],
+      error: missing ? undefined : (error as Error).message,
+      loadedAt,
+    };
+    return { state: createDefaultOptimizerModelState(), report };
+  }
+
+  try {
+    const { state, fromVersion, migrations } = migrateOptimizerModelState(JSON.parse(raw) as unknown);
+    const report: OptimizerModelLoadReport = {
+      status: migrations.length > 0 ? "migrated" : "loaded",
+      fromVersion,
+      version: state.version,
+      migrations,
+      loadedAt,
+    };
+    return { state, report, raw };
+  } catch (error) {
+    const report: OptimizerModelLoadReport = {
+      status: "unreadable",
+      version: OPTIMIZER_MODEL_VERSION,
+      migrations: [],
+      error: error instanceof Error ? error.message : "Unreadable optimizer model.",
+      loadedAt,
+    };
+    return { state: createDefaultOptimizerModelState(), report, raw };
+  }
+}
+
+/** Reads the live model without touching the file; backups are only taken by updates that would overwrite it. */
+export async function loadOptimizerModelStateWithReport(): Promise<LoadedOptimizerModelState> {
+  const { state, report } = await readOptimizerModelFile();
+  return { state, report: lastUpdateFailure ? { ...report, lastUpdateFailure } : report };
+}
+
+export async function loadOptimizerModelState(): Promise<OptimizerModelState> {
+  return (await readOptimizerModelFile()).state;
+}
+
+/**
+ * Loads the live model for an update, first keeping a copy of whatever the write would destroy: the file
+ * before migration, or an unreadable file moved aside. Throws rather than overwrite a file it could not keep.
+ */
+async function loadOptimizerModelStateForUpdate(): Promise<OptimizerModelState> {
+  const { state, report, raw } = await readOptimizerModelFile();
+  if (report.status !== "migrated" && report.status !== "unreadable") {
+    return state;
+  }
+
+  const backupPath =
+    raw === undefined
+      ? undefined
+      : report.status === "migrated"
+        ? await backupBeforeMigration(raw, report.fromVersion ?? 1)
+        : await backupUnreadableModel();
+
+  if (!backupPath) {
+    const cause = report.error ?? "backup failed";
+    throw new OptimizerModelUnreadableError(`Optimizer model could not be backed up (${cause}); it was not overwritten.`);
+  }
+
+  return state;
+}
+
+function replaceOptimizerModelState(
+  state: OptimizerModelState,
+  reason: OptimizerSnapshotReason,
+): Promise<OptimizerModelState> {
+  return withModelUpdateLock(async () => {
+    await loadOptimizerModelStateForUpdate();
+    return writeOptimizerModelState(state, reason);
+  });
+}
+
+/**
+ * Adds a finished search's learning to the latest saved model, so searches running in parallel all count.
+ * Failures do not fail the search; the learning is dropped and the failure shows up in the load report.
+ */
+export async function saveOptimizerModelDelta(delta: OptimizerModelDelta): Promise<void> {
+  try {
+    await withModelUpdateLock(async () => {
+      const state = await loadOptimizerModelStateForUpdate();
+      await writeOptimizerModelState(mergeOptimizerModelDelta(state, delta), "run");
+    });
+  } catch (error) {
+    lastUpdateFailure = {
+      context: delta.context,
+      error: error instanceof Error ? error.message : "Optimizer model update failed.",
+      failedAt: Date.now(),
+    };
+  }
+}
+
+export async function loadOptimizerSnapshot(id: string): Promise<OptimizerModelState> {
+  const notFound = new OptimizerSnapshotNotFoundError(`Optimizer snapshot "${id}" was not found.`);
+  if (!parseSnapshotId(id)) {
+    throw notFound;
+  }
+
+  let raw: string;
+  try {
+    raw = await readFile(path.join(SNAPSHOT_DIR, `${id}.json`), "utf8");
+  } catch {
+    throw notFound;
+  }
+
+  try {
+    return migrateOptimizerModelState(JSON.parse(raw) as unknown).state;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "unreadable";
+    throw new OptimizerSnapshotUnreadableError(`Optimizer snapshot "${id}" cannot be restored: ${reason}`);
+  }
+}
+
+export async function importOptimizerModelState(state: unknown): Promise<OptimizerModelState> {
+  return replaceOptimizerModelState(migrateOptimizerModelState(state).state, "import");
+}
+
+export function resetOptimizerModelState(): Promise<OptimizerModelState> {
+  return replaceOptimizerModelState(createDefaultOptimizerModelState(), "reset");
+}
+
+export async function rollbackOptimizerModelState(snapshotId: string): Promise<OptimizerModelState> {
+  return replaceOptimizerModelState(await loadOptimizerSnapshot(snapshotId), "rollback");
+}
+
 export function getOptimizerModelPath(): string {
   return MODEL_PATH;
 }
+
+export function getOptimizerSnapshotDir(): string {
+  return SNAPSHOT_DIR;
+}
@@ -0,0 +1,95 @@
+import { averageReward, type ArmStats, type BanditRecord } from "@/lib/search/bandit";
+import {
+  POSITIVE_TOKEN_REWARD,
+  WEAK_TOKEN_REWARD,
+  type OptimizerModelState,
+  type OptimizerStats,
+} from "@/lib/search/optimizer";
+
+export interface ArmSummary {
+  arm: string;
+  plays: number;
+  averageReward: number | null;
+}
+
+export interface TokenSummary {
+  token: string;
+  plays: number;
+  averageReward: number;
+}
+
+export interface OptimizerStatsSummary {
+  runCount: number;
+  updatedAt: string;
+  bandits: {
+    style: ArmSummary[];
+    randomness: ArmSummary[];
+    mutationIntensity: ArmSummary[];
+  };
+  tokenCount: number;
+  topTokens: TokenSummary[];
+  weakTokens: TokenSummary[];
+}
+
+export interface OptimizerModelSummary extends OptimizerStatsSummary {
+  version: number;
+  contexts: Record<string, OptimizerStatsSummary>;
+}
+
+const MAX_LISTED_TOKENS = 10;
+
+function round4(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function summarizeBandit(bandit: BanditRecord<string>): ArmSummary[] {
+  return Object.entries(bandit)
+    .map(([arm, stats]) => ({
+      arm,
+      plays: stats.plays,
+      averageReward: stats.plays > 0 ? round4(averageReward(stats)) : null,
+    }))
+    .sort((a, b) => (b.averageReward ?? -1) - (a.averageReward ?? -1) || b.plays - a.plays);
+}
+
+function summarizeTokens(tokenStats: Record<string, ArmStats>): Pick<OptimizerStatsSummary, "topTokens" | "weakTokens"> {
+  const played = Object.entries(tokenStats)
+    .filter(([, stats]) => stats.plays > 0)
+    .map(([token, stats]) => ({ token, plays: stats.plays, averageReward: round4(averageReward(stats)) }));
+
+  return {
+    topTokens: played
+      .filter((entry) => entry.averageReward >= POSITIVE_TOKEN_REWARD)
+      .sort((a, b) => b.averageReward - a.averageReward || b.plays - a.plays)
+      .slice(0, MAX_LISTED_TOKENS),
+    weakTokens: played
+      .filter((entry) => entry.averageReward <= WEAK_TOKEN_REWARD)
+      .sort((a, b) => a.averageReward - b.averageReward || b.plays - a.plays)
+      .slice(0, MAX_LISTED_TOKENS),
+  };
+}
+
+function summarizeStats(stats: OptimizerStats): OptimizerStatsSummary {
+  return {
+    runCount: stats.runCount,
+    updatedAt: new Date(stats.updatedAt).toISOString(),
+    bandits: {
+      style: summarizeBandit(stats.styleBandit),
+      randomness: summarizeBandit(stats.randomnessBandit),
+      mutationIntensity: summarizeBandit(stats.mutationBandit),
+    },
+    tokenCount: Object.keys(stats.tokenStats).length,
+    ...summarizeTokens(stats.tokenStats),
+  };
+}
+
+/** Readable view of the learned model: arm averages best-first and the tokens the optimizer favours or avoids. */
+export function summarizeOptimizerModel(model: OptimizerModelState): OptimizerModelSummary {
+  return {
+    version: model.version,
+    ...summarizeStats(model),
+    contexts: Object.fromEntries(
+      Object.entries(model.contexts).map(([context, stats]) => [context, summarizeStats(stats)]),
+    ),
+  };
+}
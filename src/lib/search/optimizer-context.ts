@@ -0,0 +1,57 @@
+import clusterList from "@/lib/search/keyword-clusters.json";
+import { tokenizeForLearning } from "@/lib/search/scoring";
+import type { SearchRequest } from "@/lib/types";
+
+export const FALLBACK_OPTIMIZER_CONTEXT = "general";
+
+const MAX_CONTEXT_KEYWORDS = 3;
+
+const clusterByKeyword = new Map(
+  Object.entries(clusterList.clusters).flatMap(([cluster, keywords]) =>
+    keywords.map((keyword): [string, string] => [keyword, cluster]),
+  ),
+);
+
+function toContextSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+}
+
+/**
+ * Key of the optimizer model a search learns in: the explicit `industry`, else the keyword cluster
+ * its keywords fall into (`dog grooming` -> `industry:pets`), else its leading keywords.
+ */
+export function resolveOptimizerContext(input: Pick<SearchRequest, "keywords" | "description" | "industry">): string {
+  const industry = toContextSlug(input.industry ?? "");
+  if (industry) {
+    return `industry:${industry}`;
+  }
+
+  const keywordTokens = tokenizeForLearning(input.keywords);
+  const votes = new Map<string, number>();
+  // Keywords count double so a long description cannot outvote them.
+  const weighted: Array<[string[], number]> = [
+    [keywordTokens, 2],
+    [tokenizeForLearning(input.description ?? ""), 1],
+  ];
+
+  for (const [tokens, weight] of weighted) {
+    for (const token of tokens) {
+      const cluster = clusterByKeyword.get(token);
+      if (cluster) {
+        votes.set(cluster, (votes.get(cluster) ?? 0) + weight);
+      }
+    }
+  }
+
+  const [cluster] = Array.from(votes.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0] ?? [];
+  if (cluster) {
+    return `industry:${cluster}`;
+  }
+
+  const leading = Array.from(new Set(keywordTokens)).sort().slice(0, MAX_CONTEXT_KEYWORDS);
+  return leading.length > 0 ? `keywords:${leading.join("+")}` : FALLBACK_OPTIMIZER_CONTEXT;
+}
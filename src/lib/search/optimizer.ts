@@ -8,17 +8,22 @@ import {
   type StyleValue,
   type TuningStep,
 } from "@/lib/types";
+import { createSeededRandom, type SeededRandom } from "@/lib/random";
+import {
+  addArmStats,
+  averageReward,
+  createArmStats,
+  createArmStatsFromTotals,
+  getBanditStrategy,
+  updateArmStats,
+  type ArmStats,
+  type BanditRecord,
+  type BanditStrategy,
+} from "@/lib/search/bandit";
+import { resolveOptimizerContext } from "@/lib/search/optimizer-context";
 import { tokenizeForLearning } from "@/lib/search/scoring";
 
-interface ArmStats {
-  plays: number;
-  reward: number;
-}
-
-type BanditRecord<TArm extends string> = Record<TArm, ArmStats>;
-
-export interface OptimizerModelState {
-  version: number;
+export interface OptimizerStats {
   runCount: number;
   updatedAt: number;
   styleBandit: BanditRecord<StyleValue>;
@@ -27,6 +32,26 @@ export interface OptimizerModelState {
   tokenStats: Record<string, ArmStats>;
 }
 
+/** The top-level stats learn from every search; minus a context's own runs they are its prior in `contexts`. */
+export interface OptimizerModelState extends OptimizerStats {
+  version: number;
+  contexts: Record<string, OptimizerStats>;
+}
+
+/**
+ * What one search learned, as increments on top of whatever model the store holds when the search finishes.
+ * Arm entries use `ArmStats` as deltas: `alpha`/`beta` are posterior increments, not a posterior.
+ */
+export interface OptimizerModelDelta {
+  context: string;
+  styleBandit: Partial<BanditRecord<StyleValue>>;
+  randomnessBandit: Partial<BanditRecord<RandomnessValue>>;
+  mutationBandit: Partial<BanditRecord<MutationIntensityValue>>;
+  tokenStats: Record<string, ArmStats>;
+}
+
+type RewardTarget = Pick<OptimizerModelDelta, "styleBandit" | "randomnessBandit" | "mutationBandit" | "tokenStats">;
+
 export interface LoopPlan {
   loop: number;
   sourceLoop?: number;
@@ -36,25 +61,41 @@ export interface LoopPlan {
   input: SearchRequest;
 }
 
-const MODEL_VERSION = 1;
+export interface OptimizerCheckpoint {
+  model: OptimizerModelState;
+  /** Missing in checkpoints written before deltas; learning from their earlier loops is not saved. */
+  delta?: OptimizerModelDelta;
+  /** Set once the delta has been merged into the saved model, so a resumed job does not merge it again. */
+  deltaSaved?: boolean;
+  seed: number;
+  randomState: number;
+  currentKeywordTokens: string[];
+  currentDescriptionTokens: string[];
+  bestLoop?: number;
+  bestReward: number | null;
+}
+
+export const OPTIMIZER_MODEL_VERSION = 3;
+// Tokens at or above the positive reward are mixed into prompts; tokens at or below the weak reward are dropped first.
+export const POSITIVE_TOKEN_REWARD = 0.58;
+export const WEAK_TOKEN_REWARD = 0.4;
 const STYLE_EPSILON = 0.24;
 const RANDOMNESS_EPSILON = 0.24;
 const MUTATION_EPSILON = 0.28;
-
-function createArmStats(): ArmStats {
-  return {
-    plays: 0,
-    reward: 0,
-  };
-}
+const MAX_GLOBAL_TOKENS = 300;
+const MAX_CONTEXT_TOKENS = 100;
+const MAX_CONTEXTS = 50;
+const MAX_CONTEXT_KEY_LENGTH = 64;
+// A global arm counts as at most this many plays in a context, and that weight halves every few context runs.
+const PRIOR_PLAYS = 6;
+const PRIOR_HALF_LIFE_RUNS = 2;
 
 function createBanditRecord<TArm extends string>(arms: readonly TArm[]): BanditRecord<TArm> {
   return Object.fromEntries(arms.map((arm) => [arm, createArmStats()])) as BanditRecord<TArm>;
 }
 
-export function createDefaultOptimizerModelState(): OptimizerModelState {
+function createOptimizerStats(): OptimizerStats {
   return {
-    version: MODEL_VERSION,
     runCount: 0,
     updatedAt: Date.now(),
     styleBandit: createBanditRecord(STYLE_VALUES),
@@ -64,12 +105,30 @@ export function createDefaultOptimizerModelState(): OptimizerModelState {
   };
 }
 
-function averageReward(stats: ArmStats): number {
-  if (stats.plays === 0) {
-    return 0.55;
-  }
+export function createDefaultOptimizerModelState(): OptimizerModelState {
+  return {
+    version: OPTIMIZER_MODEL_VERSION,
+    ...createOptimizerStats(),
+    contexts: {},
+  };
+}
 
-  return stats.reward / stats.plays;
+function createEmptyModelDelta(context: string): OptimizerModelDelta {
+  return {
+    context,
+    styleBandit: {},
+    randomnessBandit: {},
+    mutationBandit: {},
+    tokenStats: {},
+  };
+}
+
+function createArmDelta(): ArmStats {
+  return { plays: 0, reward: 0, alpha: 0, beta: 0 };
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
 }
 
 function sanitizeArmStats(value: unknown): ArmStats {
@@ -83,10 +142,15 @@ function sanitizeArmStats(value: unknown): ArmStats {
     typeof value.reward === "number" &&
     Number.isFinite(value.reward)
   ) {
-    return {
-      plays: Math.floor(value.plays),
-      reward: value.reward,
-    };
+    const plays = Math.floor(value.plays);
+    const reward = value.reward;
+
+    if ("alpha" in value && "beta" in value && isPositiveNumber(value.alpha) && isPositiveNumber(value.beta)) {
+      return { plays, reward, alpha: value.alpha, beta: value.beta };
+    }
+
+    // A damaged posterior is rebuilt from the totals rather than dropping the arm's history.
+    return createArmStatsFromTotals(plays, reward);
   }
 
   return createArmStats();
@@ -109,8 +173,8 @@ function sanitizeBanditRecord<TArm extends string>(
   return defaults;
 }
 
-export function sanitizeOptimizerModelState(source: unknown): OptimizerModelState {
-  const defaults = createDefaultOptimizerModelState();
+function sanitizeOptimizerStats(source: unknown): OptimizerStats {
+  const defaults = createOptimizerStats();
   if (!source || typeof source !== "object") {
     return defaults;
   }
@@ -130,12 +194,11 @@ export function sanitizeOptimizerModelState(source: unknown): OptimizerModelStat
   }
 
   return {
-    version: MODEL_VERSION,
     runCount: typeof root.runCount === "number" && Number.isFinite(root.runCount) ? root.runCount : 0,
     updatedAt:
       typeof root.updatedAt === "number" && Number.isFinite(root.updatedAt)
         ? root.updatedAt
-        : Date.now(),
+        : defaults.updatedAt,
     styleBandit: sanitizeBanditRecord(root.styleBandit, STYLE_VALUES),
     randomnessBandit: sanitizeBanditRecord(root.randomnessBandit, RANDOMNESS_VALUES),
     mutationBandit: sanitizeBanditRecord(root.mutationBandit, MUTATION_INTENSITY_VALUES),
@@ -143,52 +206,181 @@ export function sanitizeOptimizerModelState(source: unknown): OptimizerModelStat
   };
 }
 
-function mulberry32(seed: number): () => number {
-  let state = seed >>> 0;
+function trimTokenStats(tokenStats: Record<string, ArmStats>, limit: number): Record<string, ArmStats> {
+  return Object.fromEntries(
+    Object.entries(tokenStats)
+      .sort((a, b) => averageReward(b[1]) - averageReward(a[1]))
+      .slice(0, limit),
+  );
+}
+
+/** Keeps the most recently used contexts. */
+function trimContexts(contexts: Record<string, OptimizerStats>): Record<string, OptimizerStats> {
+  return Object.fromEntries(
+    Object.entries(contexts)
+      .sort((a, b) => b[1].updatedAt - a[1].updatedAt)
+      .slice(0, MAX_CONTEXTS),
+  );
+}
+
+/**
+ * Validates a state in the current shape, replacing invalid fields with defaults.
+ * Older model versions must go through `migrateOptimizerModelState` in the model store first.
+ */
+export function sanitizeOptimizerModelState(source: unknown): OptimizerModelState {
+  const root = source && typeof source === "object" ? (source as Record<string, unknown>) : {};
+  const contexts: Record<string, OptimizerStats> = {};
 
-  return () => {
-    state += 0x6d2b79f5;
-    let next = state;
-    next = Math.imul(next ^ (next >>> 15), next | 1);
-    next ^= next + Math.imul(next ^ (next >>> 7), next | 61);
-    return ((next ^ (next >>> 14)) >>> 0) / 4294967296;
+  if (root.contexts && typeof root.contexts === "object") {
+    for (const [key, value] of Object.entries(root.contexts as Record<string, unknown>)) {
+      if (key && key.length <= MAX_CONTEXT_KEY_LENGTH && value && typeof value === "object") {
+        contexts[key] = sanitizeOptimizerStats(value);
+      }
+    }
+  }
+
+  return {
+    version: OPTIMIZER_MODEL_VERSION,
+    ...sanitizeOptimizerStats(source),
+    contexts: trimContexts(contexts),
   };
 }
 
-function chooseArm<TArm extends string>(
+function addBanditDelta<TArm extends string>(
   bandit: BanditRecord<TArm>,
+  delta: Partial<BanditRecord<TArm>>,
   arms: readonly TArm[],
-  epsilon: number,
-  random: () => number,
-): TArm {
-  if (random() < epsilon) {
-    return arms[Math.floor(random() * arms.length)] as TArm;
+): void {
+  for (const arm of arms) {
+    const armDelta = delta[arm];
+    if (armDelta) {
+      addArmStats(bandit[arm], armDelta);
+    }
   }
+}
 
-  let best = arms[0] as TArm;
-  let bestScore = Number.NEGATIVE_INFINITY;
+/**
+ * Adds one finished search to a model: its arm and token deltas go to the global stats and its context,
+ * and both count one more run. Merging into the latest saved model keeps parallel searches from losing updates.
+ */
+export function mergeOptimizerModelDelta(
+  state: OptimizerModelState,
+  delta: OptimizerModelDelta,
+  now: number = Date.now(),
+): OptimizerModelState {
+  const model = structuredClone(state);
+  const context = (model.contexts[delta.context] ??= createOptimizerStats());
+
+  for (const stats of [model, context]) {
+    addBanditDelta(stats.styleBandit, delta.styleBandit, STYLE_VALUES);
+    addBanditDelta(stats.randomnessBandit, delta.randomnessBandit, RANDOMNESS_VALUES);
+    addBanditDelta(stats.mutationBandit, delta.mutationBandit, MUTATION_INTENSITY_VALUES);
+
+    for (const [token, tokenDelta] of Object.entries(delta.tokenStats)) {
+      stats.tokenStats[token] ??= createArmStats();
+      addArmStats(stats.tokenStats[token], tokenDelta);
+    }
 
-  for (const arm of arms) {
-    const stats = bandit[arm];
-    const score = averageReward(stats);
+    stats.runCount += 1;
+    stats.updatedAt = now;
+  }
 
-    if (score > bestScore) {
-      best = arm;
-      bestScore = score;
-      continue;
-    }
+  model.tokenStats = trimTokenStats(model.tokenStats, MAX_GLOBAL_TOKENS);
+  context.tokenStats = trimTokenStats(context.tokenStats, MAX_CONTEXT_TOKENS);
+  model.contexts = trimContexts(model.contexts);
+  return model;
+}
 
-    if (score === bestScore && random() > 0.5) {
-      best = arm;
-    }
+function recordArmRewards(
+  target: RewardTarget,
+  plan: LoopPlan,
+  tokens: string[],
+  reward: number,
+  createArm: () => ArmStats,
+): void {
+  updateArmStats((target.styleBandit[plan.selectedStyle] ??= createArm()), reward);
+  updateArmStats((target.randomnessBandit[plan.selectedRandomness] ??= createArm()), reward);
+  updateArmStats((target.mutationBandit[plan.selectedMutationIntensity] ??= createArm()), reward);
+
+  for (const token of tokens) {
+    updateArmStats((target.tokenStats[token] ??= createArm()), reward);
+  }
+}
+
+function subtractArmStats(total: ArmStats, own: ArmStats | undefined): ArmStats {
+  if (!own) {
+    return total;
+  }
+
+  return {
+    plays: Math.max(0, total.plays - own.plays),
+    reward: Math.max(0, total.reward - own.reward),
+    alpha: Math.max(1, total.alpha - (own.alpha - 1)),
+    beta: Math.max(1, total.beta - (own.beta - 1)),
+  };
+}
+
+function subtractArmRecord<TArm extends string>(
+  total: Record<TArm, ArmStats>,
+  own: Partial<Record<TArm, ArmStats>>,
+): Record<TArm, ArmStats> {
+  return Object.fromEntries(
+    (Object.entries(total) as [TArm, ArmStats][]).map(([arm, stats]) => [arm, subtractArmStats(stats, own[arm])]),
+  ) as Record<TArm, ArmStats>;
+}
+
+/**
+ * The global stats without a context's own runs. Every run is merged into both, so blending the full global
+ * stats into a context would count the context's own plays twice.
+ */
+export function buildContextPrior(model: OptimizerStats, context: OptimizerStats): OptimizerStats {
+  return {
+    runCount: Math.max(0, model.runCount - context.runCount),
+    updatedAt: model.updatedAt,
+    styleBandit: subtractArmRecord(model.styleBandit, context.styleBandit),
+    randomnessBandit: subtractArmRecord(model.randomnessBandit, context.randomnessBandit),
+    mutationBandit: subtractArmRecord(model.mutationBandit, context.mutationBandit),
+    tokenStats: subtractArmRecord(model.tokenStats, context.tokenStats),
+  };
+}
+
+function blendArmStats(own: ArmStats, prior: ArmStats | undefined, priorWeight: number): ArmStats {
+  if (!prior || prior.plays === 0 || priorWeight === 0) {
+    return own;
   }
 
-  return best;
+  const scale = priorWeight * Math.min(1, PRIOR_PLAYS / prior.plays);
+  return {
+    plays: own.plays + prior.plays * scale,
+    reward: own.reward + prior.reward * scale,
+    alpha: own.alpha + (prior.alpha - 1) * scale,
+    beta: own.beta + (prior.beta - 1) * scale,
+  };
+}
+
+function blendBanditRecord<TArm extends string>(
+  own: BanditRecord<TArm>,
+  prior: BanditRecord<TArm>,
+  arms: readonly TArm[],
+  priorWeight: number,
+): BanditRecord<TArm> {
+  return Object.fromEntries(
+    arms.map((arm) => [arm, blendArmStats(own[arm], prior[arm], priorWeight)]),
+  ) as BanditRecord<TArm>;
 }
 
-function updateArmStats(stats: ArmStats, reward: number): void {
-  stats.plays += 1;
-  stats.reward += reward;
+function blendTokenStats(
+  own: Record<string, ArmStats>,
+  prior: Record<string, ArmStats>,
+  priorWeight: number,
+): Record<string, ArmStats> {
+  const tokens = new Set([...Object.keys(own), ...(priorWeight > 0 ? Object.keys(prior) : [])]);
+  return Object.fromEntries(
+    Array.from(tokens).map((token) => [
+      token,
+      blendArmStats(own[token] ?? createArmStats(), prior[token], priorWeight),
+    ]),
+  );
 }
 
 function tokenizeAndLimit(input: string): string[] {
@@ -237,6 +429,12 @@ function summarizeDescription(tokens: string[], fallback: string): string {
 
 export class DomainSearchOptimizer {
   private readonly model: OptimizerModelState;
+  private readonly context: OptimizerStats;
+  private delta: OptimizerModelDelta;
+  private deltaSaved = false;
+  private readonly strategy: BanditStrategy;
+  private readonly seed: number;
+  private readonly rng: SeededRandom;
   private readonly random: () => number;
   private readonly baseInput: SearchRequest;
   private currentKeywordTokens: string[];
@@ -244,34 +442,77 @@ export class DomainSearchOptimizer {
   private bestLoop?: number;
   private bestReward = Number.NEGATIVE_INFINITY;
 
-  constructor(baseInput: SearchRequest, modelState: OptimizerModelState, seed: number = Date.now()) {
+  constructor(
+    baseInput: SearchRequest,
+    modelState: OptimizerModelState,
+    seed: number = Date.now(),
+    randomState: number = seed,
+  ) {
     this.model = sanitizeOptimizerModelState(modelState);
     this.baseInput = {
       ...baseInput,
       description: baseInput.description ?? "",
       blacklist: baseInput.blacklist ?? "",
     };
-    this.random = mulberry32(seed);
+    const contextKey = resolveOptimizerContext(this.baseInput);
+    this.context = this.model.contexts[contextKey] ??= createOptimizerStats();
+    this.delta = createEmptyModelDelta(contextKey);
+    this.strategy = getBanditStrategy(baseInput.banditStrategy);
+    this.seed = seed;
+    this.rng = createSeededRandom(randomState);
+    this.random = this.rng.next;
     this.currentKeywordTokens = tokenizeAndLimit(this.baseInput.keywords);
     this.currentDescriptionTokens = tokenizeAndLimit(this.baseInput.description ?? "");
   }
 
+  static fromCheckpoint(baseInput: SearchRequest, checkpoint: OptimizerCheckpoint): DomainSearchOptimizer {
+    const optimizer = new DomainSearchOptimizer(baseInput, checkpoint.model, checkpoint.seed, checkpoint.randomState);
+    optimizer.currentKeywordTokens = [...checkpoint.currentKeywordTokens];
+    optimizer.currentDescriptionTokens = [...checkpoint.currentDescriptionTokens];
+    optimizer.delta = checkpoint.delta ? structuredClone(checkpoint.delta) : optimizer.delta;
+    optimizer.deltaSaved = checkpoint.deltaSaved ?? false;
+    optimizer.bestLoop = checkpoint.bestLoop;
+    optimizer.bestReward = checkpoint.bestReward ?? Number.NEGATIVE_INFINITY;
+    return optimizer;
+  }
+
+  exportCheckpoint(): OptimizerCheckpoint {
+    return {
+      model: structuredClone(this.model),
+      delta: structuredClone(this.delta),
+      deltaSaved: this.deltaSaved,
+      seed: this.seed,
+      randomState: this.rng.getState(),
+      currentKeywordTokens: [...this.currentKeywordTokens],
+      currentDescriptionTokens: [...this.currentDescriptionTokens],
+      bestLoop: this.bestLoop,
+      bestReward: Number.isFinite(this.bestReward) ? this.bestReward : null,
+    };
+  }
+
   nextLoop(loop: number): LoopPlan {
-    const selectedStyle = chooseArm(this.model.styleBandit, STYLE_VALUES, STYLE_EPSILON, this.random);
-    const selectedRandomness = chooseArm(
-      this.model.randomnessBandit,
+    const random = this.random;
+    const priorWeight = 0.5 ** (this.context.runCount / PRIOR_HALF_LIFE_RUNS);
+    const { context } = this;
+    const prior = buildContextPrior(this.model, context);
+
+    const selectedStyle = this.strategy.chooseArm(
+      blendBanditRecord(context.styleBandit, prior.styleBandit, STYLE_VALUES, priorWeight),
+      STYLE_VALUES,
+      { epsilon: STYLE_EPSILON, random },
+    );
+    const selectedRandomness = this.strategy.chooseArm(
+      blendBanditRecord(context.randomnessBandit, prior.randomnessBandit, RANDOMNESS_VALUES, priorWeight),
       RANDOMNESS_VALUES,
-      RANDOMNESS_EPSILON,
-      this.random,
+      { epsilon: RANDOMNESS_EPSILON, random },
     );
-    const selectedMutationIntensity = chooseArm(
-      this.model.mutationBandit,
+    const selectedMutationIntensity = this.strategy.chooseArm(
+      blendBanditRecord(context.mutationBandit, prior.mutationBandit, MUTATION_INTENSITY_VALUES, priorWeight),
       MUTATION_INTENSITY_VALUES,
-      MUTATION_EPSILON,
-      this.random,
+      { epsilon: MUTATION_EPSILON, random },
     );
 
-    const rankedTokens = Object.entries(this.model.tokenStats)
+    const rankedTokens = Object.entries(blendTokenStats(context.tokenStats, prior.tokenStats, priorWeight))
       .map(([token, stats]) => ({
         token,
         averageReward: averageReward(stats),
@@ -279,11 +520,11 @@ export class DomainSearchOptimizer {
       .sort((a, b) => b.averageReward - a.averageReward);
 
     const positiveTokens = rankedTokens
-      .filter((entry) => entry.averageReward >= 0.58)
+      .filter((entry) => entry.averageReward >= POSITIVE_TOKEN_REWARD)
       .map((entry) => entry.token)
       .slice(0, 12);
     const weakTokens = new Set(
-      rankedTokens.filter((entry) => entry.averageReward <= 0.4).map((entry) => entry.token).slice(0, 20),
+      rankedTokens.filter((entry) => entry.averageReward <= WEAK_TOKEN_REWARD).map((entry) => entry.token).slice(0, 20),
     );
 
     const baseKeywordTokens = tokenizeAndLimit(this.baseInput.keywords);
@@ -328,18 +569,12 @@ export class DomainSearchOptimizer {
 
   recordReward(plan: LoopPlan, reward: number): TuningStep {
     const boundedReward = Number.isFinite(reward) ? Math.min(1, Math.max(0, reward)) : 0;
-    updateArmStats(this.model.styleBandit[plan.selectedStyle], boundedReward);
-    updateArmStats(this.model.randomnessBandit[plan.selectedRandomness], boundedReward);
-    updateArmStats(this.model.mutationBandit[plan.selectedMutationIntensity], boundedReward);
-
     const tokens = tokenizeAndLimit(`${plan.input.keywords} ${plan.input.description ?? ""}`);
-    for (const token of tokens) {
-      if (!this.model.tokenStats[token]) {
-        this.model.tokenStats[token] = createArmStats();
-      }
 
-      updateArmStats(this.model.tokenStats[token], boundedReward);
-    }
+    // The local model steers the remaining loops; the delta is what gets saved.
+    recordArmRewards(this.model, plan, tokens, boundedReward, createArmStats);
+    recordArmRewards(this.context, plan, tokens, boundedReward, createArmStats);
+    recordArmRewards(this.delta, plan, tokens, boundedReward, createArmDelta);
 
     if (boundedReward >= this.bestReward) {
       this.bestReward = boundedReward;
@@ -354,27 +589,17 @@ export class DomainSearchOptimizer {
       selectedStyle: plan.selectedStyle,
       selectedRandomness: plan.selectedRandomness,
       selectedMutationIntensity: plan.selectedMutationIntensity,
+      banditStrategy: this.strategy.id,
       reward: Number(boundedReward.toFixed(4)),
     };
   }
 
-  snapshotModelState(): OptimizerModelState {
-    const trimmedTokenStats = Object.entries(this.model.tokenStats)
-      .sort((a, b) => averageReward(b[1]) - averageReward(a[1]))
-      .slice(0, 300);
-
-    this.model.tokenStats = Object.fromEntries(trimmedTokenStats);
-    this.model.runCount += 1;
-    this.model.updatedAt = Date.now();
+  /** The learning of this run, or `undefined` once it has been saved. */
+  exportModelDelta(): OptimizerModelDelta | undefined {
+    return this.deltaSaved ? undefined : structuredClone(this.delta);
+  }
 
-    return {
-      version: MODEL_VERSION,
-      runCount: this.model.runCount,
-      updatedAt: this.model.updatedAt,
-      styleBandit: this.model.styleBandit,
-      randomnessBandit: this.model.randomnessBandit,
-      mutationBandit: this.model.mutationBandit,
-      tokenStats: this.model.tokenStats,
-    };
+  markModelDeltaSaved(): void {
+    this.deltaSaved = true;
   }
 }
@@ -0,0 +1,179 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { scoringProfileSchema, type ScoringProfileInput } from "@/lib/search/schema";
+import {
+  BUILT_IN_SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE,
+  DEFAULT_SCORING_PROFILE_ID,
+} from "@/lib/search/scoring-profiles";
+import type { ScoringProfile } from "@/lib/types";
+
+export class ScoringProfileNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoringProfileNotFoundError";
+  }
+}
+
+export class ScoringProfileConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoringProfileConflictError";
+  }
+}
+
+export class ScoringProfileStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoringProfileStoreError";
+  }
+}
+
+function resolveProfileStorePath(): string {
+  return process.env.SCORING_PROFILES_PATH || path.join(process.cwd(), "data", "scoring-profiles.json");
+}
+
+function findBuiltInProfile(id: string): ScoringProfile | undefined {
+  return BUILT_IN_SCORING_PROFILES.find((profile) => profile.id === id);
+}
+
+/** Profiles saved before a market component existed score it with weight 0, so their weights still sum to 1. */
+function withAddedMarketComponents(entry: unknown): unknown {
+  if (!entry || typeof entry !== "object" || !("marketWeights" in entry) || typeof entry.marketWeights !== "object") {
+    return entry;
+  }
+
+  return { ...entry, marketWeights: { englishLikeness: 0, wordSegmentation: 0, ...entry.marketWeights } };
+}
+
+/**
+ * Reads the stored entries as they are. Only a missing file means "no profiles"; anything else unreadable
+ * throws, so an update never rewrites the store from a partial read.
+ */
+async function readStoredProfileEntries(): Promise<unknown[]> {
+  const storePath = resolveProfileStorePath();
+  let raw: string;
+  try {
+    raw = await readFile(storePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+
+    const reason = (error as Error).message;
+    throw new ScoringProfileStoreError(`Scoring profiles could not be read from ${storePath}: ${reason}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ScoringProfileStoreError(`Scoring profile store ${storePath} is not valid JSON; fix or remove it.`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ScoringProfileStoreError(`Scoring profile store ${storePath} must contain a JSON array.`);
+  }
+
+  return parsed;
+}
+
+function storedProfileId(entry: unknown): string | undefined {
+  return entry && typeof entry === "object" && "id" in entry && typeof entry.id === "string" ? entry.id : undefined;
+}
+
+/** Entries that no longer validate are skipped when reading but kept in the file, so they can be repaired. */
+export async function loadCustomScoringProfiles(): Promise<ScoringProfile[]> {
+  return (await readStoredProfileEntries()).flatMap((entry) => {
+    const result = scoringProfileSchema.safeParse(withAddedMarketComponents(entry));
+    return result.success && !findBuiltInProfile(result.data.id) ? [{ ...result.data, builtIn: false }] : [];
+  });
+}
+
+async function saveCustomScoringProfiles(profiles: unknown[]): Promise<void> {
+  const storePath = resolveProfileStorePath();
+  const tempPath = `${storePath}.tmp`;
+
+  await mkdir(path.dirname(storePath), { recursive: true });
+  try {
+    await writeFile(tempPath, JSON.stringify(profiles, null, 2), "utf8");
+    await rename(tempPath, storePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+let profileUpdateQueue: Promise<unknown> = Promise.resolve();
+
+/** Runs read-modify-write updates of the profile file one at a time, so concurrent saves cannot drop each other. */
+function withProfileUpdateQueue<T>(update: () => Promise<T>): Promise<T> {
+  const run = profileUpdateQueue.then(update);
+  profileUpdateQueue = run.catch(() => undefined);
+  return run;
+}
+
+export async function listScoringProfiles(): Promise<ScoringProfile[]> {
+  return [...BUILT_IN_SCORING_PROFILES, ...(await loadCustomScoringProfiles())];
+}
+
+export async function getScoringProfile(id: string = DEFAULT_SCORING_PROFILE_ID): Promise<ScoringProfile | undefined> {
+  return findBuiltInProfile(id) ?? (await loadCustomScoringProfiles()).find((profile) => profile.id === id);
+}
+
+/** Resolves a request's profile, failing loudly instead of silently scoring with the default. */
+export async function resolveScoringProfile(id?: string): Promise<ScoringProfile> {
+  if (!id) {
+    return DEFAULT_SCORING_PROFILE;
+  }
+
+  const profile = await getScoringProfile(id);
+  if (!profile) {
+    throw new ScoringProfileNotFoundError(`Scoring profile "${id}" does not exist.`);
+  }
+
+  return profile;
+}
+
+export function registerScoringProfile(input: ScoringProfileInput): Promise<ScoringProfile> {
+  return withProfileUpdateQueue(async () => {
+    const entries = await readStoredProfileEntries();
+    if (findBuiltInProfile(input.id) || entries.some((entry) => storedProfileId(entry) === input.id)) {
+      throw new ScoringProfileConflictError(`Scoring profile "${input.id}" already exists.`);
+    }
+
+    const base = await resolveScoringProfile(input.extends);
+    const profile = scoringProfileSchema.parse({
+      id: input.id,
+      name: input.name,
+      description: input.description,
+      builtIn: false,
+      marketWeights: { ...base.marketWeights, ...input.marketWeights },
+      financialWeights: { ...base.financialWeights, ...input.financialWeights },
+      blend: input.blend ?? base.blend,
+      tldModifiers: input.tldModifiers ?? base.tldModifiers,
+      defaultTldModifier: input.defaultTldModifier ?? base.defaultTldModifier,
+    });
+
+    await saveCustomScoringProfiles([...entries, profile]);
+    return profile;
+  });
+}
+
+export function deleteScoringProfile(id: string): Promise<boolean> {
+  return withProfileUpdateQueue(async () => {
+    if (findBuiltInProfile(id)) {
+      throw new ScoringProfileConflictError(`Built-in scoring profile "${id}" cannot be deleted.`);
+    }
+
+    const entries = await readStoredProfileEntries();
+    const remaining = entries.filter((entry) => storedProfileId(entry) !== id);
+    if (remaining.length === entries.length) {
+      return false;
+    }
+
+    await saveCustomScoringProfiles(remaining);
+    return true;
+  });
+}
@@ -1,33 +1,65 @@
+import { checkDomainAvailability } from "@/lib/availability/provider";
+import { findDomainHacks } from "@/lib/domain/hacks";
+import { normalizeBusinessNameToIdnLabel, toUnicodeDomain } from "@/lib/domain/idn";
 import { normalizeBusinessNameToLabel, normalizeTld } from "@/lib/domain/normalize";
 import {
-  GoDaddyApiError,
-  GoDaddyAuthError,
-  GoDaddyRateLimitError,
-  checkAvailabilityBulk,
-} from "@/lib/godaddy/client";
-import { getJob, markJobComplete, markJobFailed, markJobRunning, patchJob } from "@/lib/jobs/store";
-import { NamelixScrapeError, scrapeNamelix } from "@/lib/namelix/scraper";
-import { classifyRankedResults } from "@/lib/search/classify";
-import { loadOptimizerModelState, saveOptimizerModelState } from "@/lib/search/model-store";
+  cancelJobControl,
+  hasJobControl,
+  pauseJobControl,
+  registerJobControl,
+  releaseJobControl,
+  resumeJobControl,
+  waitWhileJobPaused,
+} from "@/lib/jobs/control";
+import { publishJobEvent } from "@/lib/jobs/events";
+import {
+  getJob,
+  listJobs,
+  markJobCancelled,
+  markJobComplete,
+  markJobFailed,
+  markJobRunning,
+  patchJob,
+} from "@/lib/jobs/store";
+import { isJobResumable } from "@/lib/jobs/view";
+import { formatConnotationFlag } from "@/lib/screening/connotations";
+import { loadTrademarkIndex } from "@/lib/screening/trademark-store";
+import type { TrademarkIndex } from "@/lib/screening/trademarks";
+import { classifyRankedResults, toDomainResult } from "@/lib/search/classify";
+import { mapErrorToJobError } from "@/lib/search/errors";
+import { loadOptimizerModelState, saveOptimizerModelDelta } from "@/lib/search/model-store";
 import { DomainSearchOptimizer } from "@/lib/search/optimizer";
-import { scoreDomainResult, scoreRewardFromRankedScores } from "@/lib/search/scoring";
+import { resolveScoringProfile } from "@/lib/search/profile-store";
+import { scoreDomainResult, scoreRewardFromRankedScores, screenLabelConnotations } from "@/lib/search/scoring";
 import { sortRankedDomains } from "@/lib/search/sort";
+import { buildLabelGroups, resolveSearchTlds, toTldOption, type LabelGroupingContext } from "@/lib/search/tld-groups";
+import { generateNameCandidates } from "@/lib/sources/registry";
 import type {
-  DomainResult,
-  JobError,
+  DomainAvailability,
   JobPhase,
+  JobStatus,
   LoopSummary,
+  NamelixLogo,
+  NameSourceId,
   RankedDomainResult,
   RawDomainResult,
+  ScoringProfile,
+  SearchCheckpoint,
+  SearchJob,
   SearchResults,
   SearchRequest,
+  ShortlistVerification,
   TuningStep,
 } from "@/lib/types";
 
 interface DomainCandidate {
   domain: string;
+  label: string;
   sourceName: string;
+  nameSource?: NameSourceId;
   isNamelixPremium: boolean;
+  domainHack?: boolean;
+  unicodeDomain?: string;
 }
 
 interface IterationResults {
@@ -46,65 +78,116 @@ interface LoopRunState {
   limitHit: boolean;
   quotaMet: boolean;
   skipReason?: string;
+  failedSources: NameSourceId[];
 }
 
 const LOOP_CONSIDERED_LIMIT = 251;
 const LOOP_MAX_STALLED_BATCHES = 3;
 const LOOP_MAX_BATCH_ATTEMPTS = 12;
+const DEFAULT_VERIFY_TOP_N = 20;
+const CANCELLABLE_STATUSES: JobStatus[] = ["queued", "running", "paused", "interrupted"];
 
 export function buildDomainCandidates(
   input: SearchRequest,
-  logos: Awaited<ReturnType<typeof scrapeNamelix>>,
+  logos: Array<NamelixLogo & { source?: NameSourceId }>,
 ) {
   const candidates: DomainCandidate[] = [];
   const invalid: RawDomainResult[] = [];
   const seenDomains = new Set<string>();
-  const normalizedTld = normalizeTld(input.tld);
+  const normalizedTlds = resolveSearchTlds(input).map((tld) => normalizeTld(tld));
 
-  if (!normalizedTld) {
+  if (normalizedTlds.some((tld) => !tld)) {
     throw new Error("Invalid TLD after normalization.");
   }
 
   for (const logo of logos) {
     const sourceName = logo.businessName;
+    const nameSource = logo.source;
     const isNamelixPremium = logo.name === "premium";
-    const label = normalizeBusinessNameToLabel(sourceName);
+    const idnLabel = input.idn ? normalizeBusinessNameToIdnLabel(sourceName) : null;
+    const label = input.idn ? (idnLabel?.ascii ?? null) : normalizeBusinessNameToLabel(sourceName);
+    const displayLength = Array.from(idnLabel?.unicode ?? label ?? "").length;
 
     if (!label) {
       invalid.push({
         domain: `${sourceName} (invalid)`,
         sourceName,
+        nameSource,
         isNamelixPremium,
         available: false,
         definitive: false,
-        reason: "Unable to normalize business name into a valid domain label.",
+        reason: input.idn
+          ? "Unable to normalize business name into a valid IDNA label."
+          : "Unable to normalize business name into a valid domain label.",
       });
       continue;
     }
 
-    if (label.length > input.maxLength) {
+    if (displayLength > input.maxLength) {
       invalid.push({
         domain: `${sourceName} (invalid)`,
         sourceName,
+        nameSource,
         isNamelixPremium,
         available: false,
         definitive: false,
-        reason: `Normalized label length ${label.length} exceeds maxLength ${input.maxLength}.`,
+        reason: `Normalized label length ${displayLength} exceeds maxLength ${input.maxLength}.`,
       });
       continue;
     }
 
-    const domain = `${label}.${normalizedTld}`;
-    if (seenDomains.has(domain)) {
+    const connotation =
+      input.connotationScreening === "exclude" ? screenLabelConnotations(idnLabel?.unicode ?? label, input)[0] : undefined;
+    if (connotation) {
+      invalid.push({
+        domain: `${sourceName} (invalid)`,
+        sourceName,
+        nameSource,
+        isNamelixPremium,
+        available: false,
+        definitive: false,
+        reason: `Excluded by connotation screening: ${formatConnotationFlag(connotation)}.`,
+      });
       continue;
     }
 
-    seenDomains.add(domain);
-    candidates.push({
-      domain,
-      sourceName,
-      isNamelixPremium,
-    });
+    for (const tld of normalizedTlds) {
+      const domain = `${label}.${tld}`;
+      if (seenDomains.has(domain)) {
+        continue;
+      }
+
+      seenDomains.add(domain);
+      candidates.push({
+        domain,
+        label,
+        sourceName,
+        nameSource,
+        isNamelixPremium,
+        unicodeDomain: toUnicodeDomain(domain),
+      });
+    }
+
+    if (!input.domainHacks || label.startsWith("xn--")) {
+      continue;
+    }
+
+    for (const hack of findDomainHacks(label)) {
+      if (seenDomains.has(hack.domain)) {
+        continue;
+      }
+
+      seenDomains.add(hack.domain);
+      candidates.push({
+        domain: hack.domain,
+        label,
+        sourceName,
+        nameSource,
+        isNamelixPremium,
+        domainHack: true,
+        unicodeDomain: toUnicodeDomain(hack.domain),
+      });
+    }
   }
 
   return {
@@ -126,25 +209,6 @@ function parseDomainLabel(domain: string): string | null {
   return domain.slice(0, index);
 }
 
-function microsToPrice(micros?: number): number | undefined {
-  if (typeof micros !== "number") {
-    return undefined;
-  }
-
-  return Number((micros / 1_000_000).toFixed(2));
-}
-
-function toDomainResult(item: RawDomainResult, yearlyBudget: number): DomainResult {
-  const price = microsToPrice(item.priceMicros);
-  const overBudgetFlag = item.available && typeof price === "number" ? price > yearlyBudget : false;
-
-  return {
-    ...item,
-    price,
-    overBudget: overBudgetFlag,
-  };
-}
-
 function shouldReplaceByScore(existing: RankedDomainResult, next: RankedDomainResult): boolean {
   if (next.overallScore !== existing.overallScore) {
     return next.overallScore > existing.overallScore;
@@ -196,9 +260,155 @@ function buildResultsSnapshot(
   aggregate: Map<string, RankedDomainResult>,
   loopSummaries: LoopSummary[],
   tuningHistory: TuningStep[],
+  grouping?: LabelGroupingContext,
+  verification?: ShortlistVerification,
 ): SearchResults {
   const allRanked = sortRankedDomains(Array.from(aggregate.values()), "marketability");
-  return classifyRankedResults(allRanked, loopSummaries, tuningHistory);
+  return {
+    ...classifyRankedResults(allRanked, loopSummaries, tuningHistory),
+    verification,
+    labelGroups: grouping ? buildLabelGroups(allRanked, grouping) : undefined,
+  };
+}
+
+async function verifyShortlist(
+  aggregate: Map<string, RankedDomainResult>,
+  input: SearchRequest,
+  profile: ScoringProfile,
+  trademarks: TrademarkIndex | null,
+  signal?: AbortSignal,
+): Promise<ShortlistVerification | undefined> {
+  const topN = input.verifyTopN ?? DEFAULT_VERIFY_TOP_N;
+  if (topN <= 0) {
+    return undefined;
+  }
+
+  const shortlist = sortRankedDomains(
+    Array.from(aggregate.values()).filter((row) => row.available && !row.overBudget),
+    "marketability",
+  ).slice(0, topN);
+
+  if (shortlist.length === 0) {
+    return undefined;
+  }
+
+  let availabilityMap: Map<string, DomainAvailability>;
+  try {
+    availabilityMap = await checkDomainAvailability(
+      shortlist.map((row) => row.domain),
+      input,
+      { checkType: "FULL", signal },
+    );
+  } catch (error) {
+    signal?.throwIfAborted();
+    return {
+      checkType: "FULL",
+      requested: shortlist.length,
+      confirmed: 0,
+      demoted: 0,
+      completedAt: Date.now(),
+      error: mapErrorToJobError(error).message,
+    };
+  }
+
+  const verifiedAt = Date.now();
+  let confirmed = 0;
+  let demoted = 0;
+
+  for (const row of shortlist) {
+    const availability = availabilityMap.get(row.domain.toLowerCase());
+    const raw: RawDomainResult = {
+      domain: row.domain,
+      sourceName: row.sourceName,
+      nameSource: row.nameSource,
+      isNamelixPremium: row.isNamelixPremium,
+      available: Boolean(availability?.available),
+      definitive: Boolean(availability?.definitive),
+      priceMicros: availability?.priceMicros ?? row.priceMicros,
+      currency: availability?.currency ?? row.currency,
+      period: availability?.period ?? row.period,
+      reason: availability?.reason,
+      providerVerdicts: availability?.verdicts,
+      conflict: availability?.conflict,
+      checkType: "FULL",
+      verifiedAt,
+      domainHack: row.domainHack,
+      unicodeDomain: row.unicodeDomain,
+    };
+
+    const priced = toDomainResult(raw, input.yearlyBudget);
+    if (!priced.available) {
+      priced.reason = `Unavailable on FULL confirmation check${raw.reason ? `: ${raw.reason}` : "."}`;
+      demoted += 1;
+    } else if (priced.overBudget) {
+      priced.reason = `Over budget on FULL confirmation check (price ${priced.price?.toFixed(2)}).`;
+      demoted += 1;
+    } else {
+      confirmed += 1;
+    }
+
+    aggregate.set(row.domain.toLowerCase(), {
+      ...row,
+      ...priced,
+      ...scoreDomainResult(priced, input, profile, trademarks),
+    });
+  }
+
+  return {
+    checkType: "FULL",
+    requested: shortlist.length,
+    confirmed,
+    demoted,
+    completedAt: verifiedAt,
+  };
+}
+
+function buildCheckpoint(
+  completedLoop: number,
+  aggregate: Map<string, RankedDomainResult>,
+  loopSummaries: LoopSummary[],
+  tuningHistory: TuningStep[],
+  optimizer: DomainSearchOptimizer,
+  grouping?: LabelGroupingContext,
+): SearchCheckpoint {
+  return {
+    completedLoop,
+    aggregate: Array.from(aggregate.values()),
+    loopSummaries: [...loopSummaries],
+    tuningHistory: [...tuningHistory],
+    tldOptions: grouping ? Array.from(grouping.options.values()) : undefined,
+    optimizer: optimizer.exportCheckpoint(),
+    savedAt: Date.now(),
+  };
+}
+
+function recordTldOptions(
+  grouping: LabelGroupingContext,
+  candidates: DomainCandidate[],
+  availabilityMap: Map<string, DomainAvailability>,
+  qualifiedLabels: Set<string>,
+): void {
+  for (const candidate of candidates) {
+    const availability = availabilityMap.get(candidate.domain);
+    if (!availability || !qualifiedLabels.has(candidate.label)) {
+      continue;
+    }
+
+    const priced = toDomainResult(
+      {
+        domain: candidate.domain,
+        sourceName: candidate.sourceName,
+        isNamelixPremium: candidate.isNamelixPremium,
+        available: availability.available,
+        definitive: availability.definitive,
+        priceMicros: availability.priceMicros,
+        currency: availability.currency,
+        reason: availability.reason,
+      },
+      grouping.yearlyBudget,
+    );
+    grouping.options.set(candidate.domain, toTldOption(priced));
+  }
 }
 
 function buildBatchMaxNames(requiredRemaining: number, configuredMaxNames: number): number {
@@ -221,6 +431,8 @@ function scoreIterationResults(
   rawResults: RawDomainResult[],
   input: SearchRequest,
   loop: number,
+  profile: ScoringProfile,
+  trademarks: TrademarkIndex | null,
 ): IterationResults {
   const ranked: RankedDomainResult[] = [];
 
@@ -230,12 +442,12 @@ function scoreIterationResults(
       continue;
     }
 
-    const label = parseDomainLabel(result.domain);
-    if (!label || label.length > input.maxLength) {
+    const label = parseDomainLabel(result.unicodeDomain ?? result.domain);
+    if (!label || Array.from(label).length > input.maxLength) {
       continue;
     }
 
-    const metrics = scoreDomainResult(result, input);
+    const metrics = scoreDomainResult(result, input, profile, trademarks);
     ranked.push({
       ...result,
       ...metrics,
@@ -285,6 +497,7 @@ function buildLoopSummary(
     skipped: !state.quotaMet,
     limitHit: state.limitHit,
     skipReason: state.skipReason,
+    failedSources: state.failedSources.length > 0 ? state.failedSources : undefined,
     consideredCount: state.consideredCount,
     batchCount: state.batchCount,
     discoveredCount: scored.ranked.length,
@@ -296,48 +509,6 @@ function buildLoopSummary(
   };
 }
 
-function mapErrorToJobError(error: unknown): JobError {
-  if (error instanceof NamelixScrapeError) {
-    return {
-      code: "NAMELIX_SCRAPE_FAILED",
-      message: error.message,
-    };
-  }
-
-  if (error instanceof GoDaddyAuthError) {
-    return {
-      code: "GODADDY_AUTH_FAILED",
-      message: error.message,
-    };
-  }
-
-  if (error instanceof GoDaddyRateLimitError) {
-    return {
-      code: "GODADDY_RATE_LIMIT",
-      message: error.message,
-    };
-  }
-
-  if (error instanceof GoDaddyApiError) {
-    return {
-      code: "GODADDY_API_ERROR",
-      message: error.message,
-    };
-  }
-
-  if (error instanceof Error) {
-    return {
-      code: "INTERNAL_ERROR",
-      message: error.message,
-    };
-  }
-
-  return {
-    code: "INTERNAL_ERROR",
-    message: "Unexpected unknown error occurred during search execution.",
-  };
-}
-
 function getLivePhase(batchCount: number): JobPhase {
   return batchCount === 0 ? "namelix" : "godaddy";
 }
@@ -350,32 +521,53 @@ export async function runSearchJob(jobId: string): Promise<void> {
 
   const baseInput = initialJob.input;
   const totalLoops = baseInput.loopCount;
-  const aggregate = new Map<string, RankedDomainResult>();
-  const loopSummaries: LoopSummary[] = [];
-  const tuningHistory: TuningStep[] = [];
+  const checkpoint = initialJob.checkpoint;
+  const aggregate = new Map<string, RankedDomainResult>(
+    (checkpoint?.aggregate ?? []).map((row) => [row.domain.toLowerCase(), row]),
+  );
+  const loopSummaries: LoopSummary[] = [...(checkpoint?.loopSummaries ?? [])];
+  const tuningHistory: TuningStep[] = [...(checkpoint?.tuningHistory ?? [])];
+  const startLoop = (checkpoint?.completedLoop ?? 0) + 1;
+  const searchTlds = resolveSearchTlds(baseInput);
+  const signal = registerJobControl(jobId);
 
   try {
-    markJobRunning(jobId, "looping", 5);
+    markJobRunning(jobId, "looping", checkpoint ? calculateLoopProgress(totalLoops, startLoop, 0) : 5);
+    const profile = await resolveScoringProfile(baseInput.scoringProfile);
+    const trademarks = await loadTrademarkIndex();
+    const grouping: LabelGroupingContext | undefined =
+      searchTlds.length > 1
+        ? {
+            tlds: searchTlds,
+            yearlyBudget: baseInput.yearlyBudget,
+            options: new Map((checkpoint?.tldOptions ?? []).map((option) => [option.domain, option])),
+            profile,
+          }
+        : undefined;
     patchJob(jobId, {
-      currentLoop: 0,
+      currentLoop: startLoop - 1,
       totalLoops,
-      results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory),
+      results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory, grouping),
     });
 
-    const modelState = await loadOptimizerModelState();
-    const optimizer = new DomainSearchOptimizer(baseInput, modelState);
+    const optimizer = checkpoint
+      ? DomainSearchOptimizer.fromCheckpoint(baseInput, checkpoint.optimizer)
+      : new DomainSearchOptimizer(baseInput, await loadOptimizerModelState());
 
-    for (let loop = 1; loop <= totalLoops; loop += 1) {
+    for (let loop = startLoop; loop <= totalLoops; loop += 1) {
+      await waitWhileJobPaused(jobId);
       const plan = optimizer.nextLoop(loop);
       const seenDomains = new Set<string>();
       const loopRawAvailable: RawDomainResult[] = [];
+      const qualifiedLabels = new Set<string>();
       let consideredCount = 0;
       let batchCount = 0;
       let limitHit = false;
       let stalledBatches = 0;
       let skipReason: string | undefined;
+      const failedSources = new Set<NameSourceId>();
 
-      while (loopRawAvailable.length < plan.input.maxNames) {
+      while (qualifiedLabels.size < plan.input.maxNames) {
         if (consideredCount >= LOOP_CONSIDERED_LIMIT) {
           limitHit = true;
           skipReason = `Considered-name cap of ${LOOP_CONSIDERED_LIMIT} reached.`;
@@ -387,23 +579,24 @@ export async function runSearchJob(jobId: string): Promise<void> {
           break;
         }
 
-        const remaining = plan.input.maxNames - loopRawAvailable.length;
-        const loopFractionPreScrape = 0.05 + 0.8 * (loopRawAvailable.length / Math.max(1, plan.input.maxNames));
+        await waitWhileJobPaused(jobId);
+        const remaining = plan.input.maxNames - qualifiedLabels.size;
+        const loopFractionPreScrape = 0.05 + 0.8 * (qualifiedLabels.size / Math.max(1, plan.input.maxNames));
         patchJob(jobId, {
-          status: "running",
           phase: "namelix",
           progress: calculateLoopProgress(totalLoops, loop, loopFractionPreScrape),
           currentLoop: loop,
           totalLoops,
-          results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory),
+          results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory, grouping),
         });
 
         const batchInput: SearchRequest = {
           ...plan.input,
           maxNames: buildBatchMaxNames(remaining, plan.input.maxNames),
         };
-        const logos = await scrapeNamelix(batchInput);
-        const { candidates } = buildDomainCandidates(plan.input, logos);
+        const generated = await generateNameCandidates(batchInput, { signal });
+        generated.failures.forEach((failure) => failedSources.add(failure.source));
+        const { candidates } = buildDomainCandidates(plan.input, generated.candidates);
 
         const freshCandidates = candidates.filter((candidate) => {
           const key = candidate.domain.toLowerCase();
@@ -415,7 +608,7 @@ export async function runSearchJob(jobId: string): Promise<void> {
           return true;
         });
 
-        consideredCount += freshCandidates.length;
+        consideredCount += new Set(freshCandidates.map((candidate) => candidate.label)).size;
         batchCount += 1;
 
         if (consideredCount >= LOOP_CONSIDERED_LIMIT) {
@@ -423,22 +616,30 @@ export async function runSearchJob(jobId: string): Promise<void> {
           skipReason = `Considered-name cap of ${LOOP_CONSIDERED_LIMIT} reached.`;
         }
 
+        const batchQualifiedDomains: string[] = [];
+
         if (freshCandidates.length === 0) {
           stalledBatches += 1;
         } else {
           patchJob(jobId, {
-            status: "running",
             phase: "godaddy",
             progress: calculateLoopProgress(totalLoops, loop, loopFractionPreScrape + 0.04),
             currentLoop: loop,
             totalLoops,
-            results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory),
+            results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory, grouping),
           });
 
-          const availabilityMap = await checkAvailabilityBulk(freshCandidates.map((candidate) => candidate.domain));
-          let batchQualifiedCount = 0;
+          const availabilityMap = await checkDomainAvailability(
+            freshCandidates.map((candidate) => candidate.domain),
+            plan.input,
+            { signal },
+          );
 
           for (const candidate of freshCandidates) {
+            if (qualifiedLabels.size >= plan.input.maxNames && !qualifiedLabels.has(candidate.label)) {
+              break;
+            }
+
             const availability = availabilityMap.get(candidate.domain);
             if (!availability?.available) {
               continue;
@@ -447,6 +648,7 @@ export async function runSearchJob(jobId: string): Promise<void> {
             const rawAvailable: RawDomainResult = {
               domain: candidate.domain,
               sourceName: candidate.sourceName,
+              nameSource: candidate.nameSource,
               isNamelixPremium: candidate.isNamelixPremium,
               available: true,
               definitive: Boolean(availability.definitive),
@@ -454,6 +656,12 @@ export async function runSearchJob(jobId: string): Promise<void> {
               currency: availability.currency,
               period: availability.period,
               reason: availability.reason,
+              providerVerdicts: availability.verdicts,
+              conflict: availability.conflict,
+              checkType: availability.checkType ?? "FAST",
+              verifiedAt: Date.now(),
+              domainHack: candidate.domainHack,
+              unicodeDomain: candidate.unicodeDomain,
             };
 
             const priced = toDomainResult(rawAvailable, plan.input.yearlyBudget);
@@ -461,15 +669,16 @@ export async function runSearchJob(jobId: string): Promise<void> {
               continue;
             }
 
-            batchQualifiedCount += 1;
+            batchQualifiedDomains.push(rawAvailable.domain.toLowerCase());
             loopRawAvailable.push(rawAvailable);
+            qualifiedLabels.add(candidate.label);
+          }
 
-            if (loopRawAvailable.length >= plan.input.maxNames) {
-              break;
-            }
+          if (grouping) {
+            recordTldOptions(grouping, freshCandidates, availabilityMap, qualifiedLabels);
           }
 
-          stalledBatches = batchQualifiedCount === 0 ? stalledBatches + 1 : 0;
+          stalledBatches = batchQualifiedDomains.length === 0 ? stalledBatches + 1 : 0;
         }
 
         const liveState: LoopRunState = {
@@ -477,10 +686,11 @@ export async function runSearchJob(jobId: string): Promise<void> {
           consideredCount,
           batchCount,
           limitHit,
-          quotaMet: loopRawAvailable.length >= plan.input.maxNames,
+          quotaMet: qualifiedLabels.size >= plan.input.maxNames,
           skipReason,
+          failedSources: Array.from(failedSources),
         };
-        const liveScored = scoreIterationResults(loopRawAvailable, plan.input, loop);
+        const liveScored = scoreIterationResults(loopRawAvailable, plan.input, loop, profile, trademarks);
         const previewAggregate = new Map(aggregate);
         mergeRowsIntoAggregate(previewAggregate, liveScored.ranked, loop);
         const liveSummary = buildLoopSummary(
@@ -496,16 +706,31 @@ export async function runSearchJob(jobId: string): Promise<void> {
         );
 
         patchJob(jobId, {
-          status: "running",
           phase: getLivePhase(batchCount),
           progress: calculateLoopProgress(
             totalLoops,
             loop,
-            0.12 + 0.82 * (loopRawAvailable.length / Math.max(1, plan.input.maxNames)),
+            0.12 + 0.82 * (qualifiedLabels.size / Math.max(1, plan.input.maxNames)),
           ),
           currentLoop: loop,
           totalLoops,
-          results: buildResultsSnapshot(previewAggregate, [...loopSummaries, liveSummary], tuningHistory),
+          results: buildResultsSnapshot(previewAggregate, [...loopSummaries, liveSummary], tuningHistory, grouping),
+        });
+
+        if (batchQualifiedDomains.length > 0) {
+          publishJobEvent(jobId, "domains", {
+            loop,
+            batch: batchCount,
+            domains: batchQualifiedDomains.flatMap((key) => previewAggregate.get(key) ?? []),
+          });
+        }
+
+        publishJobEvent(jobId, "batch", {
+          loop,
+          batch: batchCount,
+          freshCount: freshCandidates.length,
+          qualifiedCount: batchQualifiedDomains.length,
+          summary: liveSummary,
         });
 
         if (limitHit) {
@@ -523,11 +748,12 @@ export async function runSearchJob(jobId: string): Promise<void> {
         consideredCount,
         batchCount,
         limitHit,
-        quotaMet: loopRawAvailable.length >= plan.input.maxNames,
+        quotaMet: qualifiedLabels.size >= plan.input.maxNames,
         skipReason,
+        failedSources: Array.from(failedSources),
       };
 
-      const scored = scoreIterationResults(loopRawAvailable, plan.input, loop);
+      const scored = scoreIterationResults(loopRawAvailable, plan.input, loop, profile, trademarks);
       mergeRowsIntoAggregate(aggregate, scored.ranked, loop);
 
       const reward = scoreRewardFromRankedScores(scored.ranked.map((row) => row.overallScore));
@@ -548,21 +774,110 @@ export async function runSearchJob(jobId: string): Promise<void> {
       loopSummaries.push(loopSummary);
 
       patchJob(jobId, {
-        status: "running",
         phase: "looping",
         progress: calculateLoopProgress(totalLoops, loop, 1),
         currentLoop: loop,
         totalLoops,
-        results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory),
+        results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory, grouping),
+        checkpoint: buildCheckpoint(loop, aggregate, loopSummaries, tuningHistory, optimizer, grouping),
       });
+      publishJobEvent(jobId, "tuning", { step: tuningStep });
+      publishJobEvent(jobId, "loop", { summary: loopSummary });
     }
 
-    const finalModelState = optimizer.snapshotModelState();
-    await saveOptimizerModelState(finalModelState);
+    await waitWhileJobPaused(jobId);
+    const modelDelta = optimizer.exportModelDelta();
+    if (modelDelta) {
+      await saveOptimizerModelDelta(modelDelta);
+      optimizer.markModelDeltaSaved();
+    }
+    // A cancel that lands while the model is saved must not be overwritten by the finalize patch.
+    signal.throwIfAborted();
+
+    patchJob(jobId, {
+      phase: "finalize",
+      progress: 96,
+      results: buildResultsSnapshot(aggregate, loopSummaries, tuningHistory, grouping),
+      checkpoint: buildCheckpoint(totalLoops, aggregate, loopSummaries, tuningHistory, optimizer, grouping),
+    });
+    const verification = await verifyShortlist(aggregate, baseInput, profile, trademarks, signal);
+    signal.throwIfAborted();
 
-    const results = buildResultsSnapshot(aggregate, loopSummaries, tuningHistory);
+    const results = buildResultsSnapshot(aggregate, loopSummaries, tuningHistory, grouping, verification);
     markJobComplete(jobId, results);
   } catch (error) {
-    markJobFailed(jobId, mapErrorToJobError(error));
+    if (signal.aborted) {
+      markJobCancelled(jobId);
+    } else {
+      markJobFailed(jobId, mapErrorToJobError(error));
+    }
+  } finally {
+    releaseJobControl(jobId, signal);
+  }
+}
+
+export function launchSearchJob(jobId: string): void {
+  void runSearchJob(jobId).catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : "Unexpected background failure.";
+    markJobFailed(jobId, {
+      code: "BACKGROUND_EXECUTION_ERROR",
+      message,
+    });
+  });
+}
+
+export function pauseSearchJob(jobId: string): SearchJob | undefined {
+  const job = getJob(jobId);
+  if (!job || (job.status !== "queued" && job.status !== "running") || !pauseJobControl(jobId)) {
+    return undefined;
+  }
+
+  return patchJob(jobId, { status: "paused" });
+}
+
+export function cancelSearchJob(jobId: string): SearchJob | undefined {
+  const job = getJob(jobId);
+  if (!job || !CANCELLABLE_STATUSES.includes(job.status)) {
+    return undefined;
   }
+
+  cancelJobControl(jobId);
+  return markJobCancelled(jobId);
+}
+
+export function resumeSearchJob(jobId: string): SearchJob | undefined {
+  const job = getJob(jobId);
+  if (!job || !isJobResumable(job)) {
+    return undefined;
+  }
+
+  if (job.status === "paused" && resumeJobControl(jobId)) {
+    return patchJob(jobId, { status: "running" });
+  }
+
+  if (hasJobControl(jobId)) {
+    return undefined;
+  }
+
+  const queued = patchJob(jobId, {
+    status: "queued",
+    phase: null,
+    error: undefined,
+    completedAt: undefined,
+  });
+
+  launchSearchJob(jobId);
+  return queued;
+}
+
+export function resumeInterruptedJobs(): string[] {
+  const resumed: string[] = [];
+
+  for (const job of listJobs()) {
+    if (job.status === "interrupted" && resumeSearchJob(job.id)) {
+      resumed.push(job.id);
+    }
+  }
+
+  return resumed;
 }
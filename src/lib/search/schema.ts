@@ -1,25 +1,307 @@
 import { z } from "zod";
 
-import { RANDOMNESS_VALUES, STYLE_VALUES } from "@/lib/types";
-
-export const searchRequestSchema = z.object({
-  keywords: z.string().trim().min(2).max(200),
-  description: z.string().trim().max(500).optional().default(""),
-  style: z.enum(STYLE_VALUES),
-  randomness: z.enum(RANDOMNESS_VALUES),
-  blacklist: z.string().trim().max(500).optional().default(""),
-  maxLength: z.number().int().min(5).max(25),
-  tld: z
-    .string()
-    .trim()
-    .min(2)
-    .max(24)
-    .regex(/^\.?[a-zA-Z0-9-]+$/)
-    .transform((value) => value.replace(/^\./, "").toLowerCase()),
-  maxNames: z.number().int().min(1).max(250).default(100),
-  yearlyBudget: z.number().positive().max(100_000),
-  loopCount: z.number().int().min(1).max(25).default(10),
-});
+import { normalizeTld } from "@/lib/domain/normalize";
+import { EXPORT_COLUMN_VALUES, EXPORT_FORMAT_VALUES } from "@/lib/export/columns";
+import { DEFAULT_BANDIT_STRATEGY } from "@/lib/search/bandit";
+import { OPTIMIZER_MODEL_VERSION } from "@/lib/search/optimizer";
+import { DOMAIN_SORT_MODES } from "@/lib/search/sort";
+import {
+  AVAILABILITY_PROVIDER_VALUES,
+  AVAILABILITY_QUORUM_VALUES,
+  BANDIT_STRATEGY_VALUES,
+  CONNOTATION_SCREENING_MODES,
+  FINANCIAL_COMPONENT_VALUES,
+  JOB_STATUS_VALUES,
+  MARKET_BONUS_COMPONENT_VALUES,
+  MARKET_COMPONENT_VALUES,
+  NAME_SOURCE_VALUES,
+  RANDOMNESS_VALUES,
+  SCREENING_LANGUAGE_VALUES,
+  STYLE_VALUES,
+  TRADEMARK_RISK_VALUES,
+} from "@/lib/types";
+
+const tldSchema = z
+  .string()
+  .trim()
+  .min(2)
+  .max(63)
+  .regex(/^\.?[\p{L}\p{M}\p{N}-]+$/u)
+  .transform((value, ctx) => {
+    const tld = normalizeTld(value);
+    if (!tld) {
+      ctx.addIssue({ code: "custom", message: "Not a valid TLD." });
+      return z.NEVER;
+    }
+
+    return tld;
+  });
+
+const tldListSchema = z
+  .array(tldSchema)
+  .min(1)
+  .max(10)
+  .transform((values) => Array.from(new Set(values)))
+  .optional();
+
+const availabilityProvidersSchema = z
+  .array(z.enum(AVAILABILITY_PROVIDER_VALUES))
+  .min(1)
+  .max(AVAILABILITY_PROVIDER_VALUES.length)
+  .transform((values) => Array.from(new Set(values)))
+  .optional();
+
+const scoringProfileIdSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9][a-z0-9-]{1,47}$/);
+
+const niceClassesSchema = z
+  .array(z.number().int().min(1).max(45))
+  .max(45)
+  .transform((values) => Array.from(new Set(values)).sort((a, b) => a - b))
+  .optional();
+
+const marketLanguagesSchema = z
+  .array(z.enum(SCREENING_LANGUAGE_VALUES))
+  .min(1)
+  .max(SCREENING_LANGUAGE_VALUES.length)
+  .default(["en"])
+  .transform((values) => Array.from(new Set(values)));
+
+const connotationAllowlistSchema = z
+  .array(z.string().trim().toLowerCase().min(2).max(63))
+  .max(100)
+  .optional();
+
+// `tld` stays the primary extension for single-TLD consumers; bare checks default to .com.
+function mergeTlds<T extends { tld?: string; tlds?: string[] }>({ tld, tlds, ...rest }: T) {
+  const merged = Array.from(new Set([...(tld ? [tld] : []), ...(tlds ?? [])]));
+  return { ...rest, tld: merged[0] ?? "com", tlds: merged };
+}
+
+export const searchRequestSchema = z
+  .object({
+    keywords: z.string().trim().min(2).max(200),
+    description: z.string().trim().max(500).optional().default(""),
+    industry: z.string().trim().min(2).max(48).optional(),
+    style: z.enum(STYLE_VALUES),
+    randomness: z.enum(RANDOMNESS_VALUES),
+    blacklist: z.string().trim().max(500).optional().default(""),
+    maxLength: z.number().int().min(5).max(25),
+    tld: tldSchema.optional(),
+    tlds: tldListSchema,
+    domainHacks: z.boolean().default(false),
+    idn: z.boolean().default(false),
+    scoringProfile: scoringProfileIdSchema.optional(),
+    niceClasses: niceClassesSchema,
+    marketLanguages: marketLanguagesSchema,
+    connotationScreening: z.enum(CONNOTATION_SCREENING_MODES).default("penalize"),
+    connotationAllowlist: connotationAllowlistSchema,
+    maxNames: z.number().int().min(1).max(250).default(100),
+    yearlyBudget: z.number().positive().max(100_000),
+    loopCount: z.number().int().min(1).max(25).default(10),
+    banditStrategy: z.enum(BANDIT_STRATEGY_VALUES).default(DEFAULT_BANDIT_STRATEGY),
+    nameSources: z
+      .array(z.enum(NAME_SOURCE_VALUES))
+      .min(1)
+      .max(NAME_SOURCE_VALUES.length)
+      .optional()
+      .default(["namelix"])
+      .transform((values) => Array.from(new Set(values))),
+    availabilityProviders: availabilityProvidersSchema,
+    availabilityQuorum: z.enum(AVAILABILITY_QUORUM_VALUES).optional(),
+    verifyTopN: z.number().int().min(0).max(100).default(20),
+  })
+  .refine((value) => value.tld !== undefined || value.tlds !== undefined, {
+    message: "Provide tld or tlds.",
+    path: ["tlds"],
+  })
+  .transform(mergeTlds);
 
 export type SearchRequestInput = z.input<typeof searchRequestSchema>;
 export type SearchRequestParsed = z.output<typeof searchRequestSchema>;
+
+export const domainCheckRequestSchema = z
+  .object({
+    names: z.array(z.string().trim().min(1).max(253)).min(1).max(500),
+    keywords: z.string().trim().max(200).optional().default(""),
+    description: z.string().trim().max(500).optional().default(""),
+    maxLength: z.number().int().min(1).max(63).default(63),
+    tld: tldSchema.optional(),
+    tlds: tldListSchema,
+    domainHacks: z.boolean().default(false),
+    idn: z.boolean().default(false),
+    scoringProfile: scoringProfileIdSchema.optional(),
+    niceClasses: niceClassesSchema,
+    marketLanguages: marketLanguagesSchema,
+    connotationScreening: z.enum(CONNOTATION_SCREENING_MODES).default("penalize"),
+    connotationAllowlist: connotationAllowlistSchema,
+    yearlyBudget: z.number().positive().max(100_000),
+    availabilityProviders: availabilityProvidersSchema,
+    availabilityQuorum: z.enum(AVAILABILITY_QUORUM_VALUES).optional(),
+  })
+  .transform(mergeTlds);
+
+export type DomainCheckRequest = z.output<typeof domainCheckRequestSchema>;
+
+// Empty query parameters (`?status=&keyword=`) mean "no filter", as if they had been left out.
+function dropEmptyParams(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).filter(([, item]) => !(typeof item === "string" && item.trim() === "")),
+  );
+}
+
+export const searchListQuerySchema = z.preprocess(
+  dropEmptyParams,
+  z.object({
+    status: z
+      .string()
+      .transform((value) =>
+        value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean),
+      )
+      .pipe(z.array(z.enum(JOB_STATUS_VALUES)))
+      .transform((statuses) => (statuses.length > 0 ? statuses : undefined))
+      .optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    keyword: z.string().trim().min(1).max(200).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().trim().min(1).optional(),
+  }),
+);
+
+export type SearchListQuery = z.output<typeof searchListQuerySchema>;
+
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMAT_VALUES).default("csv"),
+  columns: z
+    .string()
+    .transform((value) =>
+      Array.from(
+        new Set(
+          value
+            .split(",")
+            .map((item) => item.trim())
+            .filter(Boolean),
+        ),
+      ),
+    )
+    .pipe(z.array(z.enum(EXPORT_COLUMN_VALUES)).min(1))
+    .optional()
+    .transform((value) => value ?? [...EXPORT_COLUMN_VALUES]),
+  sort: z.enum(DOMAIN_SORT_MODES).default("marketability"),
+  trademarkRisk: z
+    .string()
+    .transform((value) =>
+      Array.from(
+        new Set(
+          value
+            .split(",")
+            .map((item) => item.trim())
+            .filter(Boolean),
+        ),
+      ),
+    )
+    .pipe(z.array(z.enum(TRADEMARK_RISK_VALUES)).min(1))
+    .optional(),
+});
+
+export type ExportQuery = z.output<typeof exportQuerySchema>;
+
+export const optimizerModelQuerySchema = z.object({
+  view: z.enum(["summary", "raw"]).default("summary"),
+});
+
+const armStatsSchema = z.looseObject({
+  plays: z.number().int().min(0),
+  reward: z.number().min(0),
+  alpha: z.number().positive().optional(),
+  beta: z.number().positive().optional(),
+});
+
+const optimizerStatsSchema = z.looseObject({
+  runCount: z.number().int().min(0),
+  styleBandit: z.record(z.string(), armStatsSchema),
+  randomnessBandit: z.record(z.string(), armStatsSchema),
+  mutationBandit: z.record(z.string(), armStatsSchema),
+  tokenStats: z.record(z.string(), armStatsSchema),
+});
+
+/** An exported model (`GET /api/optimizer/model?view=raw`) from this or an older model version. */
+export const optimizerModelImportSchema = optimizerStatsSchema.extend({
+  version: z.number().int().min(1).max(OPTIMIZER_MODEL_VERSION).default(1),
+  contexts: z.record(z.string(), optimizerStatsSchema).optional(),
+});
+
+const MARKET_WEIGHT_KEYS = [...MARKET_COMPONENT_VALUES, ...MARKET_BONUS_COMPONENT_VALUES] as const;
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+const weightSchema = z.number().min(0).max(1);
+const tldModifierSchema = z.number().min(0).max(1.5);
+const tldModifiersSchema = z.record(z.string().regex(/^[a-z0-9-]{2,24}$/), tldModifierSchema);
+
+function sumWeights(weights: Record<string, number>, keys: readonly string[]): number {
+  return keys.reduce((total, key) => total + (weights[key] ?? 0), 0);
+}
+
+export const scoringProfileSchema = z
+  .object({
+    id: scoringProfileIdSchema,
+    name: z.string().trim().min(1).max(80),
+    description: z.string().trim().max(300).optional(),
+    builtIn: z.boolean(),
+    marketWeights: z.record(z.enum(MARKET_WEIGHT_KEYS), weightSchema),
+    financialWeights: z.record(z.enum(FINANCIAL_COMPONENT_VALUES), weightSchema),
+    blend: z.object({
+      financial: weightSchema,
+      marketability: weightSchema,
+    }),
+    tldModifiers: tldModifiersSchema,
+    defaultTldModifier: tldModifierSchema,
+  })
+  .superRefine((profile, ctx) => {
+    // Core weights must sum to 1 so every profile scores on the same 0-100 scale.
+    const checks: Array<[string, number]> = [
+      ["marketWeights", sumWeights(profile.marketWeights, MARKET_COMPONENT_VALUES)],
+      ["financialWeights", sumWeights(profile.financialWeights, FINANCIAL_COMPONENT_VALUES)],
+      ["blend", profile.blend.financial + profile.blend.marketability],
+    ];
+
+    for (const [path, total] of checks) {
+      if (Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE) {
+        ctx.addIssue({
+          code: "custom",
+          path: [path],
+          message: `Weights must sum to 1 (got ${Number(total.toFixed(4))}).`,
+        });
+      }
+    }
+  });
+
+export const scoringProfileInputSchema = z.object({
+  id: scoringProfileIdSchema,
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(300).optional(),
+  extends: scoringProfileIdSchema.optional(),
+  marketWeights: z.partialRecord(z.enum(MARKET_WEIGHT_KEYS), weightSchema).optional(),
+  financialWeights: z.partialRecord(z.enum(FINANCIAL_COMPONENT_VALUES), weightSchema).optional(),
+  blend: z
+    .object({
+      financial: weightSchema,
+      marketability: weightSchema,
+    })
+    .optional(),
+  tldModifiers: tldModifiersSchema.optional(),
+  defaultTldModifier: tldModifierSchema.optional(),
+});
+
+export type ScoringProfileInput = z.output<typeof scoringProfileInputSchema>;
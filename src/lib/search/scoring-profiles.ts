@@ -0,0 +1,126 @@
+import type { ScoringProfile } from "@/lib/types";
+
+export const DEFAULT_SCORING_PROFILE_ID = "balanced";
+
+const DEFAULT_TLD_MODIFIERS: Record<string, number> = {
+  com: 1,
+  io: 0.95,
+  co: 0.93,
+  ai: 0.94,
+  net: 0.9,
+  org: 0.9,
+  app: 0.92,
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: DEFAULT_SCORING_PROFILE_ID,
+  name: "Balanced",
+  description: "Price-aware blend of memorability and affordability.",
+  builtIn: true,
+  marketWeights: {
+    lengthPreference: 0.2,
+    syllableFit: 0.16,
+    pronounceability: 0,
+    englishLikeness: 0.2,
+    wordSegmentation: 0.08,
+    keywordRelevance: 0.16,
+    distinctiveness: 0.08,
+    hyphenPenalty: 0.07,
+    digitPenalty: 0.05,
+    domainHack: 0.1,
+    homographRisk: 0.12,
+  },
+  financialWeights: {
+    availability: 0.35,
+    definitiveStatus: 0.12,
+    affordability: 0.38,
+    premiumPenalty: 0.15,
+  },
+  blend: {
+    financial: 0.62,
+    marketability: 0.38,
+  },
+  tldModifiers: DEFAULT_TLD_MODIFIERS,
+  defaultTldModifier: 0.85,
+};
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    ...DEFAULT_SCORING_PROFILE,
+    id: "startup-brandable",
+    name: "Startup brandable",
+    description: "Short, pronounceable, distinctive names; tech TLDs are nearly as good as .com.",
+    marketWeights: {
+      ...DEFAULT_SCORING_PROFILE.marketWeights,
+      lengthPreference: 0.18,
+      syllableFit: 0.18,
+      englishLikeness: 0.26,
+      wordSegmentation: 0.04,
+      keywordRelevance: 0.06,
+      distinctiveness: 0.16,
+      hyphenPenalty: 0.07,
+      digitPenalty: 0.05,
+      domainHack: 0.14,
+    },
+    blend: {
+      financial: 0.4,
+      marketability: 0.6,
+    },
+    tldModifiers: {
+      ...DEFAULT_TLD_MODIFIERS,
+      io: 0.98,
+      ai: 0.98,
+      co: 0.95,
+      app: 0.95,
+      dev: 0.93,
+    },
+  },
+  {
+    ...DEFAULT_SCORING_PROFILE,
+    id: "seo-exact-match",
+    name: "SEO exact-match",
+    description: "Rewards labels that contain the search keywords; classic TLDs only.",
+    marketWeights: {
+      ...DEFAULT_SCORING_PROFILE.marketWeights,
+      lengthPreference: 0.12,
+      syllableFit: 0.06,
+      englishLikeness: 0.1,
+      wordSegmentation: 0.14,
+      keywordRelevance: 0.4,
+      distinctiveness: 0.03,
+      hyphenPenalty: 0.09,
+      digitPenalty: 0.06,
+      domainHack: 0.04,
+    },
+    blend: {
+      financial: 0.5,
+      marketability: 0.5,
+    },
+    tldModifiers: {
+      com: 1,
+      net: 0.93,
+      org: 0.93,
+      co: 0.88,
+      io: 0.85,
+      ai: 0.85,
+    },
+    defaultTldModifier: 0.78,
+  },
+  {
+    ...DEFAULT_SCORING_PROFILE,
+    id: "budget-first",
+    name: "Budget-first",
+    description: "Cheapest definitive registrations win; memorability only breaks ties.",
+    financialWeights: {
+      availability: 0.3,
+      definitiveStatus: 0.1,
+      affordability: 0.55,
+      premiumPenalty: 0.05,
+    },
+    blend: {
+      financial: 0.8,
+      marketability: 0.2,
+    },
+  },
+];
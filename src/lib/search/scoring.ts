@@ -1,4 +1,20 @@
-import type { DomainResult, SearchRequest, ValueDriver } from "@/lib/types";
+import { assessHomographRisk, toLatinSkeleton } from "@/lib/domain/homograph";
+import { scoreEnglishLikeness, segmentLabel, type LabelSegmentation } from "@/lib/language/ngram";
+import { assessBrandCollision } from "@/lib/screening/brands";
+import { formatConnotationFlag, screenConnotations } from "@/lib/screening/connotations";
+import { formatTrademarkMatch, screenTrademarks, type TrademarkIndex } from "@/lib/screening/trademarks";
+import { DEFAULT_SCORING_PROFILE } from "@/lib/search/scoring-profiles";
+import type {
+  BrandMatch,
+  ConnotationCategory,
+  ConnotationFlag,
+  DomainResult,
+  ScoringProfile,
+  SearchRequest,
+  TrademarkMatch,
+  TrademarkRiskLevel,
+  ValueDriver,
+} from "@/lib/types";
 
 interface WeightedComponent {
   component: string;
@@ -15,18 +31,57 @@ export interface RankedMetrics {
   labelLength: number;
   valueDrivers: ValueDriver[];
   valueDetractors: ValueDriver[];
+  trademarkRisk?: TrademarkRiskLevel;
+  trademarkMatches?: TrademarkMatch[];
+  connotationFlags?: ConnotationFlag[];
+  brandCollisionScore: number;
+  brandMatches: BrandMatch[];
+  labelSegments: string[];
 }
 
-const TRUSTED_TLD_MODIFIERS: Record<string, number> = {
-  com: 1,
-  io: 0.95,
-  co: 0.93,
-  ai: 0.94,
-  net: 0.9,
-  org: 0.9,
-  app: 0.92,
+interface ScreeningPenalty {
+  component: string;
+  factor: number;
+  detail: string;
+}
+
+// Share of the overall score kept when a label conflicts with a registered mark.
+const TRADEMARK_RISK_FACTORS: Record<TrademarkRiskLevel, number> = {
+  none: 1,
+  low: 0.95,
+  medium: 0.8,
+  high: 0.5,
 };
 
+// Share of the overall score kept when the label reads badly in a target market language.
+const CONNOTATION_FACTORS: Record<ConnotationCategory, number> = {
+  negative: 0.85,
+  profanity: 0.5,
+  slur: 0.3,
+};
+
+// Brand similarity at or above this score counts as a look-alike of that brand.
+const BRAND_COLLISION_THRESHOLD = 75;
+
+function calculateBrandCollisionFactor(score: number): number {
+  return 0.85 - ((clamp(score, BRAND_COLLISION_THRESHOLD, 100) - BRAND_COLLISION_THRESHOLD) / 25) * 0.35;
+}
+
+export function screenLabelConnotations(label: string, input: SearchRequest): ConnotationFlag[] {
+  if (input.connotationScreening === "off") {
+    return [];
+  }
+
+  return screenConnotations(toLatinSkeleton(label), {
+    languages: input.marketLanguages ?? ["en"],
+    allowlist: input.connotationAllowlist,
+  });
+}
+
+export function getTldModifier(tld: string, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): number {
+  return profile.tldModifiers[tld] ?? profile.defaultTldModifier;
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
@@ -89,12 +144,34 @@ function calculatePronounceability(label: string): number {
   return clamp(ratioScore - streakPenalty, 0, 100);
 }
 
+// Names of up to three words read as a phrase; longer chains lose the brand feel.
+function calculateSegmentationScore(segmentation: LabelSegmentation): number {
+  const extraWords = Math.max(0, segmentation.wordCount - 3);
+  return clamp(40 + segmentation.coverage * 60 - extraWords * 10, 0, 100);
+}
+
+function describeSegmentation(label: string, segmentation: LabelSegmentation): string {
+  if (segmentation.wordCount === 0) {
+    return `No dictionary words found in "${label}".`;
+  }
+
+  return `Reads as "${segmentation.segments.join("|")}" (${Math.round(segmentation.coverage * 100)}% dictionary words).`;
+}
+
 function calculateLengthScore(labelLength: number): number {
   const ideal = 9;
   const distance = Math.abs(labelLength - ideal);
   return clamp(100 - distance * 10, 0, 100);
 }
 
+function stripCombiningMarks(value: string): string {
+  return value.normalize("NFKD").replace(/\p{M}/gu, "");
+}
+
+function calculateDomainHackScore(spokenLength: number): number {
+  return clamp(100 - Math.max(0, spokenLength - 6) * 12, 20, 100);
+}
+
 function calculateSyllableScore(syllables: number): number {
   if (syllables >= 2 && syllables <= 3) {
     return 100;
@@ -146,14 +223,19 @@ function calculateAffordabilityScore(price: number | undefined, yearlyBudget: nu
   return clamp(112 - ratio * 65, 0, 100);
 }
 
-function buildDrivers(components: WeightedComponent[]): {
+function buildDrivers(
+  components: WeightedComponent[],
+  profileId: string,
+): {
   drivers: ValueDriver[];
   detractors: ValueDriver[];
 } {
-  const impacts: ValueDriver[] = components.map((component) => ({
+  // Components a profile does not weight (e.g. `pronounceability` in the built-ins) never explain a score.
+  const impacts: ValueDriver[] = components.filter((component) => component.weight > 0).map((component) => ({
     component: component.component,
     impact: round2((component.score - 50) * component.weight),
     detail: component.detail,
+    profile: profileId,
   }));
 
   const drivers = impacts
@@ -172,86 +254,151 @@ function buildDrivers(components: WeightedComponent[]): {
   };
 }
 
-export function scoreDomainResult(result: DomainResult, input: SearchRequest): RankedMetrics {
-  const parts = result.domain.toLowerCase().split(".");
+function pinDrivers(list: ValueDriver[], pinned: ValueDriver[]): ValueDriver[] {
+  const components = new Set(pinned.map((driver) => driver.component));
+  return [...pinned, ...list.filter((driver) => !components.has(driver.component))].slice(0, 4);
+}
+
+export function scoreDomainResult(
+  result: DomainResult,
+  input: SearchRequest,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  trademarks?: TrademarkIndex | null,
+): RankedMetrics {
+  const parts = (result.unicodeDomain ?? result.domain).toLowerCase().split(".");
   const label = parts.length > 1 ? parts[0] ?? "" : "";
   const tld = parts.length > 1 ? parts.slice(1).join(".") : input.tld.toLowerCase();
-
-  const labelLength = label.length;
-  const syllableCount = estimateSyllables(label);
+  const asciiParts = result.domain.toLowerCase().split(".");
+  const asciiTld = asciiParts.length > 1 ? asciiParts.slice(1).join(".") : input.tld.toLowerCase();
+  const { marketWeights, financialWeights } = profile;
+
+  // A domain hack such as brand.ly is read as one word, so it is scored on "brandly".
+  // IDN labels are scored on their base letters so "müller" is judged like "muller".
+  const displayed = result.domainHack ? `${label}${tld.replace(/\./g, "")}` : label;
+  const spoken = result.unicodeDomain ? stripCombiningMarks(displayed) : displayed;
+  const labelLength = Array.from(displayed).length;
+  const syllableCount = estimateSyllables(spoken);
   const keywordTokens = tokenizeText(`${input.keywords} ${input.description ?? ""}`);
+  const englishLikeness = scoreEnglishLikeness(spoken);
+  const segmentation = segmentLabel(spoken);
 
   const marketComponents: WeightedComponent[] = [
     {
       component: "lengthPreference",
       score: calculateLengthScore(labelLength),
-      weight: 0.22,
+      weight: marketWeights.lengthPreference,
       detail: `Label length is ${labelLength} characters.`,
     },
     {
       component: "syllableFit",
       score: calculateSyllableScore(syllableCount),
-      weight: 0.18,
+      weight: marketWeights.syllableFit,
       detail: `Estimated syllables: ${syllableCount}.`,
     },
     {
       component: "pronounceability",
-      score: calculatePronounceability(label),
-      weight: 0.2,
+      score: calculatePronounceability(spoken),
+      weight: marketWeights.pronounceability,
       detail: "Balanced vowel/consonant pattern improves spoken recall.",
     },
+    {
+      component: "englishLikeness",
+      score: englishLikeness.score,
+      weight: marketWeights.englishLikeness,
+      detail: `Character model rates "${spoken}" ${Math.round(englishLikeness.score)}/100 as English${
+        englishLikeness.weakestSpot ? `; least natural sequence "${englishLikeness.weakestSpot}"` : ""
+      }.`,
+    },
+    {
+      component: "wordSegmentation",
+      score: calculateSegmentationScore(segmentation),
+      weight: marketWeights.wordSegmentation,
+      detail: describeSegmentation(spoken, segmentation),
+    },
     {
       component: "keywordRelevance",
-      score: calculateKeywordRelevance(label, keywordTokens),
-      weight: 0.16,
+      score: calculateKeywordRelevance(spoken, keywordTokens),
+      weight: marketWeights.keywordRelevance,
       detail: "Measures overlap with prompt keywords and description.",
     },
     {
       component: "distinctiveness",
-      score: calculateDistinctiveness(label),
-      weight: 0.1,
+      score: calculateDistinctiveness(spoken),
+      weight: marketWeights.distinctiveness,
       detail: "Higher character uniqueness tends to increase distinct brand recall.",
     },
     {
       component: "hyphenPenalty",
       score: label.includes("-") ? 28 : 100,
-      weight: 0.08,
+      weight: marketWeights.hyphenPenalty,
       detail: "Hyphenated names are often harder to communicate verbally.",
     },
     {
       component: "digitPenalty",
       score: /\d/.test(label) ? 24 : 100,
-      weight: 0.06,
+      weight: marketWeights.digitPenalty,
       detail: "Numbers usually reduce premium brand perception.",
     },
   ];
 
-  const tldModifier = TRUSTED_TLD_MODIFIERS[tld] ?? 0.85;
+  // Hack and homograph components always surface as a driver or detractor next to the score.
+  const pinnedComponents: WeightedComponent[] = [];
+
+  if (result.domainHack) {
+    pinnedComponents.push({
+      component: "domainHack",
+      score: calculateDomainHackScore(labelLength),
+      weight: marketWeights.domainHack,
+      detail: `Domain hack ${result.domain} reads as "${displayed}" (${labelLength} characters).`,
+    });
+  }
+
+  if (result.unicodeDomain) {
+    const homograph = assessHomographRisk(label);
+    if (homograph.risky) {
+      pinnedComponents.push({
+        component: "homographRisk",
+        score: 0,
+        weight: marketWeights.homographRisk,
+        detail: homograph.reason ?? "Label could be confused with another script.",
+      });
+    }
+  }
+
+  const tldModifier = getTldModifier(asciiTld, profile);
   const baseMarketability = marketComponents.reduce(
     (total, component) => total + component.score * component.weight,
     0,
   );
-  const marketabilityScore = round2(clamp(baseMarketability * tldModifier, 0, 100));
+  // Core weights already sum to 1, so pinned components shift the score by exactly the impact they display.
+  const pinnedAdjustment = pinnedComponents.reduce(
+    (total, component) => total + (component.score - 50) * component.weight,
+    0,
+  );
+  const marketabilityScore = round2(clamp(baseMarketability * tldModifier + pinnedAdjustment, 0, 100));
+  marketComponents.push(...pinnedComponents);
 
   const financialComponents: WeightedComponent[] = [
     {
       component: "availability",
       score: result.available ? 100 : 0,
-      weight: 0.35,
+      weight: financialWeights.availability,
       detail: result.available ? "Domain is currently available." : "Domain is unavailable.",
     },
     {
       component: "definitiveStatus",
-      score: result.definitive ? 100 : 62,
-      weight: 0.12,
-      detail: result.definitive
-        ? "Availability status is definitive."
-        : "Availability status is non-definitive.",
+      score: result.definitive && !result.conflict ? 100 : 62,
+      weight: financialWeights.definitiveStatus,
+      detail: result.conflict
+        ? "Availability providers disagree; treated as non-definitive."
+        : result.definitive
+          ? "Availability status is definitive."
+          : "Availability status is non-definitive.",
     },
     {
       component: "affordability",
       score: calculateAffordabilityScore(result.price, input.yearlyBudget),
-      weight: 0.38,
+      weight: financialWeights.affordability,
       detail:
         typeof result.price === "number"
           ? `Price ${result.price.toFixed(2)} vs budget ${input.yearlyBudget.toFixed(2)}.`
@@ -260,7 +407,7 @@ export function scoreDomainResult(result: DomainResult, input: SearchRequest): R
     {
       component: "premiumPenalty",
       score: result.isNamelixPremium ? 35 : 100,
-      weight: 0.15,
+      weight: financialWeights.premiumPenalty,
       detail: result.isNamelixPremium
         ? "Premium label can increase acquisition risk."
         : "Not flagged as premium by Namelix.",
@@ -283,18 +430,76 @@ export function scoreDomainResult(result: DomainResult, input: SearchRequest): R
     financialValueScore = round2(financialValueScore * 0.45);
   }
 
-  const overallScore = round2(clamp(financialValueScore * 0.62 + marketabilityScore * 0.38, 0, 100));
+  const blendedScore = round2(
+    clamp(financialValueScore * profile.blend.financial + marketabilityScore * profile.blend.marketability, 0, 100),
+  );
+  const penalties: ScreeningPenalty[] = [];
+
+  // Look-alike letters are mapped back to Latin so a spoof such as "pаypal" is screened as "paypal".
+  const skeleton = toLatinSkeleton(spoken);
+  const trademark = trademarks ? screenTrademarks(skeleton, trademarks, input.niceClasses) : undefined;
+  if (trademark?.matches[0]) {
+    penalties.push({
+      component: "trademarkConflict",
+      factor: TRADEMARK_RISK_FACTORS[trademark.risk],
+      detail: `Trademark risk ${trademark.risk}: ${formatTrademarkMatch(trademark.matches[0])}.`,
+    });
+  }
+
+  const connotationFlags = screenLabelConnotations(displayed, input);
+  if (connotationFlags[0]) {
+    const others = connotationFlags.length > 1 ? ` (+${connotationFlags.length - 1} more)` : "";
+    penalties.push({
+      component: "negativeConnotation",
+      factor: CONNOTATION_FACTORS[connotationFlags[0].category],
+      detail: `${formatConnotationFlag(connotationFlags[0])}${others}.`,
+    });
+  }
 
-  const { drivers: marketDrivers, detractors: marketDetractors } = buildDrivers(marketComponents);
-  const { drivers: financialDrivers, detractors: financialDetractors } = buildDrivers(financialComponents);
+  const brandCollision = assessBrandCollision(skeleton);
+  const nearestBrand = brandCollision.matches[0];
+  if (nearestBrand && brandCollision.score >= BRAND_COLLISION_THRESHOLD) {
+    penalties.push({
+      component: "brandCollision",
+      factor: calculateBrandCollisionFactor(brandCollision.score),
+      detail: `Resembles the brand "${nearestBrand.brand}" (${nearestBrand.similarity}% similar, ${nearestBrand.reason} match).`,
+    });
+  }
 
-  const valueDrivers = [...marketDrivers, ...financialDrivers]
+  let overallScore = blendedScore;
+  const penaltyDetractors: ValueDriver[] = penalties.map((penalty) => {
+    const penalized = round2(overallScore * penalty.factor);
+    const detractor: ValueDriver = {
+      component: penalty.component,
+      impact: round2(penalized - overallScore),
+      detail: penalty.detail,
+      profile: profile.id,
+    };
+    overallScore = penalized;
+    return detractor;
+  });
+
+  const { drivers: marketDrivers, detractors: marketDetractors } = buildDrivers(marketComponents, profile.id);
+  const { drivers: financialDrivers, detractors: financialDetractors } = buildDrivers(financialComponents, profile.id);
+
+  let valueDrivers = [...marketDrivers, ...financialDrivers]
     .sort((a, b) => b.impact - a.impact)
     .slice(0, 4);
-  const valueDetractors = [...marketDetractors, ...financialDetractors]
+  let valueDetractors = [...marketDetractors, ...financialDetractors]
     .sort((a, b) => a.impact - b.impact)
     .slice(0, 4);
 
+  if (pinnedComponents.length > 0) {
+    const pinned = buildDrivers(pinnedComponents, profile.id);
+    valueDrivers = pinDrivers(valueDrivers, pinned.drivers);
+    valueDetractors = pinDrivers(valueDetractors, pinned.detractors);
+  }
+
+  // Screening penalties are pinned so a risky name always explains why it dropped.
+  if (penaltyDetractors.length > 0) {
+    valueDetractors = pinDrivers(valueDetractors, penaltyDetractors);
+  }
+
   return {
     marketabilityScore,
     financialValueScore,
@@ -303,6 +508,12 @@ export function scoreDomainResult(result: DomainResult, input: SearchRequest): R
     labelLength,
     valueDrivers,
     valueDetractors,
+    trademarkRisk: trademark?.risk,
+    trademarkMatches: trademark?.matches,
+    connotationFlags: connotationFlags.length > 0 ? connotationFlags : undefined,
+    brandCollisionScore: brandCollision.score,
+    brandMatches: brandCollision.matches,
+    labelSegments: segmentation.segments,
   };
 }
 
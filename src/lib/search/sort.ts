@@ -1,11 +1,14 @@
-import type { RankedDomainResult } from "@/lib/types";
+import type { RankedDomainResult, TrademarkRiskLevel } from "@/lib/types";
 
-export type DomainSortMode =
-  | "marketability"
-  | "financialValue"
-  | "alphabetical"
-  | "syllableCount"
-  | "labelLength";
+export const DOMAIN_SORT_MODES = [
+  "marketability",
+  "financialValue",
+  "alphabetical",
+  "syllableCount",
+  "labelLength",
+] as const;
+
+export type DomainSortMode = (typeof DOMAIN_SORT_MODES)[number];
 
 function compareOverallTieBreak(a: RankedDomainResult, b: RankedDomainResult): number {
   if (a.overallScore !== b.overallScore) {
@@ -75,3 +78,15 @@ export function sortRankedDomains(
 
   return next.sort(comparator);
 }
+
+/** Keeps rows whose trademark risk is one of `levels`; rows that were never screened count as `none`. */
+export function filterByTrademarkRisk(
+  rows: RankedDomainResult[],
+  levels?: readonly TrademarkRiskLevel[],
+): RankedDomainResult[] {
+  if (!levels || levels.length === 0) {
+    return rows;
+  }
+
+  return rows.filter((row) => levels.includes(row.trademarkRisk ?? "none"));
+}
@@ -0,0 +1,113 @@
+import { getTldModifier } from "@/lib/search/scoring";
+import type { DomainResult, LabelTldGroup, ScoringProfile, SearchRequest, TldOption } from "@/lib/types";
+
+// Points taken off a TLD's trust score (out of 100) when its price uses the whole yearly budget.
+const BUDGET_SHARE_PENALTY = 10;
+
+export interface LabelGroupingContext {
+  tlds: string[];
+  yearlyBudget: number;
+  options: Map<string, TldOption>;
+  profile?: ScoringProfile;
+}
+
+export function resolveSearchTlds(input: Pick<SearchRequest, "tld" | "tlds">): string[] {
+  return input.tlds && input.tlds.length > 0 ? input.tlds : [input.tld];
+}
+
+function splitDomain(domain: string): { label: string; tld: string } | null {
+  const index = domain.indexOf(".");
+  if (index <= 0) {
+    return null;
+  }
+
+  return {
+    label: domain.slice(0, index),
+    tld: domain.slice(index + 1),
+  };
+}
+
+export function toTldOption(result: DomainResult): TldOption {
+  const domain = result.domain.toLowerCase();
+
+  return {
+    tld: splitDomain(domain)?.tld ?? "",
+    domain,
+    available: result.available,
+    definitive: result.definitive,
+    price: result.price,
+    currency: result.currency,
+    overBudget: result.overBudget,
+    reason: result.reason,
+  };
+}
+
+function scoreTldOption(option: TldOption, yearlyBudget: number, profile?: ScoringProfile): number {
+  const budgetShare = typeof option.price === "number" ? option.price / yearlyBudget : 1;
+  return getTldModifier(option.tld, profile) * 100 - budgetShare * BUDGET_SHARE_PENALTY;
+}
+
+export function pickBestTld(
+  options: TldOption[],
+  yearlyBudget: number,
+  profile?: ScoringProfile,
+): TldOption | undefined {
+  let best: { option: TldOption; score: number } | undefined;
+
+  for (const option of options) {
+    if (!option.available || option.overBudget) {
+      continue;
+    }
+
+    const score = scoreTldOption(option, yearlyBudget, profile);
+    if (!best || score > best.score) {
+      best = { option, score };
+    }
+  }
+
+  return best?.option;
+}
+
+export function buildLabelGroups(
+  rows: DomainResult[],
+  context: LabelGroupingContext,
+): LabelTldGroup[] {
+  const known = new Map(context.options);
+  const labels = new Set<string>();
+
+  for (const row of rows) {
+    const option = toTldOption(row);
+    known.set(option.domain, option);
+
+    const label = splitDomain(option.domain)?.label;
+    if (label) {
+      labels.add(label);
+    }
+  }
+
+  const optionsByLabel = new Map<string, TldOption[]>();
+  for (const option of known.values()) {
+    const label = splitDomain(option.domain)?.label;
+    if (label && labels.has(label)) {
+      optionsByLabel.set(label, [...(optionsByLabel.get(label) ?? []), option]);
+    }
+  }
+
+  const tldOrder = (tld: string) => {
+    const index = context.tlds.indexOf(tld);
+    return index === -1 ? context.tlds.length : index;
+  };
+
+  return Array.from(labels, (label) => {
+    const options = (optionsByLabel.get(label) ?? []).sort((a, b) => tldOrder(a.tld) - tldOrder(b.tld));
+    const best = pickBestTld(options, context.yearlyBudget, context.profile);
+
+    return {
+      label,
+      options,
+      availableTlds: options.filter((option) => option.available).map((option) => option.tld),
+      bestTld: best?.tld,
+      bestDomain: best?.domain,
+    };
+  });
+}
@@ -0,0 +1,292 @@
+import { mulberry32, pickOne } from "@/lib/random";
+import { tokenizeForLearning } from "@/lib/search/scoring";
+import type { NameSource } from "@/lib/sources/registry";
+import {
+  BRANDABLE_SUFFIXES,
+  DICTIONARY_WORDS,
+  ROMANCE_ENDINGS,
+  SYLLABLE_CODAS,
+  SYLLABLE_NUCLEI,
+  SYLLABLE_ONSETS,
+} from "@/lib/sources/word-list";
+import type { NamelixLogo, RandomnessValue, SearchRequest, StyleValue } from "@/lib/types";
+
+type Strategy = (context: GeneratorContext) => GeneratedName | null;
+
+interface GeneratorContext {
+  seeds: string[];
+  drift: number;
+  random: () => number;
+}
+
+interface GeneratedName {
+  name: string;
+  detail: string;
+}
+
+const DRIFT_BY_RANDOMNESS: Record<RandomnessValue, number> = {
+  low: 0.15,
+  medium: 0.4,
+  high: 0.7,
+};
+
+const MIN_NAME_LENGTH = 3;
+const ATTEMPTS_PER_NAME = 25;
+const VOWEL_REGEX = /[aeiouy]/;
+
+const LETTER_SWAPS: Array<[RegExp, string]> = [
+  [/ph/, "f"],
+  [/ck/, "k"],
+  [/c(?=[aou]|$)/, "k"],
+  [/s$/, "z"],
+  [/er$/, "r"],
+  [/ee/, "i"],
+  [/i(?=[^aeiou]*$)/, "y"],
+  [/qu/, "kw"],
+  [/ou/, "u"],
+  [/x/, "ks"],
+];
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function pickToken(context: GeneratorContext, exclude: string[] = []): string {
+  const pool =
+    context.seeds.length > 0 && context.random() >= context.drift
+      ? context.seeds
+      : (DICTIONARY_WORDS as readonly string[]);
+  const filtered = pool.filter((token) => !exclude.includes(token));
+  return pickOne(filtered.length > 0 ? filtered : pool, context.random) ?? "nova";
+}
+
+function pickTokens(context: GeneratorContext, count: number): string[] {
+  const tokens: string[] = [];
+
+  for (let index = 0; index < count; index += 1) {
+    tokens.push(pickToken(context, tokens));
+  }
+
+  return tokens;
+}
+
+function joinWords(count: number): Strategy {
+  return (context) => {
+    const tokens = pickTokens(context, count);
+    return {
+      name: tokens.map(capitalize).join(""),
+      detail: tokens.join(" + "),
+    };
+  };
+}
+
+export function blendPortmanteau(left: string, right: string, random: () => number): string {
+  const options: string[] = [];
+
+  for (let i = 2; i <= left.length; i += 1) {
+    for (let j = 0; j < right.length - 1; j += 1) {
+      if (left[i - 1] === right[j]) {
+        const blended = left.slice(0, i) + right.slice(j + 1);
+        if (blended !== left && blended !== right && blended.length >= 4) {
+          options.push(blended);
+        }
+      }
+    }
+  }
+
+  const picked = pickOne(options, random);
+  if (picked) {
+    return picked;
+  }
+
+  return left.slice(0, Math.ceil(left.length * 0.6)) + right.slice(Math.floor(right.length * 0.4));
+}
+
+const compound: Strategy = (context) => {
+  const [left, right] = pickTokens(context, 2) as [string, string];
+  return {
+    name: capitalize(blendPortmanteau(left, right, context.random)),
+    detail: `${left} x ${right}`,
+  };
+};
+
+export function dropVowels(word: string): string {
+  if (word.length < 6) {
+    return word;
+  }
+
+  const head = word.charAt(0);
+  const tail = word.slice(1, -1).replace(/[aeiou]/g, "");
+  return head + tail + word.charAt(word.length - 1);
+}
+
+export function swapLetters(word: string, random: () => number): string {
+  const applicable = LETTER_SWAPS.filter(([pattern]) => pattern.test(word));
+  const swap = pickOne(applicable, random);
+  return swap ? word.replace(swap[0], swap[1]) : word;
+}
+
+const spelling: Strategy = (context) => {
+  const base = context.random() < context.drift ? pickTokens(context, 2).join("") : pickToken(context);
+  const mutations = context.drift >= 0.5 ? 2 : 1;
+  let name = base;
+
+  for (let index = 0; index < mutations; index += 1) {
+    name = context.random() < 0.4 ? dropVowels(name) : swapLetters(name, context.random);
+  }
+
+  if (name === base || !VOWEL_REGEX.test(name)) {
+    return null;
+  }
+
+  return {
+    name: capitalize(name),
+    detail: `respelled ${base}`,
+  };
+};
+
+function synthesizeSyllable(context: GeneratorContext, onset?: string): string {
+  const start = onset ?? pickOne(SYLLABLE_ONSETS, context.random) ?? "b";
+  const nucleus = pickOne(SYLLABLE_NUCLEI, context.random) ?? "a";
+  const coda = pickOne(SYLLABLE_CODAS, context.random) ?? "";
+  return start + nucleus + coda;
+}
+
+const brandable: Strategy = (context) => {
+  const seed = context.seeds.length > 0 ? pickOne(context.seeds, context.random) : undefined;
+
+  if (seed && seed.length >= 3 && context.random() >= context.drift) {
+    const stem = seed.slice(0, Math.min(seed.length, 3 + Math.floor(context.random() * 2)));
+    const suffix = pickOne(BRANDABLE_SUFFIXES, context.random) ?? "ly";
+    return {
+      name: capitalize(stem + suffix),
+      detail: `${seed} stem + ${suffix}`,
+    };
+  }
+
+  const syllableCount = context.random() < context.drift ? 3 : 2;
+  const onset = seed && context.random() >= context.drift ? seed.match(/^[^aeiouy]*/)?.[0] || undefined : undefined;
+  const syllables = [synthesizeSyllable(context, onset)];
+
+  for (let index = 1; index < syllableCount; index += 1) {
+    syllables.push(synthesizeSyllable(context));
+  }
+
+  return {
+    name: capitalize(syllables.join("")),
+    detail: `synthesized ${syllables.join("-")}`,
+  };
+};
+
+const dictionary: Strategy = (context) => {
+  const words = DICTIONARY_WORDS as readonly string[];
+  const seed = pickOne(context.seeds, context.random);
+  const related =
+    seed && context.random() >= context.drift
+      ? words.filter((word) => word !== seed && word.charAt(0) === seed.charAt(0))
+      : [];
+  const word = pickOne(related.length > 0 ? related : words, context.random);
+
+  if (!word) {
+    return null;
+  }
+
+  return {
+    name: capitalize(word),
+    detail: related.length > 0 && seed ? `dictionary word near ${seed}` : "dictionary word",
+  };
+};
+
+export function romanize(word: string, random: () => number): string {
+  const stem = word
+    .replace(/th/g, "t")
+    .replace(/w/g, "v")
+    .replace(/k/g, "c")
+    .replace(/y$/, "i")
+    .replace(/[aeiou]+$/, "");
+  const ending = pickOne(ROMANCE_ENDINGS, random) ?? "a";
+  return (stem || word) + ending;
+}
+
+const nonenglish: Strategy = (context) => {
+  const base = pickToken(context);
+  return {
+    name: capitalize(romanize(base, context.random)),
+    detail: `romance-styled ${base}`,
+  };
+};
+
+const STRATEGIES: Record<Exclude<StyleValue, "default">, Strategy> = {
+  brandable,
+  twowords: joinWords(2),
+  threewords: joinWords(3),
+  compound,
+  spelling,
+  nonenglish,
+  dictionary,
+};
+
+const STRATEGY_KEYS = Object.keys(STRATEGIES) as Array<Exclude<StyleValue, "default">>;
+
+function parseBlacklist(blacklist: string | undefined): string[] {
+  return (blacklist ?? "")
+    .toLowerCase()
+    .split(/[,\s]+/)
+    .map((token) => token.trim())
+    .filter((token) => token.length >= 2);
+}
+
+export function generateCombinatorialNames(input: SearchRequest, random: () => number): NamelixLogo[] {
+  const blacklist = parseBlacklist(input.blacklist);
+  const seeds = tokenizeForLearning(`${input.keywords} ${input.description ?? ""}`).filter(
+    (token) => /^[a-z]+$/.test(token) && !blacklist.some((blocked) => token.includes(blocked)),
+  );
+  const context: GeneratorContext = {
+    seeds: Array.from(new Set(seeds)),
+    drift: DRIFT_BY_RANDOMNESS[input.randomness] ?? DRIFT_BY_RANDOMNESS.medium,
+    random,
+  };
+
+  const logos: NamelixLogo[] = [];
+  const seen = new Set<string>();
+  const maxAttempts = input.maxNames * ATTEMPTS_PER_NAME;
+
+  for (let attempt = 0; attempt < maxAttempts && logos.length < input.maxNames; attempt += 1) {
+    const style = input.style === "default" ? (pickOne(STRATEGY_KEYS, random) ?? "brandable") : input.style;
+    const generated = STRATEGIES[style](context);
+
+    if (!generated) {
+      continue;
+    }
+
+    const key = generated.name.toLowerCase();
+    if (
+      key.length < MIN_NAME_LENGTH ||
+      key.length > input.maxLength ||
+      seen.has(key) ||
+      blacklist.some((blocked) => key.includes(blocked))
+    ) {
+      continue;
+    }
+
+    seen.add(key);
+    logos.push({
+      businessName: generated.name,
+      description: `${style}: ${generated.detail}`,
+    });
+  }
+
+  return logos;
+}
+
+export function createCombinatorialNameSource(seed: number = Date.now()): NameSource {
+  const random = mulberry32(seed);
+
+  return {
+    id: "combinatorial",
+    label: "Offline combinatorial generator",
+    generate: async (input) => generateCombinatorialNames(input, random),
+  };
+}
+
+export const combinatorialNameSource = createCombinatorialNameSource();
@@ -0,0 +1,8 @@
+import { scrapeNamelix } from "@/lib/namelix/scraper";
+import type { NameSource } from "@/lib/sources/registry";
+
+export const namelixNameSource: NameSource = {
+  id: "namelix",
+  label: "Namelix (Playwright)",
+  generate: (input, options) => scrapeNamelix(input, options?.signal),
+};
@@ -0,0 +1,125 @@
+import { normalizeBusinessNameKey } from "@/lib/domain/normalize";
+import { combinatorialNameSource } from "@/lib/sources/combinatorial";
+import { namelixNameSource } from "@/lib/sources/namelix";
+import type { NameCandidate, NamelixLogo, NameSourceId, SearchRequest } from "@/lib/types";
+
+export interface NameSourceOptions {
+  signal?: AbortSignal;
+}
+
+export interface NameSource {
+  id: NameSourceId;
+  label: string;
+  generate(input: SearchRequest, options?: NameSourceOptions): Promise<NamelixLogo[]>;
+}
+
+export interface NameSourceFailure {
+  source: NameSourceId;
+  message: string;
+}
+
+export interface GeneratedNames {
+  candidates: NameCandidate[];
+  failures: NameSourceFailure[];
+}
+
+export class NameSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NameSourceError";
+  }
+}
+
+const DEFAULT_NAME_SOURCES: NameSourceId[] = ["namelix"];
+
+const registry = new Map<NameSourceId, NameSource>();
+
+export function registerNameSource(source: NameSource): void {
+  registry.set(source.id, source);
+}
+
+export function getNameSource(id: NameSourceId): NameSource | undefined {
+  return registry.get(id);
+}
+
+export function listNameSources(): NameSource[] {
+  return Array.from(registry.values());
+}
+
+export function resolveNameSources(input: SearchRequest): NameSource[] {
+  const requested = input.nameSources && input.nameSources.length > 0 ? input.nameSources : DEFAULT_NAME_SOURCES;
+  const sources: NameSource[] = [];
+
+  for (const id of Array.from(new Set(requested))) {
+    const source = registry.get(id);
+    if (!source) {
+      throw new NameSourceError(`Name source "${id}" is not registered.`);
+    }
+
+    sources.push(source);
+  }
+
+  return sources;
+}
+
+export async function generateNameCandidates(
+  input: SearchRequest,
+  options: NameSourceOptions = {},
+): Promise<GeneratedNames> {
+  const sources = resolveNameSources(input);
+  const settled = await Promise.allSettled(sources.map((source) => source.generate(input, options)));
+  options.signal?.throwIfAborted();
+
+  const candidates: NameCandidate[] = [];
+  const failures: NameSourceFailure[] = [];
+  const errors: unknown[] = [];
+  const seen = new Set<string>();
+
+  settled.forEach((outcome, index) => {
+    const source = sources[index] as NameSource;
+
+    if (outcome.status === "rejected") {
+      errors.push(outcome.reason);
+      failures.push({
+        source: source.id,
+        message: outcome.reason instanceof Error ? outcome.reason.message : "Unknown name source failure.",
+      });
+      return;
+    }
+
+    for (const logo of outcome.value) {
+      if (!logo.businessName) {
+        continue;
+      }
+
+      const key = normalizeBusinessNameKey(logo.businessName) || logo.businessName.toLowerCase();
+      if (seen.has(key)) {
+        continue;
+      }
+
+      seen.add(key);
+      candidates.push({
+        ...logo,
+        source: source.id,
+      });
+    }
+  });
+
+  if (failures.length === sources.length) {
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+
+    throw new NameSourceError(
+      `All name sources failed. ${failures.map((failure) => `${failure.source}: ${failure.message}`).join(" | ")}`,
+    );
+  }
+
+  return {
+    candidates,
+    failures,
+  };
+}
+
+registerNameSource(namelixNameSource);
+registerNameSource(combinatorialNameSource);
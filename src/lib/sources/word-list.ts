@@ -0,0 +1,46 @@
+export const DICTIONARY_WORDS = [
+  "acorn", "aero", "agile", "alloy", "alpine", "amber", "anchor", "apex", "arbor", "arc",
+  "arrow", "aspen", "atlas", "aura", "avid", "axis", "azure", "badge", "balm", "barley",
+  "basin", "beacon", "beam", "bear", "birch", "bison", "blaze", "bliss", "bloom", "bolt",
+  "bond", "boost", "bough", "brave", "breeze", "brew", "brick", "bright", "brook", "buzz",
+  "cabin", "cactus", "canvas", "canyon", "cargo", "cedar", "charm", "chart", "chime", "cider",
+  "cinder", "circle", "citrus", "civic", "clarity", "clay", "clever", "cliff", "cloud", "clover",
+  "coast", "cobalt", "comet", "copper", "coral", "core", "cove", "craft", "crane", "crest",
+  "crisp", "crown", "crystal", "cubic", "dash", "dawn", "delta", "denim", "dew", "dune",
+  "eagle", "echo", "eden", "ember", "epic", "falcon", "fable", "fern", "fiber", "field",
+  "finch", "flare", "fleet", "flint", "flora", "flow", "flux", "forge", "fox", "frame",
+  "fresh", "frost", "fuel", "fusion", "garnet", "gem", "glade", "glass", "glen", "glow",
+  "gold", "grain", "granite", "grove", "guild", "halo", "harbor", "harvest", "haven", "hawk",
+  "hazel", "heart", "helix", "hero", "hive", "honey", "horizon", "hub", "icon", "indigo",
+  "iris", "iron", "ivory", "ivy", "jade", "jasper", "jet", "jolly", "journey", "juniper",
+  "keen", "kernel", "kestrel", "key", "kindle", "kite", "lagoon", "lake", "lantern", "lark",
+  "latch", "leaf", "ledger", "lemon", "level", "lily", "linen", "link", "lotus", "lumen",
+  "lunar", "lynx", "maple", "marble", "marsh", "meadow", "mesa", "metro", "mint", "mirth",
+  "mist", "mosaic", "moss", "motive", "nectar", "nest", "nimble", "noble", "north", "nova",
+  "nugget", "oak", "oasis", "ocean", "olive", "omni", "onyx", "orbit", "orchid", "otter",
+  "palm", "panda", "path", "peak", "pearl", "pebble", "pepper", "pilot", "pine", "pixel",
+  "plaza", "plume", "polar", "pond", "prime", "prism", "pulse", "quail", "quartz", "quest",
+  "quill", "radiant", "rain", "rapid", "raven", "reef", "relay", "ridge", "ripple", "river",
+  "robin", "rocket", "root", "rose", "ruby", "rune", "sage", "sail", "salt", "scout",
+  "sequoia", "shade", "shell", "shore", "sierra", "signal", "silk", "silver", "sky", "slate",
+  "solar", "solid", "sonic", "spark", "sparrow", "spice", "spire", "spring", "sprout", "spruce",
+  "stable", "star", "steady", "stone", "storm", "stream", "summit", "sun", "swift", "tango",
+  "terra", "thistle", "thrive", "thunder", "tidal", "tide", "timber", "topaz", "torch", "trail",
+  "tribe", "true", "tulip", "tundra", "ultra", "unity", "urban", "valley", "vapor", "velvet",
+  "verde", "vertex", "vista", "vivid", "volt", "voyage", "wander", "wave", "willow", "wind",
+  "wing", "wise", "wonder", "woods", "wren", "yarrow", "yonder", "zeal", "zen", "zenith",
+  "zephyr", "zest",
+] as const;
+
+export const SYLLABLE_ONSETS = [
+  "b", "br", "c", "cl", "d", "dr", "f", "fl", "g", "gr", "j", "k", "l", "m", "n",
+  "p", "pr", "qu", "r", "s", "sk", "st", "t", "tr", "v", "z",
+] as const;
+
+export const SYLLABLE_NUCLEI = ["a", "e", "i", "o", "u", "ai", "ea", "io", "ou", "y"] as const;
+
+export const SYLLABLE_CODAS = ["", "", "", "n", "r", "l", "x", "s", "m", "k"] as const;
+
+export const ROMANCE_ENDINGS = ["a", "o", "ia", "io", "ara", "ello", "ina", "ora", "eza"] as const;
+
+export const BRANDABLE_SUFFIXES = ["ly", "ify", "io", "eo", "ora", "ix", "er", "able"] as const;
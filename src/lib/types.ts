@@ -1,3 +1,5 @@
+import type { OptimizerCheckpoint } from "@/lib/search/optimizer";
+
 export const STYLE_VALUES = [
   "default",
   "brandable",
@@ -11,22 +13,76 @@ export const STYLE_VALUES = [
 
 export const RANDOMNESS_VALUES = ["low", "medium", "high"] as const;
 export const MUTATION_INTENSITY_VALUES = ["low", "medium", "high"] as const;
+export const NAME_SOURCE_VALUES = ["namelix", "combinatorial"] as const;
+export const AVAILABILITY_PROVIDER_VALUES = ["godaddy", "rdap"] as const;
+export const AVAILABILITY_QUORUM_VALUES = ["first-definitive", "all-agree", "majority"] as const;
+export const AVAILABILITY_CHECK_TYPES = ["FAST", "FULL"] as const;
+export const MARKET_COMPONENT_VALUES = [
+  "lengthPreference",
+  "syllableFit",
+  "pronounceability",
+  "englishLikeness",
+  "wordSegmentation",
+  "keywordRelevance",
+  "distinctiveness",
+  "hyphenPenalty",
+  "digitPenalty",
+] as const;
+export const MARKET_BONUS_COMPONENT_VALUES = ["domainHack", "homographRisk"] as const;
+export const FINANCIAL_COMPONENT_VALUES = ["availability", "definitiveStatus", "affordability", "premiumPenalty"] as const;
+export const TRADEMARK_RISK_VALUES = ["none", "low", "medium", "high"] as const;
+export const TRADEMARK_MATCH_TYPES = ["exact", "normalized", "metaphone", "soundex"] as const;
+export const SCREENING_LANGUAGE_VALUES = ["en", "de", "fr", "es", "it", "pt", "nl"] as const;
+export const CONNOTATION_CATEGORY_VALUES = ["negative", "profanity", "slur"] as const;
+export const CONNOTATION_SCREENING_MODES = ["off", "penalize", "exclude"] as const;
+export const BRAND_MATCH_REASONS = ["exact", "typo", "edit", "phonetic", "contains"] as const;
+export const BANDIT_STRATEGY_VALUES = ["epsilon-greedy", "thompson", "ucb1"] as const;
+export const OPTIMIZER_SNAPSHOT_REASONS = ["run", "import", "reset", "rollback"] as const;
 
 export type StyleValue = (typeof STYLE_VALUES)[number];
 export type RandomnessValue = (typeof RANDOMNESS_VALUES)[number];
 export type MutationIntensityValue = (typeof MUTATION_INTENSITY_VALUES)[number];
+export type NameSourceId = (typeof NAME_SOURCE_VALUES)[number];
+export type AvailabilityProviderId = (typeof AVAILABILITY_PROVIDER_VALUES)[number];
+export type AvailabilityQuorum = (typeof AVAILABILITY_QUORUM_VALUES)[number];
+export type AvailabilityCheckType = (typeof AVAILABILITY_CHECK_TYPES)[number];
+export type MarketComponent = (typeof MARKET_COMPONENT_VALUES)[number];
+export type MarketBonusComponent = (typeof MARKET_BONUS_COMPONENT_VALUES)[number];
+export type FinancialComponent = (typeof FINANCIAL_COMPONENT_VALUES)[number];
+export type TrademarkRiskLevel = (typeof TRADEMARK_RISK_VALUES)[number];
+export type TrademarkMatchType = (typeof TRADEMARK_MATCH_TYPES)[number];
+export type ScreeningLanguage = (typeof SCREENING_LANGUAGE_VALUES)[number];
+export type ConnotationCategory = (typeof CONNOTATION_CATEGORY_VALUES)[number];
+export type ConnotationScreeningMode = (typeof CONNOTATION_SCREENING_MODES)[number];
+export type BrandMatchReason = (typeof BRAND_MATCH_REASONS)[number];
+export type BanditStrategyId = (typeof BANDIT_STRATEGY_VALUES)[number];
+export type OptimizerSnapshotReason = (typeof OPTIMIZER_SNAPSHOT_REASONS)[number];
 
 export interface SearchRequest {
   keywords: string;
   description?: string;
+  industry?: string;
   style: StyleValue;
   randomness: RandomnessValue;
   blacklist?: string;
   maxLength: number;
   tld: string;
+  tlds?: string[];
+  domainHacks?: boolean;
+  idn?: boolean;
+  scoringProfile?: string;
+  niceClasses?: number[];
+  marketLanguages?: ScreeningLanguage[];
+  connotationScreening?: ConnotationScreeningMode;
+  connotationAllowlist?: string[];
   maxNames: number;
   yearlyBudget: number;
   loopCount: number;
+  banditStrategy?: BanditStrategyId;
+  nameSources?: NameSourceId[];
+  availabilityProviders?: AvailabilityProviderId[];
+  availabilityQuorum?: AvailabilityQuorum;
+  verifyTopN?: number;
 }
 
 export interface NamelixLogo {
@@ -37,9 +93,38 @@ export interface NamelixLogo {
   hasDomain?: boolean;
 }
 
+export interface NameCandidate extends NamelixLogo {
+  source: NameSourceId;
+}
+
+export interface ProviderVerdict {
+  provider: AvailabilityProviderId;
+  available: boolean;
+  definitive: boolean;
+  priceMicros?: number;
+  currency?: string;
+  period?: number;
+  reason?: string;
+  error?: string;
+}
+
+export interface DomainAvailability {
+  domain: string;
+  available: boolean;
+  definitive: boolean;
+  priceMicros?: number;
+  currency?: string;
+  period?: number;
+  reason?: string;
+  checkType?: AvailabilityCheckType;
+  verdicts?: ProviderVerdict[];
+  conflict?: boolean;
+}
+
 export interface RawDomainResult {
   domain: string;
   sourceName: string;
+  nameSource?: NameSourceId;
   isNamelixPremium: boolean;
   available: boolean;
   definitive: boolean;
@@ -47,6 +132,12 @@ export interface RawDomainResult {
   currency?: string;
   period?: number;
   reason?: string;
+  providerVerdicts?: ProviderVerdict[];
+  conflict?: boolean;
+  checkType?: AvailabilityCheckType;
+  verifiedAt?: number;
+  domainHack?: boolean;
+  unicodeDomain?: string;
 }
 
 export interface DomainResult extends RawDomainResult {
@@ -58,6 +149,43 @@ export interface ValueDriver {
   component: string;
   impact: number;
   detail: string;
+  profile?: string;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn: boolean;
+  marketWeights: Record<MarketComponent | MarketBonusComponent, number>;
+  financialWeights: Record<FinancialComponent, number>;
+  blend: {
+    financial: number;
+    marketability: number;
+  };
+  tldModifiers: Record<string, number>;
+  defaultTldModifier: number;
+}
+
+export interface TrademarkMatch {
+  mark: string;
+  matchType: TrademarkMatchType;
+  classes: number[];
+  owner?: string;
+  registration?: string;
+  office?: string;
+}
+
+export interface ConnotationFlag {
+  word: string;
+  language: ScreeningLanguage;
+  category: ConnotationCategory;
+}
+
+export interface BrandMatch {
+  brand: string;
+  similarity: number;
+  reason: BrandMatchReason;
 }
 
 export interface RankedDomainResult extends DomainResult {
@@ -68,6 +196,12 @@ export interface RankedDomainResult extends DomainResult {
   labelLength: number;
   valueDrivers: ValueDriver[];
   valueDetractors: ValueDriver[];
+  trademarkRisk?: TrademarkRiskLevel;
+  trademarkMatches?: TrademarkMatch[];
+  connotationFlags?: ConnotationFlag[];
+  brandCollisionScore?: number;
+  brandMatches?: BrandMatch[];
+  labelSegments?: string[];
   firstSeenLoop: number;
   lastSeenLoop: number;
   timesDiscovered: number;
@@ -85,6 +219,7 @@ export interface LoopSummary {
   skipped: boolean;
   limitHit: boolean;
   skipReason?: string;
+  failedSources?: NameSourceId[];
   consideredCount: number;
   batchCount: number;
   discoveredCount: number;
@@ -103,9 +238,38 @@ export interface TuningStep {
   selectedStyle: StyleValue;
   selectedRandomness: RandomnessValue;
   selectedMutationIntensity: MutationIntensityValue;
+  banditStrategy: BanditStrategyId;
   reward: number;
 }
 
+export interface ShortlistVerification {
+  checkType: AvailabilityCheckType;
+  requested: number;
+  confirmed: number;
+  demoted: number;
+  completedAt: number;
+  error?: string;
+}
+
+export interface TldOption {
+  tld: string;
+  domain: string;
+  available: boolean;
+  definitive: boolean;
+  price?: number;
+  currency?: string;
+  overBudget: boolean;
+  reason?: string;
+}
+
+export interface LabelTldGroup {
+  label: string;
+  options: TldOption[];
+  availableTlds: string[];
+  bestTld?: string;
+  bestDomain?: string;
+}
+
 export interface SearchResults {
   withinBudget: RankedDomainResult[];
   overBudget: RankedDomainResult[];
@@ -113,9 +277,32 @@ export interface SearchResults {
   allRanked: RankedDomainResult[];
   loopSummaries: LoopSummary[];
   tuningHistory: TuningStep[];
+  verification?: ShortlistVerification;
+  invalid?: RawDomainResult[];
+  labelGroups?: LabelTldGroup[];
+}
+
+export interface SearchCheckpoint {
+  completedLoop: number;
+  aggregate: RankedDomainResult[];
+  loopSummaries: LoopSummary[];
+  tuningHistory: TuningStep[];
+  tldOptions?: TldOption[];
+  optimizer: OptimizerCheckpoint;
+  savedAt: number;
 }
 
-export type JobStatus = "queued" | "running" | "done" | "failed";
+export const JOB_STATUS_VALUES = [
+  "queued",
+  "running",
+  "paused",
+  "done",
+  "failed",
+  "cancelled",
+  "interrupted",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUS_VALUES)[number];
 export type JobPhase = "namelix" | "godaddy" | "looping" | "finalize" | null;
 
 export interface JobError {
@@ -137,8 +324,87 @@ export interface SearchJob {
   totalLoops?: number;
   results?: SearchResults;
   error?: JobError;
+  checkpoint?: SearchCheckpoint;
+}
+
+export interface SearchJobView {
+  id: string;
+  status: JobStatus;
+  phase: JobPhase;
+  progress: number;
+  currentLoop?: number;
+  totalLoops?: number;
+  results?: SearchResults;
+  error?: JobError;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  resumableFromLoop?: number;
+}
+
+export interface SearchJobSummary {
+  id: string;
+  status: JobStatus;
+  input: SearchRequest;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  topDomain?: string;
+  topScore?: number;
+  completedLoops: number;
+  totalLoops: number;
+  durationMs?: number;
+}
+
+export interface SearchJobPage {
+  items: SearchJobSummary[];
+  nextCursor?: string;
 }
 
+export type JobProgressView = Pick<
+  SearchJobView,
+  "status" | "phase" | "progress" | "currentLoop" | "totalLoops" | "error" | "resumableFromLoop"
+>;
+
+export interface JobEventDataMap {
+  snapshot: SearchJobView;
+  phase: JobProgressView;
+  batch: {
+    loop: number;
+    batch: number;
+    freshCount: number;
+    qualifiedCount: number;
+    summary: LoopSummary;
+  };
+  domains: {
+    loop: number;
+    batch: number;
+    domains: RankedDomainResult[];
+  };
+  loop: {
+    summary: LoopSummary;
+  };
+  tuning: {
+    step: TuningStep;
+  };
+  complete: {
+    results: SearchResults;
+  };
+  failed: {
+    error: JobError;
+  };
+}
+
+export type JobEventType = keyof JobEventDataMap;
+
+export type JobEvent = {
+  [K in JobEventType]: {
+    id: number;
+    type: K;
+    data: JobEventDataMap[K];
+  };
+}[JobEventType];
+
 export interface CachedSearchResult {
   rawResults: RawDomainResult[];
   createdAt: number;
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveAvailabilityConsensus } from "@/lib/availability/consensus";
+import type { ProviderVerdict } from "@/lib/types";
+
+const fastAvailable: ProviderVerdict = {
+  provider: "godaddy",
+  available: true,
+  definitive: true,
+  priceMicros: 12_000_000,
+  currency: "USD",
+};
+const rdapTaken: ProviderVerdict = {
+  provider: "rdap",
+  available: false,
+  definitive: true,
+  reason: "Registered according to RDAP.",
+};
+const rdapFree: ProviderVerdict = {
+  provider: "rdap",
+  available: true,
+  definitive: true,
+};
+
+describe("availability consensus", () => {
+  it("flags conflicts and lets the first definitive verdict win", () => {
+    const result = resolveAvailabilityConsensus("nova.com", [fastAvailable, rdapTaken], "first-definitive");
+
+    expect(result.conflict).toBe(true);
+    expect(result.available).toBe(true);
+    expect(result.verdicts).toHaveLength(2);
+    expect(result.reason).toContain("godaddy=available");
+    expect(result.reason).toContain("rdap=taken");
+  });
+
+  it("requires unanimity for all-agree", () => {
+    const conflicted = resolveAvailabilityConsensus("nova.com", [fastAvailable, rdapTaken], "all-agree");
+    const agreed = resolveAvailabilityConsensus("nova.com", [fastAvailable, rdapFree], "all-agree");
+
+    expect(conflicted.available).toBe(false);
+    expect(conflicted.definitive).toBe(false);
+    expect(agreed).toMatchObject({ available: true, definitive: true, conflict: false, priceMicros: 12_000_000 });
+  });
+
+  it("treats majority ties as unavailable and non-definitive", () => {
+    const result = resolveAvailabilityConsensus("nova.com", [fastAvailable, rdapTaken], "majority");
+
+    expect(result.available).toBe(false);
+    expect(result.definitive).toBe(false);
+  });
+
+  it("ignores provider errors when voting", () => {
+    const result = resolveAvailabilityConsensus(
+      "nova.com",
+      [{ provider: "godaddy", available: false, definitive: false, error: "timeout" }, rdapFree],
+      "majority",
+    );
+
+    expect(result).toMatchObject({ available: true, definitive: true, conflict: false });
+  });
+
+  it("takes the period from the verdict that supplied the price", () => {
+    const result = resolveAvailabilityConsensus(
+      "nova.com",
+      [{ ...rdapFree, period: 1 }, { ...fastAvailable, period: 2 }],
+      "first-definitive",
+    );
+
+    expect(result).toMatchObject({ priceMicros: 12_000_000, currency: "USD", period: 2 });
+  });
+
+  it("leaves a conflicted domain resolved as taken unpriced", () => {
+    const priced = { ...fastAvailable, period: 1 };
+    const results = [
+      resolveAvailabilityConsensus("nova.com", [priced, rdapTaken], "all-agree"),
+      resolveAvailabilityConsensus("nova.com", [priced, rdapTaken], "majority"),
+      resolveAvailabilityConsensus("nova.com", [rdapTaken, priced], "first-definitive"),
+    ];
+
+    for (const result of results) {
+      expect(result).toMatchObject({ available: false, conflict: true });
+      expect(result.priceMicros).toBeUndefined();
+      expect(result.currency).toBeUndefined();
+      expect(result.period).toBeUndefined();
+    }
+  });
+});
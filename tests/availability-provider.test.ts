@@ -0,0 +1,111 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  AvailabilityProviderError,
+  parseAvailabilityProvidersEnv,
+  resolveAvailabilityProviders,
+} from "@/lib/availability/provider";
+import {
+  RdapBootstrapError,
+  RdapRateLimitError,
+  createRdapAvailabilityProvider,
+  parseRdapBootstrap,
+} from "@/lib/availability/rdap";
+
+const bootstrap = {
+  version: "1.0",
+  services: [
+    [["com", "net"], ["https://rdap.example-registry.test/v1/"]],
+    [["io"], ["http://rdap.io.test", "https://rdap.io.test/"]],
+  ],
+};
+
+let tempDir: string;
+let bootstrapFile: string;
+const originalProviders = process.env.AVAILABILITY_PROVIDERS;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(path.join(os.tmpdir(), "rdap-"));
+  bootstrapFile = path.join(tempDir, "dns.json");
+  await writeFile(bootstrapFile, JSON.stringify(bootstrap), "utf8");
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  process.env.AVAILABILITY_PROVIDERS = originalProviders;
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("availability provider selection", () => {
+  it("defaults to godaddy and honors request overrides", () => {
+    delete process.env.AVAILABILITY_PROVIDERS;
+
+    expect(resolveAvailabilityProviders().map((provider) => provider.id)).toEqual(["godaddy"]);
+    expect(resolveAvailabilityProviders({ availabilityProviders: ["rdap"] }).map((provider) => provider.id)).toEqual([
+      "rdap",
+    ]);
+  });
+
+  it("reads providers from the environment", () => {
+    process.env.AVAILABILITY_PROVIDERS = "rdap, godaddy";
+
+    expect(resolveAvailabilityProviders().map((provider) => provider.id)).toEqual(["rdap", "godaddy"]);
+  });
+
+  it("rejects unknown environment providers", () => {
+    expect(() => parseAvailabilityProvidersEnv("godaddy,whois")).toThrow(AvailabilityProviderError);
+  });
+});
+
+describe("RDAP availability provider", () => {
+  it("maps tlds to https registry servers", () => {
+    const servers = parseRdapBootstrap(bootstrap);
+
+    expect(servers.get("net")).toBe("https://rdap.example-registry.test/v1/");
+    expect(servers.get("io")).toBe("https://rdap.io.test/");
+    expect(() => parseRdapBootstrap({ services: [] })).toThrow(RdapBootstrapError);
+  });
+
+  it("reports registered versus unregistered without pricing", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      new Response(null, { status: url.endsWith("/freename.com") ? 404 : 200 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createRdapAvailabilityProvider({ bootstrapFile, bootstrapUrl: "unused" });
+    const results = await provider.checkAvailability(["FreeName.com", "taken.com", "name.zz"]);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://rdap.example-registry.test/v1/domain/freename.com",
+      expect.anything(),
+    );
+    expect(results.get("freename.com")).toMatchObject({ available: true, definitive: true });
+    expect(results.get("freename.com")?.priceMicros).toBeUndefined();
+    expect(results.get("taken.com")).toMatchObject({ available: false, definitive: true });
+    expect(results.get("name.zz")).toMatchObject({ available: false, definitive: false });
+  });
+
+  it("raises a typed error when rate limit retries are exhausted", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null, { status: 429, headers: { "retry-after": "0" } })),
+    );
+
+    const provider = createRdapAvailabilityProvider({ bootstrapFile, bootstrapUrl: "unused" });
+
+    await expect(provider.checkAvailability(["busy.com"])).rejects.toBeInstanceOf(RdapRateLimitError);
+  });
+
+  it("raises a bootstrap error when the bootstrap file is missing", async () => {
+    const provider = createRdapAvailabilityProvider({
+      bootstrapFile: path.join(tempDir, "missing.json"),
+      bootstrapUrl: "unused",
+    });
+
+    await expect(provider.checkAvailability(["any.com"])).rejects.toBeInstanceOf(RdapBootstrapError);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { areKeysAdjacent, assessBrandCollision, typoDistance } from "@/lib/screening/brands";
+import { scoreDomainResult } from "@/lib/search/scoring";
+import type { DomainResult, SearchRequest } from "@/lib/types";
+
+const input: SearchRequest = {
+  keywords: "video streaming",
+  style: "brandable",
+  randomness: "medium",
+  maxLength: 25,
+  tld: "com",
+  maxNames: 10,
+  yearlyBudget: 50,
+  loopCount: 1,
+};
+
+function createResult(domain: string): DomainResult {
+  return {
+    domain,
+    sourceName: domain,
+    isNamelixPremium: false,
+    available: true,
+    definitive: true,
+    price: 12,
+    overBudget: false,
+  };
+}
+
+describe("brand collision detection", () => {
+  it("treats neighbouring keys and doubled letters as cheap typos", () => {
+    expect(areKeysAdjacent("g", "t")).toBe(true);
+    expect(areKeysAdjacent("g", "b")).toBe(true);
+    expect(areKeysAdjacent("g", "p")).toBe(false);
+    expect(typoDistance("goigle", "google")).toBe(0.5);
+    expect(typoDistance("gogle", "google")).toBe(0.5);
+    expect(typoDistance("googel", "google")).toBe(1);
+  });
+
+  it("finds typo, phonetic and combosquatting look-alikes", () => {
+    expect(assessBrandCollision("netflix")).toMatchObject({ score: 100, matches: [{ brand: "netflix", reason: "exact" }] });
+    expect(assessBrandCollision("amazom").matches[0]).toMatchObject({ brand: "amazon", reason: "typo" });
+    expect(assessBrandCollision("orakle").matches[0]).toMatchObject({ brand: "oracle", reason: "phonetic" });
+    expect(assessBrandCollision("mynetflix").matches[0]).toMatchObject({ brand: "netflix", reason: "contains" });
+    expect(assessBrandCollision("novalane")).toEqual({ score: 0, matches: [] });
+  });
+
+  it("does not treat names that merely contain an everyday-word brand as combosquatting", () => {
+    for (const label of ["pineapple", "windowsclean", "slackline", "babyzoom", "targetpro"]) {
+      expect(assessBrandCollision(label).score, label).toBeLessThan(75);
+    }
+    expect(assessBrandCollision("apple").matches[0]).toMatchObject({ brand: "apple", reason: "exact" });
+  });
+
+  it("turns close look-alikes into a brandCollision detractor", () => {
+    const lookalike = scoreDomainResult(createResult("netflx.com"), input);
+    const distinct = scoreDomainResult(createResult("zuvora.com"), input);
+
+    expect(lookalike.brandCollisionScore).toBeGreaterThanOrEqual(75);
+    expect(lookalike.brandMatches[0]?.brand).toBe("netflix");
+    expect(lookalike.valueDetractors[0]).toMatchObject({ component: "brandCollision" });
+    expect(lookalike.valueDetractors[0]?.detail).toContain('"netflix"');
+    expect(distinct.brandCollisionScore).toBe(0);
+    expect(distinct.valueDetractors.some((driver) => driver.component === "brandCollision")).toBe(false);
+  });
+});
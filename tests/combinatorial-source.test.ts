@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { mulberry32 } from "@/lib/random";
+import {
+  blendPortmanteau,
+  dropVowels,
+  generateCombinatorialNames,
+  romanize,
+} from "@/lib/sources/combinatorial";
+import { DICTIONARY_WORDS } from "@/lib/sources/word-list";
+import type { SearchRequest } from "@/lib/types";
+
+const baseInput: SearchRequest = {
+  keywords: "solar coffee",
+  description: "fresh brew roastery",
+  style: "twowords",
+  randomness: "low",
+  blacklist: "",
+  maxLength: 14,
+  tld: "com",
+  maxNames: 20,
+  yearlyBudget: 50,
+  loopCount: 1,
+};
+
+describe("combinatorial name source", () => {
+  it("is deterministic for a fixed seed", () => {
+    const a = generateCombinatorialNames(baseInput, mulberry32(42));
+    const b = generateCombinatorialNames(baseInput, mulberry32(42));
+
+    expect(a).toEqual(b);
+    expect(a.length).toBeGreaterThan(0);
+  });
+
+  it("honors maxLength, maxNames and blacklist", () => {
+    const logos = generateCombinatorialNames(
+      { ...baseInput, style: "default", randomness: "high", maxLength: 8, blacklist: "star" },
+      mulberry32(7),
+    );
+
+    expect(logos.length).toBeLessThanOrEqual(baseInput.maxNames);
+    expect(logos.every((logo) => logo.businessName.length <= 8)).toBe(true);
+    expect(logos.every((logo) => !logo.businessName.toLowerCase().includes("star"))).toBe(true);
+  });
+
+  it("stays close to seed tokens at low randomness", () => {
+    const logos = generateCombinatorialNames(baseInput, mulberry32(3));
+    const seeded = logos.filter((logo) => /solar|coffee|fresh|brew|roastery/i.test(logo.businessName));
+
+    expect(seeded.length / logos.length).toBeGreaterThan(0.5);
+  });
+
+  it("picks dictionary style names from the bundled word list", () => {
+    const logos = generateCombinatorialNames({ ...baseInput, style: "dictionary" }, mulberry32(11));
+    const words = new Set<string>(DICTIONARY_WORDS);
+
+    expect(logos.every((logo) => words.has(logo.businessName.toLowerCase()))).toBe(true);
+  });
+
+  it("builds portmanteaus, vowel drops and romance variants", () => {
+    expect(blendPortmanteau("breakfast", "lunch", mulberry32(1))).not.toBe("breakfastlunch");
+    expect(dropVowels("flicker")).toBe("flckr");
+    expect(romanize("brew", mulberry32(5))).toMatch(/^brev/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { screenConnotations } from "@/lib/screening/connotations";
+import { buildDomainCandidates } from "@/lib/search/runner";
+import { scoreDomainResult } from "@/lib/search/scoring";
+import type { DomainResult, SearchRequest } from "@/lib/types";
+
+const input: SearchRequest = {
+  keywords: "kitchen tools",
+  style: "compound",
+  randomness: "medium",
+  maxLength: 25,
+  tld: "com",
+  maxNames: 10,
+  yearlyBudget: 50,
+  loopCount: 1,
+};
+
+function createResult(domain: string): DomainResult {
+  return {
+    domain,
+    sourceName: domain,
+    isNamelixPremium: false,
+    available: true,
+    definitive: true,
+    price: 12,
+    overBudget: false,
+  };
+}
+
+describe("connotation screening", () => {
+  it("applies substring, prefix and exact rules per language", () => {
+    expect(screenConnotations("shitbox", { languages: ["en"] })).toEqual([
+      { word: "shit", language: "en", category: "profanity" },
+    ]);
+    // Exact-only entries do not fire inside longer words.
+    expect(screenConnotations("giftbox", { languages: ["de"] })).toEqual([]);
+    expect(screenConnotations("gift", { languages: ["de"] })[0]).toMatchObject({ category: "negative" });
+    expect(screenConnotations("putaverde", { languages: ["en"] })).toEqual([]);
+    expect(screenConnotations("putaverde", { languages: ["en", "es"] })[0]).toMatchObject({ word: "puta" });
+  });
+
+  it("checks hyphenated parts and accent-folded forms", () => {
+    expect(screenConnotations("fu-ck", { languages: ["en"] })[0]).toMatchObject({ word: "fuck" });
+    expect(screenConnotations("blue-ass", { languages: ["en"] })[0]).toMatchObject({ word: "ass" });
+    expect(screenConnotations("nègrebox", { languages: ["fr"] })[0]).toMatchObject({ category: "slur" });
+  });
+
+  it("ignores hits inside allowlisted words", () => {
+    expect(screenConnotations("peacockhub", { languages: ["en"] })).toEqual([]);
+    expect(screenConnotations("classicsussex", { languages: ["en"] })).toEqual([]);
+    expect(screenConnotations("shopcockpit", { languages: ["en"] })).toEqual([]);
+    expect(screenConnotations("hotcocoa", { languages: ["en"] })).toEqual([]);
+    expect(screenConnotations("scrapbox", { languages: ["en"], allowlist: [] })).toEqual([]);
+    expect(screenConnotations("crapbox", { languages: ["en"], allowlist: ["crapbox"] })).toEqual([]);
+  });
+
+  it("penalizes flagged labels in scoring unless screening is off", () => {
+    const clean = scoreDomainResult(createResult("merdabox.com"), { ...input, connotationScreening: "off" });
+    const penalized = scoreDomainResult(createResult("merdabox.com"), { ...input, marketLanguages: ["en", "it"] });
+
+    expect(clean.connotationFlags).toBeUndefined();
+    expect(penalized.connotationFlags).toEqual([{ word: "merda", language: "it", category: "profanity" }]);
+    expect(penalized.overallScore).toBeCloseTo(clean.overallScore * 0.5, 1);
+    expect(penalized.valueDetractors[0]).toMatchObject({ component: "negativeConnotation" });
+    expect(penalized.valueDetractors[0]?.detail).toContain("Italian");
+  });
+
+  it("drops flagged names before availability checks in exclude mode", () => {
+    const { candidates, invalid } = buildDomainCandidates(
+      { ...input, marketLanguages: ["en", "de"], connotationScreening: "exclude" },
+      [{ businessName: "Arschbox" }, { businessName: "Kochbox" }],
+    );
+
+    expect(candidates.map((candidate) => candidate.domain)).toEqual(["kochbox.com"]);
+    expect(invalid[0]?.reason).toContain("German");
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { GoDaddyAvailability } from "@/lib/godaddy/client";
+import { runDomainChecks } from "@/lib/search/checks";
+import { domainCheckRequestSchema } from "@/lib/search/schema";
+
+const { checkAvailabilityBulkMock } = vi.hoisted(() => ({
+  checkAvailabilityBulkMock:
+    vi.fn<
+      (domains: string[], checkType?: "FAST" | "FULL", signal?: AbortSignal) => Promise<Map<string, GoDaddyAvailability>>
+    >(),
+}));
+
+vi.mock("@/lib/godaddy/client", async () => {
+  const actual = await vi.importActual<typeof import("@/lib/godaddy/client")>("@/lib/godaddy/client");
+  return {
+    ...actual,
+    checkAvailabilityBulk: checkAvailabilityBulkMock,
+  };
+});
+
+const PRICES: Record<string, number> = {
+  "novalane.com": 12_000_000,
+  "acme.io": 45_000_000,
+  "brightpath.com": 250_000_000,
+};
+
+beforeEach(() => {
+  checkAvailabilityBulkMock.mockReset();
+  checkAvailabilityBulkMock.mockImplementation(async (domains) => {
+    const map = new Map<string, GoDaddyAvailability>();
+    for (const domain of domains) {
+      const priceMicros = PRICES[domain];
+      map.set(domain, {
+        domain,
+        available: priceMicros !== undefined,
+        definitive: true,
+        priceMicros,
+        currency: priceMicros !== undefined ? "USD" : undefined,
+        period: 1,
+        reason: priceMicros !== undefined ? undefined : "taken",
+      });
+    }
+
+    return map;
+  });
+});
+
+describe("runDomainChecks", () => {
+  it("prices, scores and classifies a user-supplied list without generation", async () => {
+    const request = domainCheckRequestSchema.parse({
+      names: ["NovaLane", "acme.io", "BrightPath", "Taken", "novalane.com", "!!!", "Extraordinarily Long Name"],
+      keywords: "nova path",
+      maxLength: 15,
+      yearlyBudget: 100,
+    });
+
+    const results = await runDomainChecks(request);
+
+    expect(results.withinBudget.map((row) => row.domain)).toEqual(["novalane.com", "acme.io"]);
+    expect(results.overBudget.map((row) => row.domain)).toEqual(["brightpath.com"]);
+    expect(results.unavailable.map((row) => row.domain)).toEqual(["taken.com"]);
+    expect(results.allRanked.every((row) => row.overallScore > 0 && row.valueDrivers.length > 0)).toBe(true);
+    expect(results.loopSummaries).toEqual([]);
+    expect(results.tuningHistory).toEqual([]);
+    expect(results.invalid?.map((row) => row.sourceName)).toEqual(["!!!", "Extraordinarily Long Name"]);
+    expect(results.invalid?.[1]?.reason).toContain("exceeds maxLength 15");
+
+    const checkedDomains = checkAvailabilityBulkMock.mock.calls.flatMap(([domains]) => domains);
+    expect(checkedDomains.sort()).toEqual(["acme.io", "brightpath.com", "novalane.com", "taken.com"]);
+  });
+
+  it("checks bare names on every requested TLD and picks a best TLD per label", async () => {
+    const request = domainCheckRequestSchema.parse({
+      names: ["NovaLane", "acme.io"],
+      tlds: ["com", "io"],
+      yearlyBudget: 100,
+    });
+
+    const results = await runDomainChecks(request);
+
+    expect(request.tld).toBe("com");
+    expect(results.labelGroups).toEqual([
+      expect.objectContaining({ label: "novalane", availableTlds: ["com"], bestDomain: "novalane.com" }),
+      expect.objectContaining({ label: "acme", availableTlds: ["io"], bestDomain: "acme.io" }),
+    ]);
+    expect(results.unavailable.map((row) => row.domain)).toEqual(["novalane.io"]);
+  });
+
+  it("splits full domains at a known TLD and rejects subdomains and unknown TLDs", async () => {
+    const request = domainCheckRequestSchema.parse({
+      names: ["acme.io", "brand.co.uk", "brand.notatld", "St. Louis Bakery"],
+      yearlyBudget: 100,
+    });
+
+    const results = await runDomainChecks(request);
+
+    expect(results.invalid).toEqual([
+      expect.objectContaining({ sourceName: "brand.co.uk", reason: expect.stringContaining('"brand.co"') }),
+      expect.objectContaining({ sourceName: "brand.notatld", reason: expect.stringContaining("known TLD") }),
+    ]);
+    const checkedDomains = checkAvailabilityBulkMock.mock.calls.flatMap(([domains]) => domains);
+    expect(checkedDomains.sort()).toEqual(["acme.io", "st-louis-bakery.com"]);
+  });
+
+  it("rejects requests without names", () => {
+    expect(domainCheckRequestSchema.safeParse({ names: [], yearlyBudget: 50 }).success).toBe(false);
+  });
+});
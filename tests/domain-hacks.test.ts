@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { findDomainHacks } from "@/lib/domain/hacks";
+import { buildDomainCandidates } from "@/lib/search/runner";
+import type { SearchRequest } from "@/lib/types";
+
+const input: SearchRequest = {
+  keywords: "brand tools",
+  style: "default",
+  randomness: "medium",
+  maxLength: 20,
+  tld: "com",
+  maxNames: 10,
+  yearlyBudget: 50,
+  loopCount: 1,
+};
+
+describe("domain hacks", () => {
+  it("splits labels whose ending is a real TLD, longest suffix first", () => {
+    expect(findDomainHacks("brandly").map((hack) => hack.domain)).toEqual(["brand.ly"]);
+    expect(findDomainHacks("creativestudio").map((hack) => hack.domain)).toEqual([
+      "creative.studio",
+      "creativestud.io",
+    ]);
+  });
+
+  it("skips splits that leave a short or hyphen-terminated prefix", () => {
+    expect(findDomainHacks("sly")).toEqual([]);
+    expect(findDomainHacks("brand-ly")).toEqual([]);
+  });
+
+  it("adds hack candidates only when the mode is enabled", () => {
+    const logos = [{ businessName: "Brandly" }];
+
+    expect(buildDomainCandidates(input, logos).candidates.map((candidate) => candidate.domain)).toEqual([
+      "brandly.com",
+    ]);
+    expect(buildDomainCandidates({ ...input, domainHacks: true }, logos).candidates).toEqual([
+      expect.objectContaining({ domain: "brandly.com", label: "brandly" }),
+      expect.objectContaining({ domain: "brand.ly", label: "brandly", domainHack: true }),
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import { scoreEnglishLikeness, segmentLabel } from "@/lib/language/ngram";
+import { scoreDomainResult } from "@/lib/search/scoring";
+import { DEFAULT_SCORING_PROFILE } from "@/lib/search/scoring-profiles";
+import { MARKET_COMPONENT_VALUES, type DomainResult, type ScoringProfile, type SearchRequest } from "@/lib/types";
+
+const input: SearchRequest = {
+  keywords: "solar coffee",
+  style: "brandable",
+  randomness: "medium",
+  maxLength: 25,
+  tld: "com",
+  maxNames: 10,
+  yearlyBudget: 50,
+  loopCount: 1,
+};
+
+const languageOnly: ScoringProfile = {
+  ...DEFAULT_SCORING_PROFILE,
+  id: "language-only",
+  marketWeights: {
+    ...DEFAULT_SCORING_PROFILE.marketWeights,
+    ...Object.fromEntries(MARKET_COMPONENT_VALUES.map((component) => [component, 0])),
+    englishLikeness: 0.5,
+    wordSegmentation: 0.5,
+  },
+};
+
+function createResult(domain: string): DomainResult {
+  return {
+    domain,
+    sourceName: domain,
+    isNamelixPremium: false,
+    available: true,
+    definitive: true,
+    price: 12,
+    overBudget: false,
+  };
+}
+
+describe("English-likeness model", () => {
+  it("rates natural letter sequences above random ones", () => {
+    const natural = scoreEnglishLikeness("starbright");
+    const random = scoreEnglishLikeness("xqzvbt");
+
+    expect(natural.score).toBeGreaterThan(80);
+    expect(random.score).toBeLessThan(10);
+    expect(random.weakestSpot).toBe("xq");
+    expect(scoreEnglishLikeness("solarbrew").score).toBeGreaterThan(scoreEnglishLikeness("zuvora").score);
+  });
+
+  it("segments labels into probable words", () => {
+    expect(segmentLabel("solarbrew")).toEqual({ segments: ["solar", "brew"], wordCount: 2, coverage: 1 });
+    expect(segmentLabel("bright-path").segments).toEqual(["bright", "path"]);
+    expect(segmentLabel("brandly")).toEqual({ segments: ["brand", "ly"], wordCount: 1, coverage: 0.714 });
+    expect(segmentLabel("qwrtp")).toEqual({ segments: ["qwrtp"], wordCount: 0, coverage: 0 });
+  });
+
+  it("adds explained marketability components and label segments", () => {
+    const scored = scoreDomainResult(createResult("solarbrew.com"), input, languageOnly);
+    const components = [...scored.valueDrivers, ...scored.valueDetractors];
+
+    expect(scored.labelSegments).toEqual(["solar", "brew"]);
+    expect(components.find((driver) => driver.component === "wordSegmentation")?.detail).toBe(
+      'Reads as "solar|brew" (100% dictionary words).',
+    );
+    expect(components.find((driver) => driver.component === "englishLikeness")?.detail).toMatch(
+      /^Character model rates "solarbrew" \d+\/100 as English; least natural sequence "\w+"\.$/,
+    );
+
+    const random = scoreDomainResult(createResult("xqzvbt.com"), input, languageOnly);
+    expect(random.valueDetractors.map((driver) => driver.component)).toContain("englishLikeness");
+    expect(random.marketabilityScore).toBeLessThan(scored.marketabilityScore);
+  });
+});
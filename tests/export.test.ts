@@ -0,0 +1,111 @@
+import { inflateRawSync } from "node:zlib";
+
+import { describe, expect, it } from "vitest";
+
+import { EXPORT_COLUMN_VALUES } from "@/lib/export/columns";
+import { generateCsv, generateJsonLines, toCsvLine } from "@/lib/export/text";
+import { buildXlsxWorkbook, columnName } from "@/lib/export/xlsx";
+import { crc32 } from "@/lib/export/zip";
+import { exportQuerySchema } from "@/lib/search/schema";
+import type { RankedDomainResult } from "@/lib/types";
+
+function createRow(domain: string, overrides: Partial<RankedDomainResult> = {}): RankedDomainResult {
+  return {
+    domain,
+    sourceName: domain.split(".")[0] ?? domain,
+    isNamelixPremium: false,
+    available: true,
+    definitive: true,
+    price: 12.99,
+    currency: "USD",
+    overBudget: false,
+    marketabilityScore: 70,
+    financialValueScore: 60,
+    overallScore: 66,
+    syllableCount: 2,
+    labelLength: 6,
+    valueDrivers: [{ component: "shortLabel", impact: 8, detail: "6 characters" }],
+    valueDetractors: [{ component: "hyphen", impact: -4.5, detail: "contains, a hyphen" }],
+    firstSeenLoop: 1,
+    lastSeenLoop: 3,
+    timesDiscovered: 2,
+    ...overrides,
+  };
+}
+
+function readZipEntries(archive: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString("utf8");
+    const dataStart = offset + 30 + nameLength;
+    entries.set(name, inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString("utf8"));
+    offset = dataStart + compressedSize;
+  }
+
+  return entries;
+}
+
+describe("search result export", () => {
+  it("defaults to every column and validates requested columns", () => {
+    expect(exportQuerySchema.parse({})).toEqual({
+      format: "csv",
+      columns: [...EXPORT_COLUMN_VALUES],
+      sort: "marketability",
+    });
+    expect(exportQuerySchema.parse({ columns: "domain, price,domain", sort: "alphabetical" }).columns).toEqual([
+      "domain",
+      "price",
+    ]);
+    expect(exportQuerySchema.safeParse({ columns: "domain,secret" }).success).toBe(false);
+    expect(exportQuerySchema.safeParse({ format: "pdf" }).success).toBe(false);
+  });
+
+  it("writes escaped CSV with flattened drivers", () => {
+    const lines = Array.from(generateCsv([createRow("nova.com")], ["domain", "price", "valueDetractors"]));
+
+    expect(lines[0]).toBe("\uFEFFDomain,Price,Value Detractors\r\n");
+    expect(lines[1]).toBe('nova.com,12.99,"hyphen (-4.5): contains, a hyphen"\r\n');
+  });
+
+  it("keeps CSV text cells from being read as formulas", () => {
+    expect(toCsvLine(["=HYPERLINK(\"x\")", "+1", "-cmd", "@sum", -4.5, "nova.com"])).toBe(
+      `"'=HYPERLINK(""x"")",'+1,'-cmd,'@sum,-4.5,nova.com\r\n`,
+    );
+    expect(toCsvLine(["\t=cmd", "\r=cmd"])).toBe(`'\t=cmd,"'\r=cmd"\r\n`);
+  });
+
+  it("writes one JSON object per line with the selected columns", () => {
+    const lines = Array.from(generateJsonLines([createRow("nova.com"), createRow("brio.com")], ["domain", "valueDrivers"]));
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1] ?? "")).toEqual({ domain: "brio.com", valueDrivers: "shortLabel (+8.0): 6 characters" });
+  });
+
+  it("packages an XLSX workbook with typed cells", () => {
+    const workbook = buildXlsxWorkbook([createRow("a&b.com", { nameSource: "namelix" })], ["domain", "overallScore", "definitive"]);
+    const entries = readZipEntries(workbook);
+
+    expect(Array.from(entries.keys())).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+
+    const sheet = entries.get("xl/worksheets/sheet1.xml") ?? "";
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">Domain</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">a&amp;b.com</t>');
+    expect(sheet).toContain('<c r="B2"><v>66</v></c>');
+    expect(sheet).toContain('<c r="C2" t="b"><v>1</v></c>');
+  });
+
+  it("computes standard CRC-32 checksums and spreadsheet column names", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual(["A", "Z", "AA", "AB", "ZZ", "AAA"]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+
+import { assessHomographRisk, toLatinSkeleton } from "@/lib/domain/homograph";
+import { normalizeBusinessNameToIdnLabel, toIdnLabel } from "@/lib/domain/idn";
+import { normalizeTld } from "@/lib/domain/normalize";
+import { buildDomainCandidates } from "@/lib/search/runner";
+import { scoreDomainResult, screenLabelConnotations } from "@/lib/search/scoring";
+import { DEFAULT_SCORING_PROFILE } from "@/lib/search/scoring-profiles";
+import type { DomainResult, SearchRequest } from "@/lib/types";
+
+const input: SearchRequest = {
+  keywords: "bakery munich",
+  style: "nonenglish",
+  randomness: "medium",
+  maxLength: 20,
+  tld: "de",
+  maxNames: 10,
+  yearlyBudget: 50,
+  loopCount: 1,
+  idn: true,
+};
+
+describe("IDN support", () => {
+  it("keeps umlauts and converts labels to punycode", () => {
+    expect(normalizeBusinessNameToIdnLabel("Bäckerei Müller")).toEqual({
+      ascii: "xn--bckerei-mller-bfb28a",
+      unicode: "bäckerei-müller",
+    });
+    expect(toIdnLabel("ab--cd")).toBeNull();
+    expect(toIdnLabel("-münchen")).toBeNull();
+    expect(normalizeBusinessNameToIdnLabel("‍")).toBeNull();
+  });
+
+  it("accepts Unicode and xn-- TLDs", () => {
+    expect(normalizeTld("рф")).toBe("xn--p1ai");
+    expect(normalizeTld(".XN--P1AI")).toBe("xn--p1ai");
+    expect(normalizeTld("xn--zz")).toBeNull();
+  });
+
+  it("builds punycode candidates with their Unicode form in IDN mode", () => {
+    const { candidates } = buildDomainCandidates(input, [{ businessName: "Grüße" }]);
+
+    expect(candidates).toEqual([
+      expect.objectContaining({ domain: "xn--gre-6ka8l.de", unicodeDomain: "grüße.de" }),
+    ]);
+    expect(buildDomainCandidates({ ...input, idn: false }, [{ businessName: "Grüße" }]).candidates[0]?.domain).toBe(
+      "gru-e.de",
+    );
+  });
+
+  it("flags mixed-script and lookalike labels as homograph risks", () => {
+    expect(assessHomographRisk("pаypal").risky).toBe(true);
+    expect(assessHomographRisk("рор").risky).toBe(true);
+    expect(assessHomographRisk("müller").risky).toBe(false);
+    expect(assessHomographRisk("москва").risky).toBe(false);
+
+    const scored = scoreDomainResult(
+      {
+        domain: "xn--pypal-4ve.com",
+        unicodeDomain: "pаypal.com",
+        sourceName: "Paypal",
+        isNamelixPremium: false,
+        available: true,
+        definitive: true,
+        price: 12,
+        overBudget: false,
+      },
+      input,
+    );
+
+    // The spoofed label is also a look-alike of the PayPal brand.
+    expect(scored.valueDetractors.map((driver) => driver.component)).toEqual(
+      expect.arrayContaining(["homographRisk", "brandCollision"]),
+    );
+    expect(scored.labelLength).toBe(6);
+  });
+
+  it("deducts the homograph risk and screens look-alikes as the Latin name they imitate", () => {
+    const result = (domain: string, unicodeDomain?: string): DomainResult => ({
+      domain,
+      unicodeDomain,
+      sourceName: "Paypal",
+      isNamelixPremium: false,
+      available: true,
+      definitive: true,
+      price: 12,
+      overBudget: false,
+    });
+    const spoof = result("xn--pypal-4ve.com", "pаypal.com");
+    const unweighted = {
+      ...DEFAULT_SCORING_PROFILE,
+      marketWeights: { ...DEFAULT_SCORING_PROFILE.marketWeights, homographRisk: 0 },
+    };
+
+    const scored = scoreDomainResult(spoof, input);
+    expect(scoreDomainResult(spoof, input, unweighted).marketabilityScore - scored.marketabilityScore).toBeCloseTo(6, 1);
+    expect(toLatinSkeleton("pаypal")).toBe("paypal");
+    expect(scored.brandMatches[0]).toMatchObject({ brand: "paypal", reason: "exact" });
+    expect(scored.overallScore).toBeLessThan(scoreDomainResult(result("paypal.com"), input).overallScore);
+    expect(screenLabelConnotations("fuсk", input)[0]).toMatchObject({ word: "fuck", category: "profanity" });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  formatSseEvent,
+  getJobEventsSince,
+  getLatestJobEventId,
+  isTerminalJobEvent,
+  parseLastEventId,
+  publishJobEvent,
+  subscribeJobEvents,
+} from "@/lib/jobs/events";
+import { createJob, markJobComplete, patchJob } from "@/lib/jobs/store";
+import type { JobEvent } from "@/lib/types";
+
+const emptyResults = {
+  withinBudget: [],
+  overBudget: [],
+  unavailable: [],
+  allRanked: [],
+  loopSummaries: [],
+  tuningHistory: [],
+};
+
+const baseInput = {
+  keywords: "speed tools",
+  description: "",
+  style: "default" as const,
+  randomness: "medium" as const,
+  blacklist: "",
+  maxLength: 10,
+  tld: "com",
+  maxNames: 1,
+  yearlyBudget: 50,
+  loopCount: 1,
+};
+
+describe("job event log", () => {
+  it("replays events after a Last-Event-ID and notifies live subscribers", () => {
+    const jobId = "events-replay";
+    const received: JobEvent[] = [];
+    const unsubscribe = subscribeJobEvents(jobId, (event) => received.push(event));
+
+    publishJobEvent(jobId, "failed", { error: { code: "X", message: "first" } });
+    publishJobEvent(jobId, "tuning", {
+      step: {
+        loop: 1,
+        keywords: "a",
+        description: "",
+        selectedStyle: "default",
+        selectedRandomness: "low",
+        selectedMutationIntensity: "low",
+        banditStrategy: "thompson",
+        reward: 0.5,
+      },
+    });
+    unsubscribe();
+    publishJobEvent(jobId, "complete", { results: emptyResults });
+
+    expect(received.map((event) => event.id)).toEqual([1, 2]);
+    expect(getLatestJobEventId(jobId)).toBe(3);
+    expect(getJobEventsSince(jobId, 1)?.map((event) => event.type)).toEqual(["tuning", "complete"]);
+    expect(getJobEventsSince(jobId, 3)).toEqual([]);
+    expect(getJobEventsSince(jobId, 7)).toBeNull();
+    expect(getJobEventsSince("unknown-job", 0)).toBeNull();
+  });
+
+  it("falls back to a snapshot once the requested position has been trimmed", () => {
+    const jobId = "events-trimmed";
+
+    for (let index = 0; index < 510; index += 1) {
+      publishJobEvent(jobId, "failed", { error: { code: "X", message: String(index) } });
+    }
+
+    expect(getJobEventsSince(jobId, 5)).toBeNull();
+    expect(getJobEventsSince(jobId, 10)?.[0]?.id).toBe(11);
+  });
+
+  it("publishes phase changes and completion from the job store", () => {
+    const job = createJob(baseInput);
+    patchJob(job.id, { status: "running", phase: "namelix", progress: 10 });
+    patchJob(job.id, { results: undefined });
+    markJobComplete(job.id, emptyResults);
+
+    const events = getJobEventsSince(job.id, 0) ?? [];
+    expect(events.map((event) => event.type)).toEqual(["phase", "phase", "complete"]);
+    expect(events[0]).toMatchObject({ type: "phase", data: { status: "running", phase: "namelix", progress: 10 } });
+    expect(events.map(isTerminalJobEvent)).toEqual([false, false, true]);
+  });
+
+  it("formats events for the SSE wire format", () => {
+    const event: JobEvent = { id: 4, type: "failed", data: { error: { code: "X", message: "boom" } } };
+
+    expect(formatSseEvent(event)).toBe('id: 4\nevent: failed\ndata: {"error":{"code":"X","message":"boom"}}\n\n');
+    expect(parseLastEventId("12")).toBe(12);
+    expect(parseLastEventId("abc")).toBeNull();
+    expect(parseLastEventId(null)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { JobCursorError, listJobSummaries, toSearchJobSummary } from "@/lib/jobs/history";
+import { searchListQuerySchema } from "@/lib/search/schema";
+import type { JobStatus, LoopSummary, RankedDomainResult, SearchJob } from "@/lib/types";
+
+function createJob(id: string, createdAt: number, status: JobStatus, keywords: string): SearchJob {
+  return {
+    id,
+    status,
+    phase: null,
+    progress: status === "done" ? 100 : 40,
+    input: {
+      keywords,
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 10,
+      tld: "com",
+      maxNames: 5,
+      yearlyBudget: 50,
+      loopCount: 3,
+    },
+    createdAt,
+    updatedAt: createdAt + 500,
+  };
+}
+
+const jobs: SearchJob[] = [
+  createJob("a", Date.parse("2026-10-01T10:00:00Z"), "done", "coffee roasters"),
+  createJob("b", Date.parse("2026-10-02T10:00:00Z"), "failed", "bike repair"),
+  createJob("c", Date.parse("2026-10-03T10:00:00Z"), "done", "cold brew coffee"),
+  createJob("d", Date.parse("2026-10-04T10:00:00Z"), "running", "coffee subscriptions"),
+];
+
+describe("job history listing", () => {
+  it("filters by status, date range and keyword, newest first", () => {
+    const query = searchListQuerySchema.parse({
+      status: "done,running",
+      from: "2026-10-02",
+      keyword: "COFFEE",
+    });
+
+    expect(listJobSummaries(jobs, query).items.map((item) => item.id)).toEqual(["d", "c"]);
+  });
+
+  it("paginates with an opaque cursor", () => {
+    const first = listJobSummaries(jobs, searchListQuerySchema.parse({ limit: "2" }));
+    expect(first.items.map((item) => item.id)).toEqual(["d", "c"]);
+    expect(first.nextCursor).toBeTypeOf("string");
+
+    const second = listJobSummaries(jobs, searchListQuerySchema.parse({ limit: "2", cursor: first.nextCursor }));
+    expect(second.items.map((item) => item.id)).toEqual(["b", "a"]);
+    expect(second.nextCursor).toBeUndefined();
+
+    expect(() => listJobSummaries(jobs, searchListQuerySchema.parse({ cursor: "not-a-cursor" }))).toThrow(
+      JobCursorError,
+    );
+  });
+
+  it("treats empty filters as no filter", () => {
+    const empty = searchListQuerySchema.parse({ status: "", keyword: " ", from: "", cursor: "" });
+    expect(listJobSummaries(jobs, empty).items.map((item) => item.id)).toEqual(["d", "c", "b", "a"]);
+    expect(searchListQuerySchema.parse({ status: " , " }).status).toBeUndefined();
+  });
+
+  it("rejects unknown statuses", () => {
+    expect(searchListQuerySchema.safeParse({ status: "done,archived" }).success).toBe(false);
+  });
+
+  it("summarizes the top domain, loop progress and duration", () => {
+    const job: SearchJob = {
+      ...createJob("e", 1_000, "done", "coffee"),
+      startedAt: 2_000,
+      completedAt: 62_000,
+      totalLoops: 3,
+      results: {
+        withinBudget: [],
+        overBudget: [],
+        unavailable: [],
+        allRanked: [
+          { domain: "brewly.com", overallScore: 71 } as RankedDomainResult,
+          { domain: "beanbox.com", overallScore: 84 } as RankedDomainResult,
+        ],
+        loopSummaries: [{ loop: 1 }, { loop: 2 }] as LoopSummary[],
+        tuningHistory: [],
+      },
+    };
+
+    expect(toSearchJobSummary(job)).toMatchObject({
+      id: "e",
+      topDomain: "beanbox.com",
+      topScore: 84,
+      completedLoops: 2,
+      totalLoops: 3,
+      durationMs: 60_000,
+    });
+  });
+});
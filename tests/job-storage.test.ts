@@ -0,0 +1,183 @@
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { registerJobControl, releaseJobControl } from "@/lib/jobs/control";
+import { getLatestJobEventId, publishJobEvent } from "@/lib/jobs/events";
+import { createFileJobStorage } from "@/lib/jobs/file-storage";
+import { createMemoryJobStorage, resolveJobRetentionMs, type JobStorageBackend } from "@/lib/jobs/storage";
+import type { SearchJob, SearchResults } from "@/lib/types";
+
+let directory: string;
+
+function createJobRecord(id: string, partial: Partial<SearchJob> = {}): SearchJob {
+  return {
+    id,
+    status: "done",
+    phase: "finalize",
+    progress: 100,
+    input: {
+      keywords: "solar coffee",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 12,
+      tld: "com",
+      maxNames: 10,
+      yearlyBudget: 50,
+      loopCount: 1,
+    },
+    createdAt: 1,
+    updatedAt: 1,
+    ...partial,
+  };
+}
+
+const storeSymbol = Symbol.for("domainname-wizard.store");
+type GlobalWithStore = Record<symbol, { jobs: JobStorageBackend } | undefined>;
+
+/** Loads the job store as a fresh process would, from the storage configured in the environment. */
+async function importFreshStore(): Promise<typeof import("@/lib/jobs/store")> {
+  delete (globalThis as GlobalWithStore)[storeSymbol];
+  vi.resetModules();
+  return import("@/lib/jobs/store");
+}
+
+async function resetStore(): Promise<void> {
+  await (globalThis as GlobalWithStore)[storeSymbol]?.jobs.flush();
+  delete (globalThis as GlobalWithStore)[storeSymbol];
+}
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "jobs-"));
+});
+
+afterEach(async () => {
+  delete process.env.JOB_RETENTION_HOURS;
+  delete process.env.JOB_STORE_BACKEND;
+  delete process.env.JOB_STORE_DIR;
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("job storage backends", () => {
+  it("keeps jobs in memory by default", () => {
+    const storage = createMemoryJobStorage();
+    storage.set(createJobRecord("a"));
+    storage.delete("missing");
+
+    expect(storage.get("a")?.id).toBe("a");
+    expect(storage.list()).toHaveLength(1);
+  });
+
+  it("restores jobs from the journal after a restart", async () => {
+    const first = createFileJobStorage(directory);
+    first.set(createJobRecord("a", { status: "running" }));
+    first.set(createJobRecord("a", { status: "done", completedAt: 5 }));
+    first.set(createJobRecord("b"));
+    first.delete("b");
+    await first.flush();
+
+    const reopened = createFileJobStorage(directory);
+
+    expect(reopened.get("a")).toMatchObject({ status: "done", completedAt: 5 });
+    expect(reopened.get("b")).toBeUndefined();
+    await reopened.flush();
+  });
+
+  it("compacts the journal into a snapshot on load and ignores a truncated tail", async () => {
+    const first = createFileJobStorage(directory);
+    first.set(createJobRecord("a"));
+    await first.flush();
+    await appendFile(path.join(directory, "jobs.journal.jsonl"), '{"op":"set","job":{"id":"tr', "utf8");
+
+    const reopened = createFileJobStorage(directory);
+    await reopened.flush();
+    const journal = await readFile(path.join(directory, "jobs.journal.jsonl"), "utf8");
+    const snapshot = JSON.parse(await readFile(path.join(directory, "jobs.snapshot.json"), "utf8")) as SearchJob[];
+
+    expect(reopened.list().map((job) => job.id)).toEqual(["a"]);
+    expect(journal).toBe("");
+    expect(snapshot.map((job) => job.id)).toEqual(["a"]);
+  });
+
+  it("journals status and checkpoint changes without results and keeps final results on the side", async () => {
+    const results = { allRanked: [], loopSummaries: [] } as unknown as SearchResults;
+    const first = createFileJobStorage(directory);
+    first.set(createJobRecord("a", { status: "running", progress: 10 }));
+    first.set(createJobRecord("a", { status: "running", progress: 40, results }));
+    first.set(createJobRecord("a", { status: "done", progress: 100, results }));
+    await first.flush();
+
+    const journal = await readFile(path.join(directory, "jobs.journal.jsonl"), "utf8");
+    const entries = journal.trim().split("\n").map((line) => JSON.parse(line) as { job: SearchJob });
+    expect(entries.map((entry) => entry.job.status)).toEqual(["running", "done"]);
+    expect(journal).not.toContain("allRanked");
+
+    const reopened = createFileJobStorage(directory);
+    expect(reopened.get("a")).toMatchObject({ status: "done", results });
+
+    reopened.delete("a");
+    await reopened.flush();
+    await expect(readFile(path.join(directory, "results", "a.json"), "utf8")).rejects.toThrow();
+  });
+
+  it("keeps jobs with a live runner when expired jobs and their events are cleaned up", async () => {
+    const seed = createFileJobStorage(directory);
+    seed.set(createJobRecord("old-done"));
+    seed.set(createJobRecord("old-paused", { status: "paused" }));
+    seed.set(createJobRecord("old-cancelling", { status: "cancelled" }));
+    await seed.flush();
+
+    process.env.JOB_STORE_BACKEND = "file";
+    process.env.JOB_STORE_DIR = directory;
+    const cancelling = registerJobControl("old-cancelling");
+    const paused = registerJobControl("old-paused");
+    publishJobEvent("old-done", "failed", { error: { code: "X", message: "expired" } });
+    publishJobEvent("old-paused", "failed", { error: { code: "X", message: "kept" } });
+
+    try {
+      const { listJobs } = await importFreshStore();
+      expect(listJobs().map((job) => job.id).sort()).toEqual(["old-cancelling", "old-paused"]);
+      expect(listJobs().find((job) => job.id === "old-paused")?.status).toBe("paused");
+      expect(getLatestJobEventId("old-done")).toBe(0);
+      expect(getLatestJobEventId("old-paused")).toBe(1);
+    } finally {
+      releaseJobControl("old-cancelling", cancelling);
+      releaseJobControl("old-paused", paused);
+      await resetStore();
+    }
+  });
+
+  it("marks jobs paused before a restart as interrupted and keeps their checkpoint", async () => {
+    const checkpoint = { completedLoop: 2 } as SearchJob["checkpoint"];
+    const seed = createFileJobStorage(directory);
+    seed.set(createJobRecord("paused", { status: "paused", phase: "looping", checkpoint, updatedAt: Date.now() }));
+    await seed.flush();
+
+    process.env.JOB_STORE_BACKEND = "file";
+    process.env.JOB_STORE_DIR = directory;
+
+    try {
+      const { getJob } = await importFreshStore();
+      expect(getJob("paused")).toMatchObject({
+        status: "interrupted",
+        phase: null,
+        checkpoint,
+        error: { code: "JOB_INTERRUPTED", message: expect.stringContaining("resume from loop 3") },
+      });
+    } finally {
+      await resetStore();
+    }
+  });
+
+  it("uses configurable retention with longer defaults for durable storage", () => {
+    expect(resolveJobRetentionMs("memory")).toBe(30 * 60 * 1000);
+    expect(resolveJobRetentionMs("file")).toBe(7 * 24 * 60 * 60 * 1000);
+
+    process.env.JOB_RETENTION_HOURS = "72";
+    expect(resolveJobRetentionMs("memory")).toBe(72 * 60 * 60 * 1000);
+  });
+});
@@ -1,44 +1,261 @@
-import { readFile, rm, writeFile } from "node:fs/promises";
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "node:fs/promises";
+import path from "node:path";
 
 import { afterEach, describe, expect, it } from "vitest";
 
-import { getOptimizerModelPath, loadOptimizerModelState, saveOptimizerModelState } from "@/lib/search/model-store";
-import { createDefaultOptimizerModelState } from "@/lib/search/optimizer";
+import {
+  getOptimizerModelPath,
+  getOptimizerSnapshotDir,
+  importOptimizerModelState,
+  listOptimizerSnapshots,
+  loadOptimizerModelState,
+  loadOptimizerModelStateWithReport,
+  loadOptimizerSnapshot,
+  migrateOptimizerModelState,
+  OPTIMIZER_MODEL_MIGRATIONS,
+  OptimizerModelMigrationError,
+  OptimizerModelUnreadableError,
+  OptimizerSnapshotNotFoundError,
+  OptimizerSnapshotUnreadableError,
+  resetOptimizerModelState,
+  rollbackOptimizerModelState,
+  saveOptimizerModelDelta,
+} from "@/lib/search/model-store";
+import { summarizeOptimizerModel } from "@/lib/search/model-summary";
+import { optimizerModelImportSchema } from "@/lib/search/schema";
+import {
+  createDefaultOptimizerModelState,
+  OPTIMIZER_MODEL_VERSION,
+  type OptimizerModelDelta,
+} from "@/lib/search/optimizer";
 
 const modelPath = getOptimizerModelPath();
 
+async function findBackups(prefix: string): Promise<string[]> {
+  const modelDir = path.dirname(modelPath);
+  const files = await readdir(modelDir);
+  return files.filter((file) => file.startsWith(prefix)).map((file) => path.join(modelDir, file));
+}
+
+function runDelta(reward: number, tokens: string[] = [], context = "industry:pets"): OptimizerModelDelta {
+  const arm = { plays: 1, reward, alpha: reward, beta: 1 - reward };
+  return {
+    context,
+    styleBandit: { default: { ...arm } },
+    randomnessBandit: { medium: { ...arm } },
+    mutationBandit: {},
+    tokenStats: Object.fromEntries(tokens.map((token) => [token, { ...arm }])),
+  };
+}
+
 afterEach(async () => {
-  await rm(modelPath, { force: true });
+  const modelDir = path.dirname(modelPath);
+  const files = await readdir(modelDir).catch(() => []);
+  // Also removes migration and unreadable-file backups next to the model.
+  await Promise.all(
+    files
+      .filter((file) => file.startsWith("optimizer-state."))
+      .map((file) => rm(path.join(modelDir, file), { recursive: true, force: true })),
+  );
+  await rm(getOptimizerSnapshotDir(), { recursive: true, force: true });
 });
 
 describe("optimizer model store", () => {
-  it("persists and reloads model state", async () => {
-    const model = createDefaultOptimizerModelState();
-    model.runCount = 11;
-    model.styleBandit.default.plays = 3;
-    model.styleBandit.default.reward = 2.1;
+  it("adds run deltas to the persisted model", async () => {
+    await saveOptimizerModelDelta(runDelta(0.9));
+    await saveOptimizerModelDelta(runDelta(0.6, [], "general"));
+    const loaded = await loadOptimizerModelState();
+
+    expect(loaded.runCount).toBe(2);
+    expect(loaded.styleBandit.default.plays).toBe(2);
+    expect(loaded.styleBandit.default.reward).toBeCloseTo(1.5, 4);
+    expect(loaded.styleBandit.default.alpha).toBeCloseTo(2.5, 4);
+    expect(loaded.contexts["industry:pets"]?.runCount).toBe(1);
+    expect(loaded.contexts.general?.styleBandit.default.reward).toBeCloseTo(0.6, 4);
+  });
 
-    await saveOptimizerModelState(model);
+  it("counts every run when searches finish at the same time", async () => {
+    await Promise.all(
+      Array.from({ length: 4 }, (_, index) => saveOptimizerModelDelta(runDelta(0.25 * index, ["pets"]))),
+    );
     const loaded = await loadOptimizerModelState();
 
-    expect(loaded.runCount).toBe(11);
-    expect(loaded.styleBandit.default.plays).toBe(3);
-    expect(loaded.styleBandit.default.reward).toBeCloseTo(2.1, 4);
+    expect(loaded.runCount).toBe(4);
+    expect(loaded.styleBandit.default).toMatchObject({ plays: 4, reward: 1.5 });
+    expect(loaded.randomnessBandit.medium.plays).toBe(4);
+    expect(loaded.tokenStats.pets?.plays).toBe(4);
+    expect(loaded.contexts["industry:pets"]?.runCount).toBe(4);
+    expect(await listOptimizerSnapshots()).toHaveLength(4);
   });
 
-  it("falls back to defaults on invalid file", async () => {
+  it("waits for the update lock and clears locks left by a crashed process", async () => {
+    const lockPath = path.join(path.dirname(modelPath), "optimizer-state.lock");
+    await writeFile(lockPath, "12345", "utf8");
+    const saving = saveOptimizerModelDelta(runDelta(1));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect((await loadOptimizerModelState()).runCount).toBe(0);
+
+    await rm(lockPath);
+    await saving;
+    expect((await loadOptimizerModelState()).runCount).toBe(1);
+
+    await writeFile(lockPath, "12345", "utf8");
+    await utimes(lockPath, new Date(0), new Date(0));
+    await saveOptimizerModelDelta(runDelta(1));
+    expect((await loadOptimizerModelState()).runCount).toBe(2);
+    await expect(readFile(lockPath, "utf8")).rejects.toThrow();
+    expect(await findBackups("optimizer-state.lock.stale-")).toEqual([]);
+  });
+
+  it("falls back to defaults on invalid file and moves the file aside before the next save", async () => {
     await writeFile(modelPath, "{not-json", "utf8");
+    const { state, report } = await loadOptimizerModelStateWithReport();
+
+    expect(state.runCount).toBe(0);
+    expect(state.version).toBe(3);
+    expect(report.status).toBe("unreadable");
+    expect(await readFile(modelPath, "utf8")).toBe("{not-json");
+
+    await saveOptimizerModelDelta(runDelta(0.5));
+    const [backup] = await findBackups("optimizer-state.unreadable-");
+    expect(await readFile(backup!, "utf8")).toBe("{not-json");
+    expect((await loadOptimizerModelState()).runCount).toBe(1);
+  });
+
+  it("does not overwrite models written by a newer version", async () => {
+    const future = JSON.stringify({ version: OPTIMIZER_MODEL_VERSION + 1, runCount: 90 });
+    await writeFile(modelPath, future, "utf8");
+    const { report } = await loadOptimizerModelStateWithReport();
+
+    expect(report).toMatchObject({ status: "unreadable", error: expect.stringMatching(/newer than the supported/) });
+    await resetOptimizerModelState();
+    const [backup] = await findBackups("optimizer-state.unreadable-");
+    expect(await readFile(backup!, "utf8")).toBe(future);
+  });
+
+  it("keeps a model it cannot read instead of overwriting it", async () => {
+    await mkdir(modelPath);
+    expect((await loadOptimizerModelStateWithReport()).report.status).toBe("unreadable");
+
+    await saveOptimizerModelDelta(runDelta(1));
+    expect((await loadOptimizerModelStateWithReport()).report.lastUpdateFailure).toMatchObject({
+      context: "industry:pets",
+      error: expect.stringMatching(/could not be backed up/),
+    });
+    await expect(resetOptimizerModelState()).rejects.toBeInstanceOf(OptimizerModelUnreadableError);
+    expect((await stat(modelPath)).isDirectory()).toBe(true);
+    expect(await listOptimizerSnapshots()).toEqual([]);
+  });
+
+  it("runs every migration in order and reports them", async () => {
+    expect(OPTIMIZER_MODEL_MIGRATIONS.map((migration) => [migration.from, migration.to])).toEqual(
+      Array.from({ length: OPTIMIZER_MODEL_VERSION - 1 }, (_, index) => [index + 1, index + 2]),
+    );
+
+    const legacy = JSON.stringify({ runCount: 2, styleBandit: { default: { plays: 2, reward: 1 } } });
+    await writeFile(modelPath, legacy, "utf8");
+    const { state, report } = await loadOptimizerModelStateWithReport();
+    expect(await findBackups("optimizer-state.v1.")).toEqual([]);
+
+    expect(state.styleBandit.default).toEqual({ plays: 2, reward: 1, alpha: 2, beta: 2 });
+    expect(state.contexts).toEqual({});
+    expect(report).toMatchObject({ status: "migrated", fromVersion: 1, version: 3 });
+    expect(report.migrations).toEqual([
+      "v1->v2: add Beta posteriors to arm stats",
+      "v2->v3: add per-context statistics; existing statistics become the global prior",
+    ]);
+
+    await saveOptimizerModelDelta(runDelta(1));
+    const [backup] = await findBackups("optimizer-state.v1.");
+    expect(await readFile(backup!, "utf8")).toBe(legacy);
+    expect((await loadOptimizerModelState()).runCount).toBe(3);
+
+    expect(migrateOptimizerModelState(createDefaultOptimizerModelState()).migrations).toEqual([]);
+    expect(() => migrateOptimizerModelState([])).toThrow(OptimizerModelMigrationError);
+  });
+
+  it("migrates version 1 arm stats to Beta posteriors", async () => {
+    const legacy = {
+      version: 1,
+      runCount: 4,
+      updatedAt: 1,
+      styleBandit: { default: { plays: 4, reward: 3 } },
+      tokenStats: { cloud: { plays: 2, reward: 0.5 } },
+    };
+    await writeFile(modelPath, JSON.stringify(legacy), "utf8");
     const loaded = await loadOptimizerModelState();
 
-    expect(loaded.runCount).toBe(0);
-    expect(loaded.version).toBe(1);
+    expect(loaded.version).toBe(3);
+    expect(loaded.styleBandit.default).toEqual({ plays: 4, reward: 3, alpha: 4, beta: 2 });
+    expect(loaded.styleBandit.brandable).toEqual({ plays: 0, reward: 0, alpha: 1, beta: 1 });
+    expect(loaded.tokenStats.cloud).toEqual({ plays: 2, reward: 0.5, alpha: 1.5, beta: 2.5 });
   });
 
   it("writes JSON payload atomically", async () => {
-    const model = createDefaultOptimizerModelState();
-    await saveOptimizerModelState(model);
+    await saveOptimizerModelDelta(runDelta(0.5));
     const content = await readFile(modelPath, "utf8");
 
     expect(() => JSON.parse(content)).not.toThrow();
   });
+
+  it("keeps a snapshot per saved run and rolls back to any of them", async () => {
+    await saveOptimizerModelDelta(runDelta(0.8, ["cloud"]));
+    await saveOptimizerModelDelta(runDelta(1, ["asdfgh"]));
+
+    const snapshots = await listOptimizerSnapshots();
+    expect(snapshots.map((snapshot) => [snapshot.runCount, snapshot.reason])).toEqual([
+      [2, "run"],
+      [1, "run"],
+    ]);
+
+    const restored = await rollbackOptimizerModelState(snapshots[1]!.id);
+    expect(restored.tokenStats.asdfgh).toBeUndefined();
+    expect((await loadOptimizerModelState()).runCount).toBe(1);
+    expect((await listOptimizerSnapshots())[0]?.reason).toBe("rollback");
+
+    await expect(loadOptimizerSnapshot("../optimizer-state")).rejects.toBeInstanceOf(OptimizerSnapshotNotFoundError);
+
+    await writeFile(path.join(getOptimizerSnapshotDir(), `${snapshots[0]!.id}.json`), '{"runCount":', "utf8");
+    await expect(rollbackOptimizerModelState(snapshots[0]!.id)).rejects.toBeInstanceOf(
+      OptimizerSnapshotUnreadableError,
+    );
+    expect((await loadOptimizerModelState()).runCount).toBe(1);
+  });
+
+  it("imports and resets the model through the snapshot history", async () => {
+    const imported = await importOptimizerModelState({
+      version: 2,
+      runCount: 7,
+      styleBandit: { brandable: { plays: 4, reward: 3.2 } },
+      randomnessBandit: {},
+      mutationBandit: {},
+      tokenStats: { pets: { plays: 3, reward: 2.7 }, junk: { plays: 3, reward: 0.3 } },
+    });
+    expect(imported.version).toBe(3);
+    expect(imported.styleBandit.brandable.alpha).toBeCloseTo(4.2, 4);
+
+    const summary = summarizeOptimizerModel(imported);
+    expect(summary.bandits.style[0]).toEqual({ arm: "brandable", plays: 4, averageReward: 0.8 });
+    expect(summary.topTokens.map((token) => token.token)).toEqual(["pets"]);
+    expect(summary.weakTokens.map((token) => token.token)).toEqual(["junk"]);
+
+    const reset = await resetOptimizerModelState();
+    expect(reset.runCount).toBe(0);
+    expect((await listOptimizerSnapshots()).map((snapshot) => snapshot.reason)).toEqual(["reset", "import"]);
+  });
+
+  it("imports an unversioned export as a version 1 model", async () => {
+    const input = optimizerModelImportSchema.parse({
+      runCount: 2,
+      styleBandit: { brandable: { plays: 2, reward: 1 } },
+      randomnessBandit: {},
+      mutationBandit: {},
+      tokenStats: {},
+    });
+    expect(input.version).toBe(1);
+
+    const imported = await importOptimizerModelState(input);
+    expect(imported).toMatchObject({ version: 3, runCount: 2, contexts: {} });
+    expect(imported.styleBandit.brandable).toMatchObject({ plays: 2, alpha: 2, beta: 2 });
+  });
 });
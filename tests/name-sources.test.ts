@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { NamelixScrapeError } from "@/lib/namelix/scraper";
+import { generateNameCandidates, listNameSources } from "@/lib/sources/registry";
+import type { NamelixLogo, SearchRequest } from "@/lib/types";
+
+const { scrapeNamelixMock } = vi.hoisted(() => ({
+  scrapeNamelixMock: vi.fn<() => Promise<NamelixLogo[]>>(),
+}));
+
+vi.mock("@/lib/namelix/scraper", async () => {
+  const actual = await vi.importActual<typeof import("@/lib/namelix/scraper")>("@/lib/namelix/scraper");
+  return {
+    ...actual,
+    scrapeNamelix: scrapeNamelixMock,
+  };
+});
+
+const baseInput: SearchRequest = {
+  keywords: "solar coffee",
+  description: "",
+  style: "default",
+  randomness: "medium",
+  blacklist: "",
+  maxLength: 12,
+  tld: "com",
+  maxNames: 10,
+  yearlyBudget: 50,
+  loopCount: 1,
+  nameSources: ["namelix"],
+};
+
+beforeEach(() => {
+  scrapeNamelixMock.mockReset();
+});
+
+describe("name source registry", () => {
+  it("registers namelix as a built-in source", () => {
+    expect(listNameSources().map((source) => source.id)).toContain("namelix");
+  });
+
+  it("tags candidates with provenance and dedupes by normalized name", async () => {
+    scrapeNamelixMock.mockResolvedValue([
+      { businessName: "Sol Brew" },
+      { businessName: "sol-brew" },
+      { businessName: "Beanlight", name: "premium" },
+    ]);
+
+    const { candidates, failures } = await generateNameCandidates(baseInput);
+
+    expect(failures).toHaveLength(0);
+    expect(candidates.map((item) => item.businessName)).toEqual(["Sol Brew", "Beanlight"]);
+    expect(candidates.every((item) => item.source === "namelix")).toBe(true);
+  });
+
+  it("rethrows the original error when the only selected source fails", async () => {
+    scrapeNamelixMock.mockRejectedValue(new NamelixScrapeError("blocked"));
+
+    await expect(generateNameCandidates(baseInput)).rejects.toBeInstanceOf(NamelixScrapeError);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveOptimizerContext } from "@/lib/search/optimizer-context";
+import {
+  DomainSearchOptimizer,
+  createDefaultOptimizerModelState,
+  mergeOptimizerModelDelta,
+  sanitizeOptimizerModelState,
+  type OptimizerModelState,
+} from "@/lib/search/optimizer";
+import { STYLE_VALUES, type SearchRequest, type StyleValue } from "@/lib/types";
+
+const petInput: SearchRequest = {
+  keywords: "pet grooming",
+  description: "mobile dog salon",
+  style: "default",
+  randomness: "medium",
+  maxLength: 16,
+  tld: "com",
+  maxNames: 40,
+  yearlyBudget: 100,
+  loopCount: 3,
+};
+
+const fintechInput: SearchRequest = { ...petInput, keywords: "fintech payments", description: "" };
+
+function favourStyle(model: OptimizerModelState, style: StyleValue, plays: number): OptimizerModelState {
+  for (const arm of STYLE_VALUES) {
+    const reward = arm === style ? plays : 0;
+    model.styleBandit[arm] = { plays, reward, alpha: 1 + reward, beta: 1 + plays - reward };
+  }
+
+  return model;
+}
+
+describe("optimizer contexts", () => {
+  it("derives the context from the industry or the keyword cluster", () => {
+    expect(resolveOptimizerContext(petInput)).toBe("industry:pets");
+    expect(resolveOptimizerContext(fintechInput)).toBe("industry:finance");
+    expect(resolveOptimizerContext({ ...fintechInput, industry: "Pets" })).toBe("industry:pets");
+    expect(resolveOptimizerContext({ keywords: "zorblax widgets" })).toBe("keywords:widgets+zorblax");
+  });
+
+  it("keeps one client's learning out of another context while feeding the global prior", () => {
+    const pets = new DomainSearchOptimizer(petInput, createDefaultOptimizerModelState(), 3);
+    const plan = pets.nextLoop(1);
+    pets.recordReward(plan, 1);
+    const afterPets = mergeOptimizerModelDelta(createDefaultOptimizerModelState(), pets.exportModelDelta()!);
+
+    expect(afterPets.styleBandit[plan.selectedStyle].plays).toBe(1);
+    expect(afterPets.contexts["industry:pets"]?.styleBandit[plan.selectedStyle].plays).toBe(1);
+    expect(afterPets.contexts["industry:pets"]?.tokenStats.grooming?.plays).toBe(1);
+
+    const fintech = new DomainSearchOptimizer(fintechInput, afterPets, 4);
+    fintech.recordReward(fintech.nextLoop(1), 0.2);
+    const fintechDelta = fintech.exportModelDelta()!;
+    const afterFintech = mergeOptimizerModelDelta(afterPets, fintechDelta);
+
+    expect(afterFintech.contexts["industry:pets"]?.runCount).toBe(1);
+    expect(afterFintech.contexts["industry:finance"]?.runCount).toBe(1);
+    // The fintech run may borrow pet tokens from the prior, but only its own plays count in its context.
+    expect(afterFintech.contexts["industry:finance"]?.tokenStats.grooming?.plays ?? 0).toBe(
+      fintechDelta.tokenStats.grooming?.plays ?? 0,
+    );
+    expect(afterFintech.runCount).toBe(2);
+  });
+
+  it("starts new contexts from the global prior and lets their own stats take over", () => {
+    const model = favourStyle(createDefaultOptimizerModelState(), "brandable", 40);
+    const pickStyles = (state: OptimizerModelState) =>
+      [1, 2, 3, 4, 5].map((seed) => new DomainSearchOptimizer(petInput, state, seed).nextLoop(1).selectedStyle);
+
+    const picks = pickStyles(model);
+    expect(picks.filter((style) => style === "brandable").length).toBeGreaterThanOrEqual(4);
+
+    const seasoned = favourStyle(createDefaultOptimizerModelState(), "brandable", 40);
+    seasoned.contexts["industry:pets"] = {
+      ...favourStyle(createDefaultOptimizerModelState(), "default", 20),
+      runCount: 12,
+    };
+    const local = pickStyles(seasoned);
+    expect(local.filter((style) => style === "default").length).toBeGreaterThanOrEqual(4);
+  });
+
+  it("bounds the number of stored contexts", () => {
+    const model = createDefaultOptimizerModelState();
+    for (let index = 0; index < 60; index += 1) {
+      model.contexts[`keywords:client${index}`] = { ...createDefaultOptimizerModelState(), updatedAt: index };
+    }
+
+    const sanitized = sanitizeOptimizerModelState(model);
+    expect(Object.keys(sanitized.contexts)).toHaveLength(50);
+    expect(sanitized.contexts["keywords:client59"]).toBeDefined();
+    expect(sanitized.contexts["keywords:client0"]).toBeUndefined();
+  });
+});
@@ -1,9 +1,13 @@
 import { describe, expect, it } from "vitest";
 
+import { getBanditStrategy, sampleBeta, type BanditRecord } from "@/lib/search/bandit";
 import {
   DomainSearchOptimizer,
+  buildContextPrior,
   createDefaultOptimizerModelState,
+  mergeOptimizerModelDelta,
 } from "@/lib/search/optimizer";
+import { mulberry32 } from "@/lib/random";
 import type { SearchRequest } from "@/lib/types";
 
 const baseInput: SearchRequest = {
@@ -39,7 +43,7 @@ describe("DomainSearchOptimizer", () => {
     const optimizer = new DomainSearchOptimizer(baseInput, createDefaultOptimizerModelState(), 77);
     const plan = optimizer.nextLoop(1);
     const tuningStep = optimizer.recordReward(plan, 0.9);
-    const snapshot = optimizer.snapshotModelState();
+    const snapshot = mergeOptimizerModelDelta(createDefaultOptimizerModelState(), optimizer.exportModelDelta()!);
 
     expect(tuningStep.reward).toBe(0.9);
     expect(snapshot.styleBandit[plan.selectedStyle].plays).toBe(1);
@@ -47,4 +51,139 @@ describe("DomainSearchOptimizer", () => {
     expect(snapshot.randomnessBandit[plan.selectedRandomness].plays).toBe(1);
     expect(snapshot.mutationBandit[plan.selectedMutationIntensity].plays).toBe(1);
   });
+
+  it("resumes from a checkpoint with the same RNG position and token state", () => {
+    const original = new DomainSearchOptimizer(baseInput, createDefaultOptimizerModelState(), 99);
+    const first = original.nextLoop(1);
+    original.recordReward(first, 0.7);
+
+    const checkpoint = JSON.parse(JSON.stringify(original.exportCheckpoint()));
+    const restored = DomainSearchOptimizer.fromCheckpoint(baseInput, checkpoint);
+
+    const expected = original.nextLoop(2);
+    const actual = restored.nextLoop(2);
+
+    expect(actual.sourceLoop).toBe(1);
+    expect(actual.selectedStyle).toBe(expected.selectedStyle);
+    expect(actual.selectedRandomness).toBe(expected.selectedRandomness);
+    expect(actual.input.keywords).toBe(expected.input.keywords);
+    expect(actual.input.description).toBe(expected.input.description);
+  });
+
+  it("keeps the learning of earlier loops in the checkpoint delta", () => {
+    const original = new DomainSearchOptimizer(baseInput, createDefaultOptimizerModelState(), 11);
+    const first = original.nextLoop(1);
+    original.recordReward(first, 0.6);
+
+    const checkpoint = JSON.parse(JSON.stringify(original.exportCheckpoint()));
+    const restored = DomainSearchOptimizer.fromCheckpoint(baseInput, checkpoint);
+    const second = restored.nextLoop(2);
+    restored.recordReward(second, 0.2);
+
+    const delta = restored.exportModelDelta()!;
+    const plays = Object.values(delta.styleBandit).reduce((sum, stats) => sum + (stats?.plays ?? 0), 0);
+    expect(plays).toBe(2);
+    expect(delta.context).toBe("industry:software");
+
+    restored.markModelDeltaSaved();
+    const saved = DomainSearchOptimizer.fromCheckpoint(baseInput, JSON.parse(JSON.stringify(restored.exportCheckpoint())));
+    expect(saved.exportModelDelta()).toBeUndefined();
+  });
+
+  it("leaves a context's own runs out of its global prior", () => {
+    const arm = { plays: 2, reward: 1.5, alpha: 1.5, beta: 0.5 };
+    let model = mergeOptimizerModelDelta(createDefaultOptimizerModelState(), {
+      context: "industry:pets",
+      styleBandit: { brandable: arm },
+      randomnessBandit: {},
+      mutationBandit: {},
+      tokenStats: { paw: arm },
+    });
+    expect(buildContextPrior(model, model.contexts["industry:pets"]!)).toMatchObject({
+      runCount: 0,
+      styleBandit: { brandable: { plays: 0, reward: 0, alpha: 1, beta: 1 } },
+      tokenStats: { paw: { plays: 0, reward: 0 } },
+    });
+
+    model = mergeOptimizerModelDelta(model, {
+      context: "industry:food",
+      styleBandit: { brandable: { plays: 1, reward: 0.25, alpha: 0.25, beta: 0.75 } },
+      randomnessBandit: {},
+      mutationBandit: {},
+      tokenStats: {},
+    });
+    const prior = buildContextPrior(model, model.contexts["industry:pets"]!);
+    expect(prior.runCount).toBe(1);
+    expect(prior.styleBandit.brandable).toEqual({ plays: 1, reward: 0.25, alpha: 1.25, beta: 1.75 });
+  });
+
+  it("records the selected bandit strategy in each tuning step", () => {
+    const ucb = new DomainSearchOptimizer({ ...baseInput, banditStrategy: "ucb1" }, createDefaultOptimizerModelState(), 5);
+    const fallback = new DomainSearchOptimizer(baseInput, createDefaultOptimizerModelState(), 5);
+
+    expect(ucb.recordReward(ucb.nextLoop(1), 0.4).banditStrategy).toBe("ucb1");
+    expect(fallback.recordReward(fallback.nextLoop(1), 0.4).banditStrategy).toBe("epsilon-greedy");
+  });
+});
+
+describe("bandit strategies", () => {
+  const arms = ["good", "bad", "fresh"] as const;
+  const bandit: BanditRecord<(typeof arms)[number]> = {
+    good: { plays: 20, reward: 18, alpha: 19, beta: 3 },
+    bad: { plays: 20, reward: 2, alpha: 3, beta: 19 },
+    fresh: { plays: 0, reward: 0, alpha: 1, beta: 1 },
+  };
+
+  function countPicks(strategyId: "epsilon-greedy" | "thompson" | "ucb1"): Record<string, number> {
+    const strategy = getBanditStrategy(strategyId);
+    const random = mulberry32(42);
+    const counts: Record<string, number> = { good: 0, bad: 0, fresh: 0 };
+
+    for (let index = 0; index < 400; index += 1) {
+      counts[strategy.chooseArm(bandit, arms, { epsilon: 0.24, random })]! += 1;
+    }
+
+    return counts;
+  }
+
+  it("samples Beta distributions around their mean", () => {
+    const random = mulberry32(7);
+    const samples = Array.from({ length: 2000 }, () => sampleBeta(9, 3, random));
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+
+    expect(samples.every((value) => value >= 0 && value <= 1)).toBe(true);
+    expect(mean).toBeCloseTo(0.75, 1);
+  });
+
+  it("tries unplayed arms first with UCB1", () => {
+    expect(getBanditStrategy("ucb1").chooseArm(bandit, arms, { epsilon: 0, random: mulberry32(1) })).toBe("fresh");
+  });
+
+  it("explores less than epsilon-greedy with Thompson sampling once an arm is clearly better", () => {
+    const thompson = countPicks("thompson");
+    const epsilonGreedy = countPicks("epsilon-greedy");
+
+    expect(thompson.bad).toBeLessThan(epsilonGreedy.bad);
+    expect(thompson.good).toBeGreaterThan(thompson.fresh);
+  });
+
+  it("breaks ties between equally good arms uniformly", () => {
+    const tied: BanditRecord<(typeof arms)[number]> = {
+      good: { plays: 0, reward: 0, alpha: 1, beta: 1 },
+      bad: { plays: 0, reward: 0, alpha: 1, beta: 1 },
+      fresh: { plays: 0, reward: 0, alpha: 1, beta: 1 },
+    };
+    const strategy = getBanditStrategy("epsilon-greedy");
+    const random = mulberry32(3);
+    const counts: Record<string, number> = { good: 0, bad: 0, fresh: 0 };
+
+    for (let index = 0; index < 3000; index += 1) {
+      counts[strategy.chooseArm(tied, arms, { epsilon: 0, random })]! += 1;
+    }
+
+    for (const count of Object.values(counts)) {
+      expect(count).toBeGreaterThan(900);
+      expect(count).toBeLessThan(1100);
+    }
+  });
 });
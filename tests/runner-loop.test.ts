@@ -1,7 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
-import { createJob, getJob } from "@/lib/jobs/store";
-import { runSearchJob } from "@/lib/search/runner";
+import { getJobEventsSince } from "@/lib/jobs/events";
+import { createJob, getJob, patchJob } from "@/lib/jobs/store";
+import { NamelixScrapeError } from "@/lib/namelix/scraper";
+import { cancelSearchJob, pauseSearchJob, resumeSearchJob, runSearchJob } from "@/lib/search/runner";
 import type { GoDaddyAvailability } from "@/lib/godaddy/client";
 import type { NamelixLogo } from "@/lib/types";
 
@@ -9,12 +11,15 @@ const {
   scrapeNamelixMock,
   checkAvailabilityBulkMock,
   loadOptimizerModelStateMock,
-  saveOptimizerModelStateMock,
+  saveOptimizerModelDeltaMock,
 } = vi.hoisted(() => ({
   scrapeNamelixMock: vi.fn<() => Promise<NamelixLogo[]>>(),
-  checkAvailabilityBulkMock: vi.fn<(domains: string[]) => Promise<Map<string, GoDaddyAvailability>>>(),
+  checkAvailabilityBulkMock:
+    vi.fn<
+      (domains: string[], checkType?: "FAST" | "FULL", signal?: AbortSignal) => Promise<Map<string, GoDaddyAvailability>>
+    >(),
   loadOptimizerModelStateMock: vi.fn(),
-  saveOptimizerModelStateMock: vi.fn(),
+  saveOptimizerModelDeltaMock: vi.fn(),
 }));
 
 vi.mock("@/lib/namelix/scraper", async () => {
@@ -38,7 +43,7 @@ vi.mock("@/lib/search/model-store", async () => {
   return {
     ...actual,
     loadOptimizerModelState: loadOptimizerModelStateMock,
-    saveOptimizerModelState: saveOptimizerModelStateMock,
+    saveOptimizerModelDelta: saveOptimizerModelDeltaMock,
   };
 });
 
@@ -75,9 +80,9 @@ beforeEach(() => {
   scrapeNamelixMock.mockReset();
   checkAvailabilityBulkMock.mockReset();
   loadOptimizerModelStateMock.mockReset();
-  saveOptimizerModelStateMock.mockReset();
+  saveOptimizerModelDeltaMock.mockReset();
   loadOptimizerModelStateMock.mockResolvedValue(createModelState());
-  saveOptimizerModelStateMock.mockResolvedValue(undefined);
+  saveOptimizerModelDeltaMock.mockResolvedValue(undefined);
 });
 
 describe("runSearchJob looped aggregation", () => {
@@ -265,4 +270,364 @@ describe("runSearchJob looped aggregation", () => {
     expect(finished?.results?.allRanked.length).toBe(summary?.availableCount ?? 0);
     expect(finished?.results?.allRanked.every((row) => row.available)).toBe(true);
   });
+
+  it("re-verifies the shortlist with a FULL check and demotes domains that are taken", async () => {
+    scrapeNamelixMock.mockResolvedValue([{ businessName: "Nova" }, { businessName: "Quik" }]);
+
+    checkAvailabilityBulkMock.mockImplementation(async (domains, checkType = "FAST") => {
+      const map = new Map<string, GoDaddyAvailability>();
+      for (const domain of domains) {
+        const available = checkType === "FAST" || domain !== "nova.com";
+        map.set(domain, {
+          domain,
+          available,
+          definitive: checkType === "FULL",
+          priceMicros: available ? 12_000_000 : undefined,
+          currency: available ? "USD" : undefined,
+          period: 1,
+          reason: available ? undefined : "taken",
+        });
+      }
+
+      return map;
+    });
+
+    const job = createJob({
+      keywords: "speed tools",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 8,
+      tld: "com",
+      maxNames: 2,
+      yearlyBudget: 50,
+      loopCount: 1,
+      verifyTopN: 5,
+    });
+
+    await runSearchJob(job.id);
+    const finished = getJob(job.id);
+    const results = finished?.results;
+
+    expect(checkAvailabilityBulkMock).toHaveBeenCalledWith(expect.arrayContaining(["nova.com", "quik.com"]), "FULL", expect.any(AbortSignal));
+    expect(results?.verification).toMatchObject({ checkType: "FULL", requested: 2, confirmed: 1, demoted: 1 });
+    expect(results?.allRanked.map((row) => row.domain)).toEqual(["quik.com"]);
+    expect(results?.withinBudget[0]).toMatchObject({ domain: "quik.com", checkType: "FULL", definitive: true });
+    expect(results?.withinBudget[0]?.verifiedAt).toBeTypeOf("number");
+    expect(results?.unavailable[0]?.domain).toBe("nova.com");
+    expect(results?.unavailable[0]?.reason).toContain("FULL confirmation");
+  });
+
+  it("checkpoints after each loop and resumes from the next loop", async () => {
+    let scrapeCall = 0;
+    scrapeNamelixMock.mockImplementation(async () => {
+      scrapeCall += 1;
+      if (scrapeCall === 2) {
+        throw new NamelixScrapeError("blocked");
+      }
+
+      return [{ businessName: `Nova${scrapeCall}` }];
+    });
+
+    checkAvailabilityBulkMock.mockImplementation(async (domains) => {
+      const map = new Map<string, GoDaddyAvailability>();
+      for (const domain of domains) {
+        map.set(domain, {
+          domain,
+          available: true,
+          definitive: true,
+          priceMicros: 10_000_000,
+          currency: "USD",
+          period: 1,
+        });
+      }
+
+      return map;
+    });
+
+    const job = createJob({
+      keywords: "speed tools",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 10,
+      tld: "com",
+      maxNames: 1,
+      yearlyBudget: 50,
+      loopCount: 2,
+      verifyTopN: 0,
+    });
+
+    await runSearchJob(job.id);
+    const failed = getJob(job.id);
+
+    expect(failed?.status).toBe("failed");
+    expect(failed?.checkpoint?.completedLoop).toBe(1);
+    expect(failed?.checkpoint?.aggregate.map((row) => row.domain)).toEqual(["nova1.com"]);
+
+    expect(resumeSearchJob(job.id)?.status).toBe("queued");
+    await vi.waitFor(() => expect(getJob(job.id)?.status).toBe("done"));
+
+    const finished = getJob(job.id);
+    expect(finished?.results?.loopSummaries.map((summary) => summary.loop)).toEqual([1, 2]);
+    expect(finished?.results?.allRanked.map((row) => row.domain).sort()).toEqual(["nova1.com", "nova3.com"]);
+    expect(finished?.checkpoint).toBeUndefined();
+    expect(loadOptimizerModelStateMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels an in-flight availability check and keeps completed loops", async () => {
+    let scrapeCall = 0;
+    scrapeNamelixMock.mockImplementation(async () => {
+      scrapeCall += 1;
+      return [{ businessName: `Nova${scrapeCall}` }];
+    });
+
+    checkAvailabilityBulkMock.mockImplementation(async (domains, _checkType, signal) => {
+      if (checkAvailabilityBulkMock.mock.calls.length > 1) {
+        return new Promise((_resolve, reject) => {
+          signal?.addEventListener("abort", () => reject(signal.reason), { once: true });
+        });
+      }
+
+      return new Map(
+        domains.map((domain): [string, GoDaddyAvailability] => [
+          domain,
+          { domain, available: true, definitive: true, priceMicros: 10_000_000, currency: "USD", period: 1 },
+        ]),
+      );
+    });
+
+    const job = createJob({
+      keywords: "speed tools",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 10,
+      tld: "com",
+      maxNames: 1,
+      yearlyBudget: 50,
+      loopCount: 3,
+      verifyTopN: 0,
+    });
+
+    const running = runSearchJob(job.id);
+    await vi.waitFor(() => expect(checkAvailabilityBulkMock).toHaveBeenCalledTimes(2));
+
+    expect(cancelSearchJob(job.id)?.status).toBe("cancelled");
+    await running;
+
+    const cancelled = getJob(job.id);
+    expect(cancelled?.status).toBe("cancelled");
+    expect(cancelled?.error).toBeUndefined();
+    expect(cancelled?.results?.loopSummaries.map((summary) => summary.loop)).toEqual([1]);
+    expect(cancelled?.results?.allRanked.map((row) => row.domain)).toEqual(["nova1.com"]);
+    expect(scrapeNamelixMock).toHaveBeenCalledTimes(2);
+    expect(saveOptimizerModelDeltaMock).not.toHaveBeenCalled();
+    expect(cancelSearchJob(job.id)).toBeUndefined();
+  });
+
+  it("stays cancelled when cancelled while the optimizer model is saved", async () => {
+    scrapeNamelixMock.mockResolvedValue([{ businessName: "Nova" }]);
+    checkAvailabilityBulkMock.mockImplementation(
+      async (domains) =>
+        new Map(
+          domains.map((domain): [string, GoDaddyAvailability] => [
+            domain,
+            { domain, available: true, definitive: true, priceMicros: 10_000_000, currency: "USD", period: 1 },
+          ]),
+        ),
+    );
+    let finishSave: () => void = () => undefined;
+    saveOptimizerModelDeltaMock.mockImplementation(() => new Promise<void>((resolve) => (finishSave = resolve)));
+
+    const job = createJob({
+      keywords: "speed tools",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 10,
+      tld: "com",
+      maxNames: 1,
+      yearlyBudget: 50,
+      loopCount: 1,
+      verifyTopN: 0,
+    });
+
+    const running = runSearchJob(job.id);
+    await vi.waitFor(() => expect(saveOptimizerModelDeltaMock).toHaveBeenCalledTimes(1));
+    expect(cancelSearchJob(job.id)?.status).toBe("cancelled");
+    finishSave();
+    await running;
+
+    expect(getJob(job.id)?.status).toBe("cancelled");
+    expect(getJob(job.id)?.phase).toBeNull();
+  });
+
+  it("does not merge the optimizer delta again when a job resumes after finalize started", async () => {
+    scrapeNamelixMock.mockResolvedValue([{ businessName: "Nova" }]);
+    let releaseFullCheck: () => void = () => undefined;
+    let fullChecks = 0;
+    checkAvailabilityBulkMock.mockImplementation(async (domains, checkType = "FAST") => {
+      if (checkType === "FULL" && ++fullChecks === 1) {
+        await new Promise<void>((resolve) => (releaseFullCheck = resolve));
+      }
+
+      return new Map(
+        domains.map((domain): [string, GoDaddyAvailability] => [
+          domain,
+          { domain, available: true, definitive: true, priceMicros: 10_000_000, currency: "USD", period: 1 },
+        ]),
+      );
+    });
+
+    const job = createJob({
+      keywords: "speed tools",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 10,
+      tld: "com",
+      maxNames: 1,
+      yearlyBudget: 50,
+      loopCount: 1,
+      verifyTopN: 5,
+    });
+
+    const running = runSearchJob(job.id);
+    await vi.waitFor(() => expect(getJob(job.id)?.phase).toBe("finalize"));
+    // What a restart during the shortlist check leaves behind.
+    const checkpoint = getJob(job.id)?.checkpoint;
+    releaseFullCheck();
+    await running;
+
+    patchJob(job.id, { status: "interrupted", checkpoint });
+    expect(resumeSearchJob(job.id)?.status).toBe("queued");
+    await vi.waitFor(() => expect(getJob(job.id)?.status).toBe("done"));
+
+    expect(checkpoint?.completedLoop).toBe(1);
+    expect(saveOptimizerModelDeltaMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds a paused job between batches until it is resumed", async () => {
+    scrapeNamelixMock.mockResolvedValue([{ businessName: "Nova" }]);
+    checkAvailabilityBulkMock.mockImplementation(async (domains) => {
+      return new Map(
+        domains.map((domain): [string, GoDaddyAvailability] => [
+          domain,
+          { domain, available: true, definitive: true, priceMicros: 10_000_000, currency: "USD", period: 1 },
+        ]),
+      );
+    });
+
+    const job = createJob({
+      keywords: "speed tools",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 10,
+      tld: "com",
+      maxNames: 1,
+      yearlyBudget: 50,
+      loopCount: 1,
+      verifyTopN: 0,
+    });
+
+    const running = runSearchJob(job.id);
+    expect(pauseSearchJob(job.id)?.status).toBe("paused");
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(getJob(job.id)?.status).toBe("paused");
+    expect(scrapeNamelixMock).not.toHaveBeenCalled();
+
+    expect(resumeSearchJob(job.id)?.status).toBe("running");
+    await running;
+
+    expect(getJob(job.id)?.status).toBe("done");
+    expect(scrapeNamelixMock).toHaveBeenCalledTimes(1);
+
+    const events = getJobEventsSince(job.id, 0) ?? [];
+    const statuses = events.flatMap((event) => (event.type === "phase" ? [event.data.status] : []));
+    expect(statuses).toEqual(expect.arrayContaining(["running", "paused", "done"]));
+    expect(events.filter((event) => event.type !== "phase").map((event) => event.type)).toEqual([
+      "domains",
+      "batch",
+      "tuning",
+      "loop",
+      "complete",
+    ]);
+    expect(events.find((event) => event.type === "domains")?.data).toMatchObject({
+      loop: 1,
+      batch: 1,
+      domains: [expect.objectContaining({ domain: "nova.com" })],
+    });
+  });
+
+  it("checks each label across all requested TLDs and groups the results per label", async () => {
+    scrapeNamelixMock.mockResolvedValue([{ businessName: "Nova" }, { businessName: "Pix" }]);
+    const prices: Record<string, number> = {
+      "nova.com": 80_000_000,
+      "nova.io": 30_000_000,
+      "nova.ai": 70_000_000,
+      "pix.io": 40_000_000,
+    };
+    checkAvailabilityBulkMock.mockImplementation(async (domains) => {
+      return new Map(
+        domains.map((domain): [string, GoDaddyAvailability] => {
+          const priceMicros = prices[domain];
+          return [
+            domain,
+            { domain, available: priceMicros !== undefined, definitive: true, priceMicros, currency: "USD", period: 1 },
+          ];
+        }),
+      );
+    });
+
+    const job = createJob({
+      keywords: "speed tools",
+      description: "",
+      style: "default",
+      randomness: "medium",
+      blacklist: "",
+      maxLength: 10,
+      tld: "com",
+      tlds: ["com", "io", "ai"],
+      maxNames: 2,
+      yearlyBudget: 60,
+      loopCount: 1,
+      verifyTopN: 0,
+    });
+
+    await runSearchJob(job.id);
+    const finished = getJob(job.id);
+
+    expect(finished?.status).toBe("done");
+    expect(checkAvailabilityBulkMock).toHaveBeenCalledTimes(1);
+    expect(checkAvailabilityBulkMock.mock.calls[0]?.[0]).toEqual([
+      "nova.com",
+      "nova.io",
+      "nova.ai",
+      "pix.com",
+      "pix.io",
+      "pix.ai",
+    ]);
+    expect(finished?.results?.loopSummaries[0]?.quotaMet).toBe(true);
+
+    const groups = new Map(finished?.results?.labelGroups?.map((group) => [group.label, group]));
+    expect(groups.get("nova")).toMatchObject({
+      availableTlds: ["com", "io", "ai"],
+      bestTld: "io",
+      bestDomain: "nova.io",
+    });
+    expect(groups.get("nova")?.options.find((option) => option.tld === "com")).toMatchObject({
+      price: 80,
+      overBudget: true,
+    });
+    expect(groups.get("pix")).toMatchObject({ availableTlds: ["io"], bestTld: "io" });
+  });
 });
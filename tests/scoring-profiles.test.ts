@@ -0,0 +1,177 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  deleteScoringProfile,
+  getScoringProfile,
+  loadCustomScoringProfiles,
+  listScoringProfiles,
+  registerScoringProfile,
+  resolveScoringProfile,
+  ScoringProfileConflictError,
+  ScoringProfileNotFoundError,
+  ScoringProfileStoreError,
+} from "@/lib/search/profile-store";
+import { scoringProfileInputSchema, scoringProfileSchema } from "@/lib/search/schema";
+import { scoreDomainResult } from "@/lib/search/scoring";
+import { BUILT_IN_SCORING_PROFILES } from "@/lib/search/scoring-profiles";
+import type { DomainResult, SearchRequest } from "@/lib/types";
+
+const input: SearchRequest = {
+  keywords: "cloud backup",
+  style: "default",
+  randomness: "medium",
+  maxLength: 25,
+  tld: "com",
+  maxNames: 10,
+  yearlyBudget: 100,
+  loopCount: 1,
+};
+
+function createResult(domain: string, price: number): DomainResult {
+  return {
+    domain,
+    sourceName: domain,
+    isNamelixPremium: false,
+    available: true,
+    definitive: true,
+    price,
+    overBudget: false,
+  };
+}
+
+let storeDir: string;
+
+beforeEach(async () => {
+  storeDir = await mkdtemp(path.join(os.tmpdir(), "scoring-profiles-"));
+  process.env.SCORING_PROFILES_PATH = path.join(storeDir, "profiles.json");
+});
+
+afterEach(async () => {
+  delete process.env.SCORING_PROFILES_PATH;
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+describe("scoring profiles", () => {
+  it("ships valid built-in profiles", () => {
+    for (const profile of BUILT_IN_SCORING_PROFILES) {
+      expect(scoringProfileSchema.safeParse(profile).success).toBe(true);
+    }
+  });
+
+  it("changes the ranking and tags drivers with the profile that produced them", async () => {
+    const exactMatch = createResult("cloudbackup.com", 90);
+    const brandable = createResult("zuvo.com", 10);
+    const seo = await resolveScoringProfile("seo-exact-match");
+    const budget = await resolveScoringProfile("budget-first");
+
+    expect(scoreDomainResult(exactMatch, input, seo).marketabilityScore).toBeGreaterThan(
+      scoreDomainResult(brandable, input, seo).marketabilityScore,
+    );
+    expect(scoreDomainResult(brandable, input, budget).overallScore).toBeGreaterThan(
+      scoreDomainResult(exactMatch, input, budget).overallScore,
+    );
+    expect(scoreDomainResult(brandable, input, budget).valueDrivers.every((item) => item.profile === "budget-first")).toBe(
+      true,
+    );
+    expect(scoreDomainResult(brandable, input).valueDrivers[0]?.profile).toBe("balanced");
+  });
+
+  it("registers, lists and deletes custom profiles built on a base profile", async () => {
+    const profile = await registerScoringProfile(
+      scoringProfileInputSchema.parse({
+        id: "acme-client",
+        name: "Acme client",
+        extends: "budget-first",
+        blend: { financial: 0.7, marketability: 0.3 },
+        tldModifiers: { com: 1, de: 0.97 },
+      }),
+    );
+
+    expect(profile).toMatchObject({ builtIn: false, blend: { financial: 0.7 } });
+    expect(profile.financialWeights.affordability).toBe(0.55);
+    expect((await listScoringProfiles()).map((item) => item.id)).toContain("acme-client");
+    expect(await getScoringProfile("acme-client")).toEqual(profile);
+
+    await expect(
+      registerScoringProfile(scoringProfileInputSchema.parse({ id: "acme-client", name: "Again" })),
+    ).rejects.toBeInstanceOf(ScoringProfileConflictError);
+    await expect(deleteScoringProfile("balanced")).rejects.toBeInstanceOf(ScoringProfileConflictError);
+
+    expect(await deleteScoringProfile("acme-client")).toBe(true);
+    await expect(resolveScoringProfile("acme-client")).rejects.toBeInstanceOf(ScoringProfileNotFoundError);
+  });
+
+  it("keeps every profile when several are saved or deleted at once", async () => {
+    const ids = ["client-a", "client-b", "client-c", "client-d"];
+    await Promise.all(ids.map((id) => registerScoringProfile(scoringProfileInputSchema.parse({ id, name: id }))));
+    expect((await loadCustomScoringProfiles()).map((profile) => profile.id).sort()).toEqual(ids);
+
+    await Promise.all([
+      deleteScoringProfile("client-a"),
+      registerScoringProfile(scoringProfileInputSchema.parse({ id: "client-e", name: "E" })),
+      deleteScoringProfile("client-c"),
+    ]);
+    expect((await loadCustomScoringProfiles()).map((profile) => profile.id).sort()).toEqual([
+      "client-b",
+      "client-d",
+      "client-e",
+    ]);
+  });
+
+  it("keeps stored entries it cannot parse when another profile is saved", async () => {
+    const outdated = { id: "outdated-client", name: "Outdated", marketWeights: { vibes: 1 } };
+    await writeFile(process.env.SCORING_PROFILES_PATH!, JSON.stringify([outdated]), "utf8");
+
+    expect(await loadCustomScoringProfiles()).toEqual([]);
+    await registerScoringProfile(scoringProfileInputSchema.parse({ id: "new-client", name: "New" }));
+    await expect(
+      registerScoringProfile(scoringProfileInputSchema.parse({ id: "outdated-client", name: "Again" })),
+    ).rejects.toBeInstanceOf(ScoringProfileConflictError);
+
+    const stored = JSON.parse(await readFile(process.env.SCORING_PROFILES_PATH!, "utf8")) as { id: string }[];
+    expect(stored[0]).toEqual(outdated);
+    expect(stored.map((entry) => entry.id)).toEqual(["outdated-client", "new-client"]);
+  });
+
+  it("refuses to update a store that is not readable", async () => {
+    await writeFile(process.env.SCORING_PROFILES_PATH!, '[{"id":"cut-off', "utf8");
+
+    await expect(
+      registerScoringProfile(scoringProfileInputSchema.parse({ id: "new-client", name: "New" })),
+    ).rejects.toBeInstanceOf(ScoringProfileStoreError);
+    await expect(deleteScoringProfile("anything")).rejects.toBeInstanceOf(ScoringProfileStoreError);
+    expect(await readFile(process.env.SCORING_PROFILES_PATH!, "utf8")).toBe('[{"id":"cut-off');
+  });
+
+  it("rejects weights that do not sum to one", async () => {
+    await expect(
+      registerScoringProfile(
+        scoringProfileInputSchema.parse({
+          id: "lopsided",
+          name: "Lopsided",
+          marketWeights: { keywordRelevance: 0.9 },
+        }),
+      ),
+    ).rejects.toThrow(/sum to 1/);
+  });
+
+  it("loads stored profiles saved before the English-likeness components existed", async () => {
+    const { englishLikeness, wordSegmentation, ...legacyWeights } = BUILT_IN_SCORING_PROFILES[0]!.marketWeights;
+    const legacy = {
+      ...BUILT_IN_SCORING_PROFILES[0],
+      id: "legacy-client",
+      marketWeights: {
+        ...legacyWeights,
+        pronounceability: legacyWeights.pronounceability + englishLikeness + wordSegmentation,
+      },
+    };
+    await writeFile(process.env.SCORING_PROFILES_PATH!, JSON.stringify([legacy]), "utf8");
+
+    const profile = await resolveScoringProfile("legacy-client");
+    expect(profile.marketWeights).toMatchObject({ englishLikeness: 0, wordSegmentation: 0 });
+  });
+});
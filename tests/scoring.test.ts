@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import { scoreDomainResult } from "@/lib/search/scoring";
+import { DEFAULT_SCORING_PROFILE } from "@/lib/search/scoring-profiles";
 import type { DomainResult, SearchRequest } from "@/lib/types";
 
 const baseInput: SearchRequest = {
@@ -62,4 +63,57 @@ describe("scoring", () => {
     expect(scored.valueDrivers[0]?.component).toBeTypeOf("string");
     expect(scored.valueDetractors[0]?.component).toBeTypeOf("string");
   });
+
+  it("only explains scores with components the profile weights", () => {
+    const result = createResult({ domain: "xkcdqzt.com", price: 14 });
+    const components = (profile = DEFAULT_SCORING_PROFILE) => {
+      const scored = scoreDomainResult(result, baseInput, profile);
+      return [...scored.valueDrivers, ...scored.valueDetractors].map((driver) => driver.component);
+    };
+
+    expect(components()).not.toContain("pronounceability");
+    expect(
+      components({
+        ...DEFAULT_SCORING_PROFILE,
+        marketWeights: { ...DEFAULT_SCORING_PROFILE.marketWeights, pronounceability: 0.2, englishLikeness: 0 },
+      }),
+    ).toContain("pronounceability");
+  });
+
+  it("scores conflicted availability like a non-definitive result", () => {
+    const conflicted = scoreDomainResult(
+      createResult({ domain: "brightflow.com", price: 14, definitive: true, conflict: true }),
+      baseInput,
+    );
+    const nonDefinitive = scoreDomainResult(
+      createResult({ domain: "brightflow.com", price: 14, definitive: false }),
+      baseInput,
+    );
+
+    expect(conflicted.financialValueScore).toBe(nonDefinitive.financialValueScore);
+  });
+
+  it("scores domain hacks on the spoken word and adds a domainHack driver", () => {
+    const scored = scoreDomainResult(
+      createResult({ domain: "bright.ly", price: 14, domainHack: true }),
+      baseInput,
+    );
+
+    expect(scored.labelLength).toBe(8);
+    expect(scored.valueDrivers.map((driver) => driver.component)).toContain("domainHack");
+  });
+
+  it("moves marketability by exactly the displayed domainHack impact", () => {
+    const plain = scoreDomainResult(createResult({ domain: "brandly.ly", price: 14 }), baseInput);
+    const hack = scoreDomainResult(createResult({ domain: "brand.ly", price: 14, domainHack: true }), baseInput);
+    const longHack = scoreDomainResult(
+      createResult({ domain: "brightflowtools.ly", price: 14, domainHack: true }),
+      baseInput,
+    );
+    const impact = hack.valueDrivers.find((driver) => driver.component === "domainHack")?.impact;
+
+    expect(hack.labelLength).toBe(plain.labelLength);
+    expect(hack.marketabilityScore - plain.marketabilityScore).toBeCloseTo(impact ?? Number.NaN, 1);
+    expect(longHack.valueDetractors.map((driver) => driver.component)).toContain("domainHack");
+  });
 });
@@ -0,0 +1,125 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { metaphone, soundex } from "@/lib/screening/phonetic";
+import { loadTrademarkIndex } from "@/lib/screening/trademark-store";
+import { buildTrademarkIndex, screenTrademarks } from "@/lib/screening/trademarks";
+import { scoreDomainResult } from "@/lib/search/scoring";
+import { filterByTrademarkRisk } from "@/lib/search/sort";
+import type { DomainResult, RankedDomainResult, SearchRequest } from "@/lib/types";
+
+const index = buildTrademarkIndex({
+  source: "fixture",
+  marks: [
+    { mark: "Novalane", classes: [9, 42], owner: "Novalane Inc." },
+    { mark: "Kwik Klik", classes: [35] },
+    { mark: "Fonetica", classes: [41] },
+    { mark: "Robert", classes: [] },
+    { mark: "", classes: [9] },
+  ],
+});
+
+const input: SearchRequest = {
+  keywords: "cloud tools",
+  style: "default",
+  randomness: "medium",
+  maxLength: 25,
+  tld: "com",
+  maxNames: 10,
+  yearlyBudget: 50,
+  loopCount: 1,
+};
+
+function createResult(domain: string): DomainResult {
+  return {
+    domain,
+    sourceName: domain,
+    isNamelixPremium: false,
+    available: true,
+    definitive: true,
+    price: 12,
+    overBudget: false,
+  };
+}
+
+describe("phonetic codes", () => {
+  it("computes Soundex and Metaphone codes", () => {
+    expect(soundex("Robert")).toBe("R163");
+    expect(soundex("Ashcraft")).toBe("A261");
+    expect(soundex("Tymczak")).toBe("T522");
+    expect(metaphone("phone")).toBe(metaphone("fone"));
+    expect(metaphone("knight")).toBe("NT");
+    expect(metaphone("Thompson")).toBe("0MPSN");
+  });
+});
+
+describe("trademark screening", () => {
+  it("ranks exact, normalized and phonetic matches by risk", () => {
+    expect(index.size).toBe(4);
+    expect(screenTrademarks("novalane", index)).toMatchObject({
+      risk: "high",
+      matches: [{ mark: "Novalane", matchType: "exact", owner: "Novalane Inc." }],
+    });
+    expect(screenTrademarks("kwik-klikk", index).matches[0]).toMatchObject({ matchType: "normalized" });
+    expect(screenTrademarks("phonetika", index)).toMatchObject({
+      risk: "medium",
+      matches: [{ mark: "Fonetica", matchType: "metaphone" }],
+    });
+    expect(screenTrademarks("rupert", index)).toMatchObject({ risk: "low", matches: [{ matchType: "soundex" }] });
+    expect(screenTrademarks("zuvora", index)).toEqual({ risk: "none", matches: [] });
+  });
+
+  it("only counts marks registered in the requested Nice classes", () => {
+    expect(screenTrademarks("novalane", index, [35]).risk).toBe("none");
+    expect(screenTrademarks("novalane", index, [42, 35]).risk).toBe("high");
+    // Marks without class data are never filtered out.
+    expect(screenTrademarks("robert", index, [1]).risk).toBe("high");
+  });
+
+  it("adds a trademark detractor and lowers the overall score", () => {
+    const unscreened = scoreDomainResult(createResult("novalane.com"), input);
+    const screened = scoreDomainResult(createResult("novalane.com"), input, undefined, index);
+
+    expect(unscreened.trademarkRisk).toBeUndefined();
+    expect(screened.trademarkRisk).toBe("high");
+    expect(screened.overallScore).toBeLessThan(unscreened.overallScore);
+    expect(screened.valueDetractors[0]).toMatchObject({
+      component: "trademarkConflict",
+      impact: screened.overallScore - unscreened.overallScore,
+    });
+    expect(screened.valueDetractors[0]?.detail).toContain('"Novalane"');
+
+    const clear = scoreDomainResult(createResult("zuvora.com"), input, undefined, index);
+    expect(clear.trademarkRisk).toBe("none");
+    expect(clear.valueDetractors.some((driver) => driver.component === "trademarkConflict")).toBe(false);
+  });
+
+  it("filters ranked rows by risk level", () => {
+    const rows = [
+      { domain: "a.com", trademarkRisk: "high" },
+      { domain: "b.com", trademarkRisk: "low" },
+      { domain: "c.com" },
+    ] as RankedDomainResult[];
+
+    expect(filterByTrademarkRisk(rows, ["none", "low"]).map((row) => row.domain)).toEqual(["b.com", "c.com"]);
+    expect(filterByTrademarkRisk(rows)).toHaveLength(3);
+  });
+
+  it("loads the index file and skips screening when it is missing", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "trademarks-"));
+    const indexPath = path.join(directory, "trademarks.json");
+
+    try {
+      expect(await loadTrademarkIndex(indexPath)).toBeNull();
+
+      await writeFile(indexPath, JSON.stringify({ marks: [{ mark: "Novalane", classes: [9] }] }), "utf8");
+      const loaded = await loadTrademarkIndex(indexPath);
+      expect(loaded?.size).toBe(1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
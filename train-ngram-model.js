@@ -0,0 +1,132 @@
+/**
+ * Train the character trigram model used to score how English-like a label is.
+ * Reads one lowercase word per line from the corpus and writes trigram, bigram and unigram counts,
+ * interpolation weights, a calibration range and the word list used for segmentation.
+ * Usage: node train-ngram-model.js [corpus.txt]
+ * Writes src/lib/language/ngram-model.json.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const CORPUS = process.argv[2] || path.join(__dirname, "src", "lib", "language", "english-words.txt");
+const OUTPUT = path.join(__dirname, "src", "lib", "language", "ngram-model.json");
+const ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+const WEIGHTS = [0.6, 0.3, 0.1];
+const RANDOM_SAMPLES = 2000;
+
+function increment(map, key) {
+  map[key] = (map[key] || 0) + 1;
+}
+
+function train(words) {
+  const trigrams = {};
+  const bigrams = {};
+  const unigrams = {};
+
+  for (const word of words) {
+    const padded = `^^${word}$`;
+    for (let index = 2; index < padded.length; index += 1) {
+      increment(trigrams, padded.slice(index - 2, index + 1));
+      increment(bigrams, padded.slice(index - 1, index + 1));
+      increment(unigrams, padded[index]);
+    }
+  }
+
+  return { trigrams, bigrams, unigrams };
+}
+
+function sumByContext(counts) {
+  const contexts = {};
+  for (const [gram, count] of Object.entries(counts)) {
+    contexts[gram.slice(0, -1)] = (contexts[gram.slice(0, -1)] || 0) + count;
+  }
+  return contexts;
+}
+
+// Mirrors the runtime scorer in src/lib/language/ngram.ts.
+function createScorer(model) {
+  const trigramContexts = sumByContext(model.trigrams);
+  const bigramContexts = sumByContext(model.bigrams);
+  const total = Object.values(model.unigrams).reduce((sum, count) => sum + count, 0);
+  const symbols = ALPHABET.length + 1;
+
+  return (word) => {
+    const padded = `^^${word}$`;
+    let logProb = 0;
+
+    for (let index = 2; index < padded.length; index += 1) {
+      const trigram = padded.slice(index - 2, index + 1);
+      const bigram = padded.slice(index - 1, index + 1);
+      const p3 = (model.trigrams[trigram] || 0) / (trigramContexts[trigram.slice(0, 2)] || 1);
+      const p2 = (model.bigrams[bigram] || 0) / (bigramContexts[bigram[0]] || 1);
+      const p1 = ((model.unigrams[padded[index]] || 0) + 1) / (total + symbols);
+      logProb += Math.log2(WEIGHTS[0] * p3 + WEIGHTS[1] * p2 + WEIGHTS[2] * p1);
+    }
+
+    return logProb / (padded.length - 2);
+  };
+}
+
+function randomWords(count) {
+  let seed = 20261019;
+  const next = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  return Array.from({ length: count }, () => {
+    const length = 5 + Math.floor(next() * 6);
+    return Array.from({ length }, () => ALPHABET[Math.floor(next() * ALPHABET.length)]).join("");
+  });
+}
+
+function average(values) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function main() {
+  const words = Array.from(
+    new Set(
+      fs
+        .readFileSync(CORPUS, "utf8")
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => /^[a-z]+$/.test(line)),
+    ),
+  ).sort();
+
+  if (words.length < 500) {
+    throw new Error(`Only ${words.length} corpus words found; refusing to train.`);
+  }
+
+  const counts = train(words);
+  const score = createScorer(counts);
+  const round = (value) => Number(value.toFixed(3));
+
+  const payload = {
+    source: path.basename(CORPUS),
+    trainedAt: new Date().toISOString().slice(0, 10),
+    order: 3,
+    weights: WEIGHTS,
+    calibration: {
+      natural: round(average(words.map(score))),
+      random: round(average(randomWords(RANDOM_SAMPLES).map(score))),
+    },
+    ...counts,
+    words,
+  };
+
+  fs.writeFileSync(OUTPUT, `${JSON.stringify(payload)}\n`);
+  console.log(
+    `Trained on ${words.length} words: ${Object.keys(counts.trigrams).length} trigrams, ` +
+      `calibration ${payload.calibration.natural} (corpus) / ${payload.calibration.random} (random) bits per symbol`,
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,59 @@
+/**
+ * Refresh the bundled TLD list used for domain hack generation.
+ * Downloads the Public Suffix List and keeps the ASCII top-level entries of its ICANN section.
+ * Usage: node update-tld-list.js [sourceUrl]
+ * Writes src/lib/domain/tld-list.json.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const SOURCE = process.argv[2] || "https://publicsuffix.org/list/public_suffix_list.dat";
+const OUTPUT = path.join(__dirname, "src", "lib", "domain", "tld-list.json");
+
+function parseIcannTlds(text) {
+  const tlds = new Set();
+
+  for (const rawLine of text.split("\n")) {
+    if (rawLine.includes("===BEGIN PRIVATE DOMAINS===")) {
+      break;
+    }
+
+    const line = rawLine.trim().replace(/^[!*.]+/, "");
+    if (!line || line.startsWith("//") || line.includes(".")) {
+      continue;
+    }
+
+    if (/^[a-z0-9-]+$/.test(line) && !line.startsWith("xn--")) {
+      tlds.add(line);
+    }
+  }
+
+  return Array.from(tlds).sort();
+}
+
+async function main() {
+  const response = await fetch(SOURCE);
+  if (!response.ok) {
+    throw new Error(`Download failed with HTTP ${response.status}.`);
+  }
+
+  const tlds = parseIcannTlds(await response.text());
+  if (tlds.length < 250) {
+    throw new Error(`Only ${tlds.length} TLDs parsed; refusing to overwrite the bundled list.`);
+  }
+
+  const payload = {
+    source: SOURCE,
+    updatedAt: new Date().toISOString().slice(0, 10),
+    tlds,
+  };
+
+  fs.writeFileSync(OUTPUT, `${JSON.stringify(payload, null, 2)}\n`);
+  console.log(`Wrote ${tlds.length} TLDs to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});